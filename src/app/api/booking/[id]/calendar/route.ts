@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getBookingStore } from '@/lib/booking-store';
+import { createBookingCalendar } from '@/lib/calendar';
+
+// =============================================================================
+// BOOKING CALENDAR API ROUTE
+// =============================================================================
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const booking = await getBookingStore().get(params.id);
+
+    if (!booking) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'BOOKING_NOT_FOUND',
+            message: `No booking found with ID ${params.id}`,
+            retryable: false
+          }
+        },
+        { status: 404 }
+      );
+    }
+
+    const fileName = `booking-${booking.bookingId}.ics`.replace(/[^A-Za-z0-9._-]/g, '_');
+
+    return new NextResponse(createBookingCalendar(booking), {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+        'Cache-Control': 'no-store'
+      }
+    });
+
+  } catch (error) {
+    console.error('Booking calendar API error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'CALENDAR_ERROR',
+          message: 'Unable to generate a calendar file for this booking',
+          retryable: true
+        }
+      },
+      { status: 500 }
+    );
+  }
+}
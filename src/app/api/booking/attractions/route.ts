@@ -1,12 +1,25 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getBookingOrchestrator, TravelBookingRequest } from '@/lib/booking-orchestrator';
+import { 
+  BookingModification, 
+  getBookingErrorStatus, 
+  getBookingOrchestrator, 
+  TravelBookingRequest 
+} from '@/lib/booking-orchestrator';
+import { redactBookingRecord, redactBookingResponse } from '@/lib/booking-store';
 import { isValidBusiness, isValidContactInfo } from '@/lib/type-guards';
+import { withIdempotency } from '@/lib/idempotency';
+import { getClosedReason } from '@/lib/business-hours';
 
 // =============================================================================
 // ATTRACTION BOOKING API ROUTE
 // =============================================================================
 
 export async function POST(request: NextRequest) {
+  // Duplicate submissions with the same Idempotency-Key replay the original response
+  return withIdempotency(request, createAttractionBooking);
+}
+
+async function createAttractionBooking(request: NextRequest) {
   try {
     const body = await request.json();
     
@@ -75,15 +88,25 @@ export async function GET(request: NextRequest) {
   const bookingId = searchParams.get('booking_id');
   
   if (bookingId) {
-    // Return booking status (mock implementation)
+    const booking = await getBookingOrchestrator().getBooking(bookingId);
+    
+    if (!booking || booking.category !== 'attraction') {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'BOOKING_NOT_FOUND',
+            message: `No attraction booking found with ID ${bookingId}`,
+            retryable: false
+          }
+        },
+        { status: 404 }
+      );
+    }
+    
     return NextResponse.json({
       success: true,
-      booking: {
-        bookingId,
-        status: 'confirmed',
-        category: 'attraction',
-        message: 'Your attraction tickets are confirmed'
-      }
+      booking: redactBookingRecord(booking)
     });
   }
   
@@ -94,6 +117,9 @@ export async function GET(request: NextRequest) {
     methods: {
       POST: {
         description: 'Purchase attraction tickets',
+        headers: {
+          'Idempotency-Key': 'string (optional) - Retries with the same key replay the original response'
+        },
         required_fields: {
           business: 'Business - Attraction information',
           visitDate: 'string - Visit date (YYYY-MM-DD)',
@@ -113,6 +139,23 @@ export async function GET(request: NextRequest) {
         query_parameters: {
           booking_id: 'string - Attraction booking ID to check status'
         }
+      },
+      PATCH: {
+        description: 'Modify an existing attraction booking (subject to the cancellation policy and availability)',
+        required_fields: {
+          bookingId: 'string - Attraction booking ID to modify',
+          contactEmail: 'string - Email the booking was made with'
+        },
+        optional_fields: {
+          changes: 'visitDate, visitTime, numberOfVisitors, numberOfTickets, ticketType, specialRequests'
+        }
+      },
+      DELETE: {
+        description: 'Cancel an existing attraction booking (subject to the cancellation policy)',
+        query_parameters: {
+          booking_id: 'string - Attraction booking ID to cancel',
+          contact_email: 'string - Email the booking was made with'
+        }
       }
     },
     example_request: {
@@ -136,6 +179,119 @@ export async function GET(request: NextRequest) {
   });
 }
 
+export async function PATCH(request: NextRequest) {
+  try {
+    const body = await request.json();
+    
+    if (!body.bookingId || typeof body.bookingId !== 'string') {
+      return NextResponse.json(
+        { 
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Booking ID is required for modifications',
+            retryable: false
+          }
+        },
+        { status: 400 }
+      );
+    }
+
+    if (typeof body.contactEmail !== 'string' || body.contactEmail.trim() === '') {
+      return NextResponse.json(
+        { 
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'The booking contact email is required for modifications',
+            retryable: false
+          }
+        },
+        { status: 400 }
+      );
+    }
+    
+    const modification: BookingModification = {
+      date: body.visitDate,
+      partySize: body.numberOfTickets || body.numberOfVisitors,
+      visitTime: body.visitTime,
+      ticketType: body.ticketType,
+      numberOfTickets: body.numberOfTickets,
+      specialRequests: body.specialRequests
+    };
+
+    const result = await getBookingOrchestrator().modifyBooking(body.bookingId, modification, { category: 'attraction', contactEmail: body.contactEmail });
+    return NextResponse.json(redactBookingResponse(result), { status: result.success ? 200 : getBookingErrorStatus(result.error) });
+
+  } catch (error) {
+    console.error('Attraction booking modification error:', error);
+    return NextResponse.json(
+      { 
+        success: false,
+        error: {
+          code: 'MODIFICATION_ERROR',
+          message: 'An unexpected error occurred while modifying the attraction booking',
+          retryable: true
+        }
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const bookingId = searchParams.get('booking_id');
+    const contactEmail = searchParams.get('contact_email');
+    
+    if (!bookingId) {
+      return NextResponse.json(
+        { 
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Booking ID is required for cancellation',
+            retryable: false
+          }
+        },
+        { status: 400 }
+      );
+    }
+
+    if (!contactEmail) {
+      return NextResponse.json(
+        { 
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'The booking contact email is required for cancellation',
+            retryable: false
+          }
+        },
+        { status: 400 }
+      );
+    }
+    
+    const result = await getBookingOrchestrator().cancelBooking(bookingId, { category: 'attraction', contactEmail });
+    return NextResponse.json(redactBookingResponse(result), { status: result.success ? 200 : getBookingErrorStatus(result.error) });
+
+  } catch (error) {
+    console.error('Attraction booking cancellation error:', error);
+    return NextResponse.json(
+      { 
+        success: false,
+        error: {
+          code: 'CANCELLATION_ERROR',
+          message: 'An unexpected error occurred while cancelling the attraction booking',
+          retryable: true
+        }
+      },
+      { status: 500 }
+    );
+  }
+}
+
 // =============================================================================
 // VALIDATION HELPERS
 // =============================================================================
@@ -183,6 +339,11 @@ function validateAttractionBookingRequest(request: any): { isValid: boolean; err
     const timeRegex = /^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/;
     if (!timeRegex.test(request.visitTime)) {
       errors.push('Visit time must be in HH:MM format');
+    } else if (errors.length === 0) {
+      const closedReason = getClosedReason(request.business, request.visitDate, request.visitTime);
+      if (closedReason) {
+        errors.push(closedReason);
+      }
     }
   }
 
@@ -0,0 +1,244 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { BookingHoldRequest, BookingHoldResponse } from '@/lib/types';
+import { isValidBusiness } from '@/lib/type-guards';
+import { getClosedReason } from '@/lib/business-hours';
+import { withIdempotency } from '@/lib/idempotency';
+import { getSlotHoldManager, toBookingHoldInfo } from '@/lib/booking-holds';
+import { getReservationProvider } from '@/lib/reservation-provider';
+
+// =============================================================================
+// RESERVATION HOLD API ROUTE
+// =============================================================================
+
+export async function POST(request: NextRequest) {
+  // Duplicate submissions with the same Idempotency-Key replay the original hold
+  return withIdempotency(request, createHold);
+}
+
+async function createHold(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    // Validate request structure
+    const validation = validateHoldRequest(body);
+    if (!validation.isValid) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid hold request',
+            details: validation.errors.join(', '),
+            retryable: false
+          }
+        },
+        { status: 400 }
+      );
+    }
+
+    const { business, partySize, preferredDate, preferredTime }: BookingHoldRequest = body;
+    const holdManager = getSlotHoldManager();
+    const result = await holdManager.createHold(business, {
+      date: preferredDate,
+      time: preferredTime,
+      partySize
+    });
+
+    if (!result.success) {
+      if (result.error.code === 'NO_ONLINE_RESERVATIONS') {
+        const response: BookingHoldResponse = {
+          success: false,
+          error: {
+            code: 'NO_ONLINE_RESERVATIONS',
+            message: 'This restaurant requires phone reservations',
+            details: 'Please call the restaurant directly to make a reservation',
+            retryable: false
+          },
+          requiresPhoneCall: true,
+          phoneNumber: business.display_phone || business.phone
+        };
+        return NextResponse.json(response);
+      }
+
+      if (result.error.code === 'SLOT_UNAVAILABLE') {
+        // Suggest the openings that are still free around the requested time
+        const openings = await getReservationProvider().checkAvailability({
+          businessId: business.id,
+          date: preferredDate,
+          time: preferredTime,
+          partySize
+        });
+
+        const response: BookingHoldResponse = {
+          success: false,
+          error: {
+            code: 'TIME_UNAVAILABLE',
+            message: `The requested time ${preferredTime} is not available`,
+            details: 'Alternative times are suggested',
+            retryable: true
+          },
+          alternativeTimes: openings.success ? openings.data.available_times.slice(0, 5) : []
+        };
+        return NextResponse.json(response);
+      }
+
+      const response: BookingHoldResponse = {
+        success: false,
+        error: {
+          code: result.error.code || 'HOLD_FAILED',
+          message: result.error.message || 'Unable to hold this time slot',
+          retryable: true
+        }
+      };
+      return NextResponse.json(response, { status: 503 });
+    }
+
+    const response: BookingHoldResponse = {
+      success: true,
+      hold: toBookingHoldInfo(result.data)
+    };
+
+    return NextResponse.json(response);
+
+  } catch (error) {
+    console.error('Booking hold API error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: error instanceof SyntaxError ? 'VALIDATION_ERROR' : 'HOLD_ERROR',
+          message: error instanceof SyntaxError
+            ? 'Invalid hold request format'
+            : 'An unexpected error occurred while holding the time slot',
+          retryable: !(error instanceof SyntaxError)
+        }
+      },
+      { status: error instanceof SyntaxError ? 400 : 500 }
+    );
+  }
+}
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const holdToken = searchParams.get('hold_token');
+
+  // If a hold token is provided, return the hold status
+  if (holdToken) {
+    const hold = await getSlotHoldManager().getHold(holdToken);
+
+    if (!hold) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'HOLD_EXPIRED',
+            message: 'This hold has expired or was released',
+            retryable: true
+          }
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, hold: toBookingHoldInfo(hold) });
+  }
+
+  // Otherwise, return API documentation
+  return NextResponse.json({
+    endpoint: '/api/booking/hold',
+    description: 'Tentatively reserves a restaurant time slot while the guest enters contact details',
+    methods: {
+      POST: {
+        description: 'Hold a time slot',
+        headers: {
+          'Idempotency-Key': 'string (optional) - Retries with the same key replay the original hold'
+        },
+        required_fields: {
+          business: 'Business - Restaurant information',
+          partySize: 'number - Number of people (1-20)',
+          preferredTime: 'string - Time in HH:MM format',
+          preferredDate: 'string - Date in YYYY-MM-DD format'
+        },
+        response_format: {
+          success: 'boolean',
+          hold: 'BookingHoldInfo - Hold token, slot and expiry (status "held")',
+          alternativeTimes: 'string[] - Open times when the requested slot is taken'
+        },
+        notes: [
+          `Holds expire after ${getSlotHoldManager().getTtlSeconds()} seconds (BOOKING_HOLD_TTL_SECONDS)`,
+          'Submit the holdToken with contact details to POST /api/booking to confirm'
+        ]
+      },
+      GET: {
+        description: 'Check a hold',
+        query_parameters: {
+          hold_token: 'string - Hold token returned by POST'
+        }
+      },
+      DELETE: {
+        description: 'Release a hold before it expires',
+        query_parameters: {
+          hold_token: 'string - Hold token returned by POST'
+        }
+      }
+    }
+  });
+}
+
+export async function DELETE(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const holdToken = searchParams.get('hold_token');
+
+  if (!holdToken) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'hold_token is required',
+          retryable: false
+        }
+      },
+      { status: 400 }
+    );
+  }
+
+  const released = await getSlotHoldManager().releaseHold(holdToken);
+  return NextResponse.json({ success: true, released });
+}
+
+// =============================================================================
+// VALIDATION HELPERS
+// =============================================================================
+
+function validateHoldRequest(request: any): { isValid: boolean; errors: string[] } {
+  const errors: string[] = [];
+
+  if (!request.business || !isValidBusiness(request.business)) {
+    errors.push('Valid business information is required');
+  }
+
+  if (typeof request.partySize !== 'number' || request.partySize < 1 || request.partySize > 20) {
+    errors.push('Party size must be between 1 and 20 people');
+  }
+
+  if (typeof request.preferredTime !== 'string' || !/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/.test(request.preferredTime)) {
+    errors.push('Preferred time must be in HH:MM format');
+  }
+
+  if (typeof request.preferredDate !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(request.preferredDate)) {
+    errors.push('Preferred date must be in YYYY-MM-DD format');
+  }
+
+  if (errors.length === 0) {
+    const closedReason = getClosedReason(request.business, request.preferredDate, request.preferredTime);
+    if (closedReason) {
+      errors.push(closedReason);
+    }
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+}
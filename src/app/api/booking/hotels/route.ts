@@ -1,12 +1,25 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getBookingOrchestrator, TravelBookingRequest } from '@/lib/booking-orchestrator';
+import { 
+  BookingModification, 
+  getBookingErrorStatus, 
+  getBookingOrchestrator, 
+  TravelBookingRequest 
+} from '@/lib/booking-orchestrator';
+import { redactBookingRecord, redactBookingResponse } from '@/lib/booking-store';
 import { isValidBusiness, isValidContactInfo } from '@/lib/type-guards';
+import { withIdempotency } from '@/lib/idempotency';
+import { parseBookingDate, validateStayDates } from '@/lib/booking-dates';
 
 // =============================================================================
 // HOTEL BOOKING API ROUTE
 // =============================================================================
 
 export async function POST(request: NextRequest) {
+  // Duplicate submissions with the same Idempotency-Key replay the original response
+  return withIdempotency(request, createHotelBooking);
+}
+
+async function createHotelBooking(request: NextRequest) {
   try {
     const body = await request.json();
     
@@ -76,15 +89,25 @@ export async function GET(request: NextRequest) {
   const bookingId = searchParams.get('booking_id');
   
   if (bookingId) {
-    // Return booking status (mock implementation)
+    const booking = await getBookingOrchestrator().getBooking(bookingId);
+    
+    if (!booking || booking.category !== 'accommodation') {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'BOOKING_NOT_FOUND',
+            message: `No hotel booking found with ID ${bookingId}`,
+            retryable: false
+          }
+        },
+        { status: 404 }
+      );
+    }
+    
     return NextResponse.json({
       success: true,
-      booking: {
-        bookingId,
-        status: 'confirmed',
-        category: 'accommodation',
-        message: 'Your hotel reservation is confirmed'
-      }
+      booking: redactBookingRecord(booking)
     });
   }
   
@@ -95,6 +118,9 @@ export async function GET(request: NextRequest) {
     methods: {
       POST: {
         description: 'Create a new hotel reservation',
+        headers: {
+          'Idempotency-Key': 'string (optional) - Retries with the same key replay the original response'
+        },
         required_fields: {
           business: 'Business - Hotel information',
           checkInDate: 'string - Check-in date (YYYY-MM-DD)',
@@ -114,6 +140,23 @@ export async function GET(request: NextRequest) {
         query_parameters: {
           booking_id: 'string - Hotel booking ID to check status'
         }
+      },
+      PATCH: {
+        description: 'Modify an existing hotel booking (subject to the cancellation policy and availability)',
+        required_fields: {
+          bookingId: 'string - Hotel booking ID to modify',
+          contactEmail: 'string - Email the booking was made with'
+        },
+        optional_fields: {
+          changes: 'checkInDate, checkOutDate, numberOfGuests, numberOfRooms, roomType, specialRequests'
+        }
+      },
+      DELETE: {
+        description: 'Cancel an existing hotel booking (subject to the cancellation policy)',
+        query_parameters: {
+          booking_id: 'string - Hotel booking ID to cancel',
+          contact_email: 'string - Email the booking was made with'
+        }
       }
     },
     example_request: {
@@ -137,6 +180,120 @@ export async function GET(request: NextRequest) {
   });
 }
 
+export async function PATCH(request: NextRequest) {
+  try {
+    const body = await request.json();
+    
+    if (!body.bookingId || typeof body.bookingId !== 'string') {
+      return NextResponse.json(
+        { 
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Booking ID is required for modifications',
+            retryable: false
+          }
+        },
+        { status: 400 }
+      );
+    }
+
+    if (typeof body.contactEmail !== 'string' || body.contactEmail.trim() === '') {
+      return NextResponse.json(
+        { 
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'The booking contact email is required for modifications',
+            retryable: false
+          }
+        },
+        { status: 400 }
+      );
+    }
+    
+    const modification: BookingModification = {
+      date: body.checkInDate,
+      partySize: body.numberOfGuests,
+      checkInDate: body.checkInDate,
+      checkOutDate: body.checkOutDate,
+      roomType: body.roomType,
+      numberOfRooms: body.numberOfRooms,
+      specialRequests: body.specialRequests
+    };
+
+    const result = await getBookingOrchestrator().modifyBooking(body.bookingId, modification, { category: 'accommodation', contactEmail: body.contactEmail });
+    return NextResponse.json(redactBookingResponse(result), { status: result.success ? 200 : getBookingErrorStatus(result.error) });
+
+  } catch (error) {
+    console.error('Hotel booking modification error:', error);
+    return NextResponse.json(
+      { 
+        success: false,
+        error: {
+          code: 'MODIFICATION_ERROR',
+          message: 'An unexpected error occurred while modifying the hotel booking',
+          retryable: true
+        }
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const bookingId = searchParams.get('booking_id');
+    const contactEmail = searchParams.get('contact_email');
+    
+    if (!bookingId) {
+      return NextResponse.json(
+        { 
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Booking ID is required for cancellation',
+            retryable: false
+          }
+        },
+        { status: 400 }
+      );
+    }
+
+    if (!contactEmail) {
+      return NextResponse.json(
+        { 
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'The booking contact email is required for cancellation',
+            retryable: false
+          }
+        },
+        { status: 400 }
+      );
+    }
+    
+    const result = await getBookingOrchestrator().cancelBooking(bookingId, { category: 'accommodation', contactEmail });
+    return NextResponse.json(redactBookingResponse(result), { status: result.success ? 200 : getBookingErrorStatus(result.error) });
+
+  } catch (error) {
+    console.error('Hotel booking cancellation error:', error);
+    return NextResponse.json(
+      { 
+        success: false,
+        error: {
+          code: 'CANCELLATION_ERROR',
+          message: 'An unexpected error occurred while cancelling the hotel booking',
+          retryable: true
+        }
+      },
+      { status: 500 }
+    );
+  }
+}
+
 // =============================================================================
 // VALIDATION HELPERS
 // =============================================================================
@@ -150,33 +307,13 @@ function validateHotelBookingRequest(request: any): { isValid: boolean; errors:
   }
 
   // Validate dates
-  if (!request.checkInDate || typeof request.checkInDate !== 'string') {
-    errors.push('Check-in date is required (YYYY-MM-DD format)');
-  }
-
-  if (!request.checkOutDate || typeof request.checkOutDate !== 'string') {
-    errors.push('Check-out date is required (YYYY-MM-DD format)');
-  }
+  errors.push(...validateStayDates(request.checkInDate, request.checkOutDate));
 
-  // Validate date logic
-  if (request.checkInDate && request.checkOutDate) {
-    const checkIn = new Date(request.checkInDate);
-    const checkOut = new Date(request.checkOutDate);
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-
-    if (checkIn < today) {
-      errors.push('Check-in date cannot be in the past');
-    }
-
-    if (checkOut <= checkIn) {
-      errors.push('Check-out date must be after check-in date');
-    }
-
-    const daysDifference = Math.ceil((checkOut.getTime() - checkIn.getTime()) / (1000 * 60 * 60 * 24));
-    if (daysDifference > 30) {
-      errors.push('Hotel stays cannot exceed 30 days');
-    }
+  const checkIn = parseBookingDate(request.checkInDate);
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  if (checkIn && checkIn < today) {
+    errors.push('Check-in date cannot be in the past');
   }
 
   // Validate guests
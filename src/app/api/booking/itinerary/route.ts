@@ -0,0 +1,127 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getBookingErrorStatus, getBookingOrchestrator } from '@/lib/booking-orchestrator';
+import { isValidContactInfo } from '@/lib/type-guards';
+import { withIdempotency } from '@/lib/idempotency';
+
+// =============================================================================
+// ITINERARY BOOKING API ROUTE
+// =============================================================================
+
+export async function POST(request: NextRequest) {
+  // Duplicate submissions with the same Idempotency-Key replay the original response
+  return withIdempotency(request, bookItinerary);
+}
+
+async function bookItinerary(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    // Validate request structure
+    const validation = validateItineraryBookingRequest(body);
+    if (!validation.isValid) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid itinerary booking request',
+            details: validation.errors
+          }
+        },
+        { status: 400 }
+      );
+    }
+
+    // Book every leg; confirmed legs are cancelled again if a later leg fails
+    const orchestrator = getBookingOrchestrator();
+    const result = await orchestrator.bookItinerary(body.itinerary, body.userContact, {
+      partySize: body.partySize,
+      travelContext: body.travelContext
+    });
+
+    if (result.success) {
+      console.log(`Itinerary booking completed: ${result.itineraryId} (${result.legs.length} legs)`);
+      return NextResponse.json(result);
+    } else {
+      console.log(`Itinerary booking rolled back for ${result.itineraryId}: ${result.error?.message}`);
+      return NextResponse.json(result, { status: getBookingErrorStatus(result.error) });
+    }
+
+  } catch (error) {
+    console.error('Itinerary booking API error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'ITINERARY_BOOKING_ERROR',
+          message: 'An unexpected error occurred while booking the itinerary',
+          retryable: true
+        }
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET() {
+  // Return API documentation
+  return NextResponse.json({
+    endpoint: '/api/booking/itinerary',
+    description: 'Books every leg of a travel itinerary as a single unit',
+    methods: {
+      POST: {
+        description: 'Book accommodation, booking-required activities and transportation for an itinerary',
+        headers: {
+          'Idempotency-Key': 'string (optional) - Retries with the same key replay the original response'
+        },
+        required_fields: {
+          itinerary: 'TravelItinerary - Itinerary with days, activities and transportation',
+          userContact: 'ContactInfo - Traveller contact information'
+        },
+        optional_fields: {
+          partySize: 'number - Number of travellers (defaults to travelContext.groupSize or 1)',
+          travelContext: 'TravelContext - Additional travel information'
+        },
+        response_format: {
+          success: 'boolean - true when every bookable leg was confirmed or needs manual booking',
+          legs: 'ItineraryLegResult[] - Per-leg status, booking ID and errors',
+          compensated: 'boolean - true when confirmed legs were cancelled after a failure',
+          itinerary: 'TravelItinerary - Itinerary with updated activity booking statuses'
+        }
+      }
+    }
+  });
+}
+
+// =============================================================================
+// VALIDATION HELPERS
+// =============================================================================
+
+function validateItineraryBookingRequest(request: any): { isValid: boolean; errors: string[] } {
+  const errors: string[] = [];
+
+  // Validate itinerary
+  if (!request.itinerary || typeof request.itinerary.id !== 'string') {
+    errors.push('Valid itinerary with an ID is required');
+  } else if (!Array.isArray(request.itinerary.days) || request.itinerary.days.length === 0) {
+    errors.push('Itinerary must contain at least one day');
+  } else if (request.itinerary.days.some((day: any) => !day.date || !Array.isArray(day.activities))) {
+    errors.push('Each itinerary day requires a date and an activities list');
+  }
+
+  // Validate party size
+  if (request.partySize !== undefined &&
+      (typeof request.partySize !== 'number' || request.partySize < 1 || request.partySize > 20)) {
+    errors.push('Party size must be between 1 and 20');
+  }
+
+  // Validate contact info
+  if (!request.userContact || !isValidContactInfo(request.userContact)) {
+    errors.push('Valid contact information (name, phone, email) is required');
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+}
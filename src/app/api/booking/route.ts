@@ -7,8 +7,22 @@ import {
   ContactInfo,
   ApiResponse 
 } from '@/lib/types';
-import { getYelpClient } from '@/lib/yelp-client';
+import { 
+  getReservationProvider, 
+  ReservationConfirmation, 
+  supportsOnlineReservations 
+} from '@/lib/reservation-provider';
 import { isValidContactInfo, isValidBusiness } from '@/lib/type-guards';
+import { getClosedReason } from '@/lib/business-hours';
+import { withIdempotency } from '@/lib/idempotency';
+import { createBookingRecord, getBookingStore, redactBookingRecord, redactBookingResponse } from '@/lib/booking-store';
+import { getSlotHoldManager, SlotHold } from '@/lib/booking-holds';
+import { 
+  BookingModification, 
+  CANCELLATION_POLICIES, 
+  getBookingErrorStatus, 
+  getBookingOrchestrator 
+} from '@/lib/booking-orchestrator';
 
 // =============================================================================
 // BOOKING VALIDATION HELPERS
@@ -62,12 +76,90 @@ function validateBookingRequest(request: any): { isValid: boolean; errors: strin
     errors.push('Valid contact information (name, phone, email) is required');
   }
 
+  // Never book a time the restaurant is closed
+  if (errors.length === 0) {
+    const closedReason = getClosedReason(request.business, request.preferredDate, request.preferredTime);
+    if (closedReason) {
+      errors.push(closedReason);
+    }
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+}
+
+function validateModificationRequest(modifications: any): { isValid: boolean; errors: string[] } {
+  const errors: string[] = [];
+
+  if (!modifications || typeof modifications !== 'object') {
+    return { isValid: false, errors: ['Modifications are required'] };
+  }
+
+  if (modifications.partySize !== undefined && 
+      (typeof modifications.partySize !== 'number' || modifications.partySize < 1 || modifications.partySize > 20)) {
+    errors.push('Party size must be between 1 and 20 people');
+  }
+
+  if (modifications.preferredTime !== undefined && 
+      (typeof modifications.preferredTime !== 'string' || !/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/.test(modifications.preferredTime))) {
+    errors.push('Preferred time must be in HH:MM format');
+  }
+
+  if (modifications.preferredDate !== undefined && 
+      (typeof modifications.preferredDate !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(modifications.preferredDate))) {
+    errors.push('Preferred date must be in YYYY-MM-DD format');
+  }
+
+  if (modifications.preferredDate === undefined && modifications.preferredTime === undefined && 
+      modifications.partySize === undefined && modifications.specialRequests === undefined) {
+    errors.push('At least one of preferredDate, preferredTime, partySize or specialRequests must be changed');
+  }
+
   return {
     isValid: errors.length === 0,
     errors
   };
 }
 
+function validateHold(
+  hold: SlotHold | null,
+  request: BookingRequest
+): { response: BookingResponse; status: number } | null {
+  if (!hold || hold.restaurantId !== request.business.id) {
+    return {
+      response: {
+        success: false,
+        error: {
+          code: 'HOLD_EXPIRED',
+          message: 'Your hold on this time has expired',
+          details: 'Please choose a time again to place a new hold',
+          retryable: true
+        }
+      },
+      status: 410
+    };
+  }
+
+  if (hold.date !== request.preferredDate || hold.time !== request.preferredTime || hold.partySize !== request.partySize) {
+    return {
+      response: {
+        success: false,
+        error: {
+          code: 'HOLD_MISMATCH',
+          message: 'The reservation details do not match the held time slot',
+          details: `Held ${hold.time} on ${hold.date} for ${hold.partySize}`,
+          retryable: false
+        }
+      },
+      status: 409
+    };
+  }
+
+  return null;
+}
+
 function generateConfirmationId(): string {
   const timestamp = Date.now();
   const random = Math.random().toString(36).substring(2, 8);
@@ -85,10 +177,8 @@ async function checkAvailability(
   partySize: number
 ): Promise<ApiResponse<{ available_times: string[]; booking_url?: string }>> {
   try {
-    const yelpClient = getYelpClient();
-    
     // Check if business supports online reservations
-    if (!business.reservationUrl && !business.transactions.includes('restaurant_reservation')) {
+    if (!supportsOnlineReservations(business)) {
       return {
         success: false,
         error: {
@@ -98,8 +188,8 @@ async function checkAvailability(
       };
     }
 
-    // Call Yelp Reservations API to check availability
-    const availabilityResult = await yelpClient.checkReservationAvailability({
+    // Ask the reservation provider for openings around the requested time
+    const availabilityResult = await getReservationProvider().checkAvailability({
       businessId: business.id,
       date,
       time,
@@ -126,22 +216,36 @@ async function attemptBooking(
   time: string,
   partySize: number,
   userContact: ContactInfo,
-  specialRequests?: string
-): Promise<ApiResponse<{ confirmation_id: string; status: 'confirmed' | 'pending' }>> {
+  specialRequests?: string,
+  providerHoldId?: string
+): Promise<ApiResponse<ReservationConfirmation>> {
   try {
-    const yelpClient = getYelpClient();
-    
-    // Attempt to make the reservation through Yelp
-    const bookingResult = await yelpClient.makeReservation({
+    const provider = getReservationProvider();
+    const slot = { businessId: business.id, date, time, partySize };
+
+    // Without a hold from the hold step, hold the slot now so it cannot be taken mid-booking
+    let holdId = providerHoldId;
+    if (!holdId) {
+      const holdResult = await provider.holdSlot(slot);
+      if (!holdResult.success) {
+        return holdResult;
+      }
+      holdId = holdResult.data.hold_id;
+    }
+
+    const bookingResult = await provider.makeReservation({
       businessId: business.id,
-      date,
-      time,
-      partySize,
-      customerName: userContact.name,
-      customerPhone: userContact.phone,
-      customerEmail: userContact.email
+      holdId,
+      slot,
+      customer: userContact,
+      notes: specialRequests
     });
 
+    // A hold taken here is ours to give back; one from the hold step is released by the caller
+    if (!bookingResult.success && !providerHoldId) {
+      await provider.releaseHold(business.id, holdId);
+    }
+
     return bookingResult;
   } catch (error) {
     console.error('Error making reservation:', error);
@@ -156,6 +260,31 @@ async function attemptBooking(
   }
 }
 
+async function recordBooking(bookingInfo: BookingInfo, business: Business, status: 'confirmed' | 'pending'): Promise<void> {
+  try {
+    await getBookingStore().save(createBookingRecord({
+      bookingId: bookingInfo.confirmationId,
+      category: 'dining',
+      businessName: bookingInfo.restaurantName,
+      businessId: business.id,
+      status,
+      details: {
+        date: bookingInfo.date,
+        partySize: bookingInfo.partySize,
+        preferredTime: bookingInfo.time,
+        specialRequests: bookingInfo.specialRequests
+      },
+      userContact: bookingInfo.userContact,
+      cancellationPolicy: CANCELLATION_POLICIES.dining.description,
+      cancellationWindowHours: CANCELLATION_POLICIES.dining.windowHours,
+      confirmationEmail: true
+    }, { business }));
+  } catch (error) {
+    // The reservation itself succeeded; a ledger failure must not surface as a booking failure
+    console.error('Error recording booking:', error);
+  }
+}
+
 function generateAlternativeTimes(requestedTime: string): string[] {
   const [hours, minutes] = requestedTime.split(':').map(Number);
   const alternatives: string[] = [];
@@ -184,6 +313,11 @@ function generateAlternativeTimes(requestedTime: string): string[] {
 // =============================================================================
 
 export async function POST(request: NextRequest) {
+  // Duplicate submissions with the same Idempotency-Key replay the original response
+  return withIdempotency(request, createReservation);
+}
+
+async function createReservation(request: NextRequest) {
   try {
     const body = await request.json();
     
@@ -203,66 +337,77 @@ export async function POST(request: NextRequest) {
     }
 
     const bookingRequest: BookingRequest = body;
-    const { business, partySize, preferredTime, preferredDate, userContact, specialRequests } = bookingRequest;
+    const { business, partySize, preferredTime, preferredDate, userContact, specialRequests, holdToken } = bookingRequest;
+
+    // A held slot is already reserved for this guest, so the availability checks are skipped
+    const holdManager = getSlotHoldManager();
+    const hold = holdToken ? await holdManager.getHold(holdToken) : null;
 
-    // Step 1: Check availability
-    console.log(`Checking availability for ${business.name} on ${preferredDate} at ${preferredTime}`);
+    if (holdToken) {
+      const holdError = validateHold(hold, bookingRequest);
+      if (holdError) {
+        return NextResponse.json(holdError.response, { status: holdError.status });
+      }
+    } else {
+      // Step 1: Check availability
+      console.log(`Checking availability for ${business.name} on ${preferredDate} at ${preferredTime}`);
     
-    const availabilityResult = await checkAvailability(business, preferredDate, preferredTime, partySize);
+      const availabilityResult = await checkAvailability(business, preferredDate, preferredTime, partySize);
     
-    if (!availabilityResult.success) {
-      // Handle case where restaurant doesn't support online reservations
-      if (availabilityResult.error?.code === 'NO_ONLINE_RESERVATIONS') {
+      if (!availabilityResult.success) {
+        // Handle case where restaurant doesn't support online reservations
+        if (availabilityResult.error?.code === 'NO_ONLINE_RESERVATIONS') {
+          const response: BookingResponse = {
+            success: false,
+            error: {
+              code: 'NO_ONLINE_RESERVATIONS',
+              message: 'This restaurant requires phone reservations',
+              details: 'Please call the restaurant directly to make a reservation',
+              retryable: false
+            },
+            requiresPhoneCall: true,
+            phoneNumber: business.display_phone || business.phone
+          };
+        
+          return NextResponse.json(response);
+        }
+      
+        // Other availability check failures
         const response: BookingResponse = {
           success: false,
           error: {
-            code: 'NO_ONLINE_RESERVATIONS',
-            message: 'This restaurant requires phone reservations',
-            details: 'Please call the restaurant directly to make a reservation',
-            retryable: false
-          },
-          requiresPhoneCall: true,
-          phoneNumber: business.display_phone || business.phone
+            code: availabilityResult.error?.code || 'AVAILABILITY_ERROR',
+            message: availabilityResult.error?.message || 'Unable to check availability',
+            retryable: true
+          }
         };
-        
-        return NextResponse.json(response);
-      }
       
-      // Other availability check failures
-      const response: BookingResponse = {
-        success: false,
-        error: {
-          code: availabilityResult.error?.code || 'AVAILABILITY_ERROR',
-          message: availabilityResult.error?.message || 'Unable to check availability',
-          retryable: true
-        }
-      };
-      
-      return NextResponse.json(response, { status: 503 });
-    }
+        return NextResponse.json(response, { status: 503 });
+      }
 
-    // Step 2: Check if requested time is available
-    const availableTimes = availabilityResult.data.available_times;
-    const isTimeAvailable = availableTimes.includes(preferredTime);
+      // Step 2: Check if requested time is available
+      const availableTimes = availabilityResult.data.available_times;
+      const isTimeAvailable = availableTimes.includes(preferredTime);
     
-    if (!isTimeAvailable) {
-      // Offer alternative times
-      const alternativeTimes = availableTimes.length > 0 
-        ? availableTimes 
-        : generateAlternativeTimes(preferredTime);
+      if (!isTimeAvailable) {
+        // Offer alternative times
+        const alternativeTimes = availableTimes.length > 0 
+          ? availableTimes 
+          : generateAlternativeTimes(preferredTime);
       
-      const response: BookingResponse = {
-        success: false,
-        error: {
-          code: 'TIME_UNAVAILABLE',
-          message: `The requested time ${preferredTime} is not available`,
-          details: 'Alternative times are suggested',
-          retryable: true
-        },
-        alternativeTimes: alternativeTimes.slice(0, 5) // Limit to 5 alternatives
-      };
+        const response: BookingResponse = {
+          success: false,
+          error: {
+            code: 'TIME_UNAVAILABLE',
+            message: `The requested time ${preferredTime} is not available`,
+            details: 'Alternative times are suggested',
+            retryable: true
+          },
+          alternativeTimes: alternativeTimes.slice(0, 5) // Limit to 5 alternatives
+        };
       
-      return NextResponse.json(response);
+        return NextResponse.json(response);
+      }
     }
 
     // Step 3: Attempt to make the booking
@@ -274,12 +419,21 @@ export async function POST(request: NextRequest) {
       preferredTime, 
       partySize, 
       userContact, 
-      specialRequests
+      specialRequests,
+      hold?.providerHoldId
     );
     
     if (!bookingResult.success) {
-      // Booking failed, offer alternatives
-      const alternativeTimes = generateAlternativeTimes(preferredTime);
+      if (hold) {
+        await holdManager.releaseHold(hold.holdToken);
+      }
+
+
+      // Booking failed, offer whatever is still open (or nearby times if the provider cannot say)
+      const openings = await checkAvailability(business, preferredDate, preferredTime, partySize);
+      const alternativeTimes = openings.success && openings.data.available_times.length > 0
+        ? openings.data.available_times.filter(availableTime => availableTime !== preferredTime)
+        : generateAlternativeTimes(preferredTime);
       
       const response: BookingResponse = {
         success: false,
@@ -298,6 +452,10 @@ export async function POST(request: NextRequest) {
     }
 
     // Step 4: Booking successful!
+    if (hold) {
+      holdManager.consumeHold(hold.holdToken);
+    }
+
     const confirmationId = bookingResult.data.confirmation_id;
     
     const bookingInfo: BookingInfo = {
@@ -312,6 +470,8 @@ export async function POST(request: NextRequest) {
       specialRequests
     };
 
+    await recordBooking(bookingInfo, business, bookingResult.data.status);
+
     const response: BookingResponse = {
       success: true,
       confirmationId,
@@ -394,15 +554,25 @@ export async function GET(request: NextRequest) {
   
   // If confirmation ID is provided, return booking status
   if (confirmationId) {
-    // In a real implementation, this would query the booking database
-    // For now, return a mock response
+    const booking = await getBookingStore().get(confirmationId);
+    
+    if (!booking) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'BOOKING_NOT_FOUND',
+            message: `No booking found with confirmation ID ${confirmationId}`,
+            retryable: false
+          }
+        },
+        { status: 404 }
+      );
+    }
+    
     return NextResponse.json({
       success: true,
-      booking: {
-        confirmationId,
-        status: 'confirmed',
-        message: 'Your reservation is confirmed'
-      }
+      booking: redactBookingRecord(booking)
     });
   }
   
@@ -412,6 +582,9 @@ export async function GET(request: NextRequest) {
     methods: {
       POST: {
         description: 'Create a new restaurant reservation',
+        headers: {
+          'Idempotency-Key': 'string (optional) - Retries with the same key replay the original response'
+        },
         required_fields: {
           business: 'Business - Restaurant information',
           partySize: 'number - Number of people (1-20)',
@@ -420,7 +593,8 @@ export async function GET(request: NextRequest) {
           userContact: 'ContactInfo - Customer contact information'
         },
         optional_fields: {
-          specialRequests: 'string - Special requests or notes'
+          specialRequests: 'string - Special requests or notes',
+          holdToken: 'string - Token from POST /api/booking/hold; books the held slot without re-checking availability'
         },
         response_format: {
           success: 'boolean',
@@ -436,6 +610,24 @@ export async function GET(request: NextRequest) {
         description: 'Check booking status or get API documentation',
         query_parameters: {
           confirmation_id: 'string - Booking confirmation ID to check status'
+        },
+        related_endpoints: {
+          calendar: 'GET /api/booking/{confirmation_id}/calendar - Download the booking as an iCalendar (.ics) file'
+        }
+      },
+      PATCH: {
+        description: 'Modify an existing reservation (subject to the cancellation policy and availability)',
+        required_fields: {
+          confirmationId: 'string - Booking confirmation ID',
+          contactEmail: 'string - Email the booking was made with',
+          modifications: 'object - Any of preferredDate, preferredTime, partySize, specialRequests'
+        }
+      },
+      DELETE: {
+        description: 'Cancel an existing reservation (subject to the cancellation policy)',
+        query_parameters: {
+          confirmation_id: 'string - Booking confirmation ID to cancel',
+          contact_email: 'string - Email the booking was made with'
         }
       }
     },
@@ -458,64 +650,142 @@ export async function GET(request: NextRequest) {
   });
 }
 
-// Handle PUT requests for booking modifications
-export async function PUT(request: NextRequest) {
+// Handle PATCH requests for booking modifications
+export async function PATCH(request: NextRequest) {
   try {
     const body = await request.json();
-    const { confirmationId, modifications } = body;
+    const { confirmationId, modifications, contactEmail } = body;
     
-    if (!confirmationId) {
+    if (!confirmationId || typeof confirmationId !== 'string') {
       return NextResponse.json(
-        { error: 'Confirmation ID is required for modifications' },
+        { 
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Confirmation ID is required for modifications',
+            retryable: false
+          }
+        },
         { status: 400 }
       );
     }
     
-    // In a real implementation, this would update the booking
-    // For now, return a mock response
-    return NextResponse.json({
-      success: true,
-      message: 'Booking modification request received',
-      confirmationId,
-      status: 'modification_pending'
-    });
+    if (typeof contactEmail !== 'string' || contactEmail.trim() === '') {
+      return NextResponse.json(
+        { 
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'The booking contact email is required for modifications',
+            retryable: false
+          }
+        },
+        { status: 400 }
+      );
+    }
+    
+    const validation = validateModificationRequest(modifications);
+    if (!validation.isValid) {
+      return NextResponse.json(
+        { 
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid booking modification',
+            details: validation.errors
+          }
+        },
+        { status: 400 }
+      );
+    }
+    
+    const modification: BookingModification = {
+      date: modifications.preferredDate,
+      preferredTime: modifications.preferredTime,
+      partySize: modifications.partySize,
+      specialRequests: modifications.specialRequests
+    };
+    
+    const result = await getBookingOrchestrator().modifyBooking(
+      confirmationId, 
+      modification, 
+      { category: 'dining', contactEmail }
+    );
+    
+    return NextResponse.json(redactBookingResponse(result), { status: result.success ? 200 : getBookingErrorStatus(result.error) });
     
   } catch (error) {
     console.error('Booking modification error:', error);
     return NextResponse.json(
-      { error: 'Failed to process booking modification' },
+      { 
+        success: false,
+        error: {
+          code: 'MODIFICATION_ERROR',
+          message: 'Failed to process booking modification',
+          retryable: true
+        }
+      },
       { status: 500 }
     );
   }
 }
 
+// PUT is kept as an alias of PATCH for existing clients
+export async function PUT(request: NextRequest) {
+  return PATCH(request);
+}
+
 // Handle DELETE requests for booking cancellations
 export async function DELETE(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
     const confirmationId = searchParams.get('confirmation_id');
+    const contactEmail = searchParams.get('contact_email');
     
     if (!confirmationId) {
       return NextResponse.json(
-        { error: 'Confirmation ID is required for cancellation' },
+        { 
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Confirmation ID is required for cancellation',
+            retryable: false
+          }
+        },
+        { status: 400 }
+      );
+    }
+    
+    if (!contactEmail) {
+      return NextResponse.json(
+        { 
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'The booking contact email is required for cancellation',
+            retryable: false
+          }
+        },
         { status: 400 }
       );
     }
     
-    // In a real implementation, this would cancel the booking
-    // For now, return a mock response
-    return NextResponse.json({
-      success: true,
-      message: 'Booking cancelled successfully',
-      confirmationId,
-      status: 'cancelled'
-    });
+    const result = await getBookingOrchestrator().cancelBooking(confirmationId, { category: 'dining', contactEmail });
+    
+    return NextResponse.json(redactBookingResponse(result), { status: result.success ? 200 : getBookingErrorStatus(result.error) });
     
   } catch (error) {
     console.error('Booking cancellation error:', error);
     return NextResponse.json(
-      { error: 'Failed to cancel booking' },
+      { 
+        success: false,
+        error: {
+          code: 'CANCELLATION_ERROR',
+          message: 'Failed to cancel booking',
+          retryable: true
+        }
+      },
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
@@ -1,12 +1,24 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getBookingOrchestrator, TravelBookingRequest } from '@/lib/booking-orchestrator';
+import { 
+  BookingModification, 
+  getBookingErrorStatus, 
+  getBookingOrchestrator, 
+  TravelBookingRequest 
+} from '@/lib/booking-orchestrator';
+import { redactBookingRecord, redactBookingResponse } from '@/lib/booking-store';
 import { isValidBusiness, isValidContactInfo } from '@/lib/type-guards';
+import { withIdempotency } from '@/lib/idempotency';
 
 // =============================================================================
 // TRANSPORTATION BOOKING API ROUTE
 // =============================================================================
 
 export async function POST(request: NextRequest) {
+  // Duplicate submissions with the same Idempotency-Key replay the original response
+  return withIdempotency(request, createTransportationBooking);
+}
+
+async function createTransportationBooking(request: NextRequest) {
   try {
     const body = await request.json();
     
@@ -75,15 +87,25 @@ export async function GET(request: NextRequest) {
   const bookingId = searchParams.get('booking_id');
   
   if (bookingId) {
-    // Return booking status (mock implementation)
+    const booking = await getBookingOrchestrator().getBooking(bookingId);
+    
+    if (!booking || booking.category !== 'transportation') {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'BOOKING_NOT_FOUND',
+            message: `No transportation booking found with ID ${bookingId}`,
+            retryable: false
+          }
+        },
+        { status: 404 }
+      );
+    }
+    
     return NextResponse.json({
       success: true,
-      booking: {
-        bookingId,
-        status: 'confirmed',
-        category: 'transportation',
-        message: 'Your transportation booking is confirmed'
-      }
+      booking: redactBookingRecord(booking)
     });
   }
   
@@ -94,6 +116,9 @@ export async function GET(request: NextRequest) {
     methods: {
       POST: {
         description: 'Book transportation services',
+        headers: {
+          'Idempotency-Key': 'string (optional) - Retries with the same key replay the original response'
+        },
         required_fields: {
           business: 'Business - Transportation provider information',
           travelDate: 'string - Travel date (YYYY-MM-DD)',
@@ -113,6 +138,23 @@ export async function GET(request: NextRequest) {
         query_parameters: {
           booking_id: 'string - Transportation booking ID to check status'
         }
+      },
+      PATCH: {
+        description: 'Modify an existing transportation booking (subject to the cancellation policy and availability)',
+        required_fields: {
+          bookingId: 'string - Transportation booking ID to modify',
+          contactEmail: 'string - Email the booking was made with'
+        },
+        optional_fields: {
+          changes: 'travelDate, departureTime, arrivalTime, numberOfPassengers, specialRequests'
+        }
+      },
+      DELETE: {
+        description: 'Cancel an existing transportation booking (subject to the cancellation policy)',
+        query_parameters: {
+          booking_id: 'string - Transportation booking ID to cancel',
+          contact_email: 'string - Email the booking was made with'
+        }
       }
     },
     example_request: {
@@ -136,6 +178,118 @@ export async function GET(request: NextRequest) {
   });
 }
 
+export async function PATCH(request: NextRequest) {
+  try {
+    const body = await request.json();
+    
+    if (!body.bookingId || typeof body.bookingId !== 'string') {
+      return NextResponse.json(
+        { 
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Booking ID is required for modifications',
+            retryable: false
+          }
+        },
+        { status: 400 }
+      );
+    }
+
+    if (typeof body.contactEmail !== 'string' || body.contactEmail.trim() === '') {
+      return NextResponse.json(
+        { 
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'The booking contact email is required for modifications',
+            retryable: false
+          }
+        },
+        { status: 400 }
+      );
+    }
+    
+    const modification: BookingModification = {
+      date: body.travelDate,
+      partySize: body.numberOfPassengers,
+      departureTime: body.departureTime,
+      arrivalTime: body.arrivalTime,
+      specialRequests: body.specialRequests
+    };
+
+    const result = await getBookingOrchestrator().modifyBooking(body.bookingId, modification, { category: 'transportation', contactEmail: body.contactEmail });
+    return NextResponse.json(redactBookingResponse(result), { status: result.success ? 200 : getBookingErrorStatus(result.error) });
+
+  } catch (error) {
+    console.error('Transportation booking modification error:', error);
+    return NextResponse.json(
+      { 
+        success: false,
+        error: {
+          code: 'MODIFICATION_ERROR',
+          message: 'An unexpected error occurred while modifying the transportation booking',
+          retryable: true
+        }
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const bookingId = searchParams.get('booking_id');
+    const contactEmail = searchParams.get('contact_email');
+    
+    if (!bookingId) {
+      return NextResponse.json(
+        { 
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Booking ID is required for cancellation',
+            retryable: false
+          }
+        },
+        { status: 400 }
+      );
+    }
+
+    if (!contactEmail) {
+      return NextResponse.json(
+        { 
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'The booking contact email is required for cancellation',
+            retryable: false
+          }
+        },
+        { status: 400 }
+      );
+    }
+    
+    const result = await getBookingOrchestrator().cancelBooking(bookingId, { category: 'transportation', contactEmail });
+    return NextResponse.json(redactBookingResponse(result), { status: result.success ? 200 : getBookingErrorStatus(result.error) });
+
+  } catch (error) {
+    console.error('Transportation booking cancellation error:', error);
+    return NextResponse.json(
+      { 
+        success: false,
+        error: {
+          code: 'CANCELLATION_ERROR',
+          message: 'An unexpected error occurred while cancelling the transportation booking',
+          retryable: true
+        }
+      },
+      { status: 500 }
+    );
+  }
+}
+
 // =============================================================================
 // VALIDATION HELPERS
 // =============================================================================
@@ -0,0 +1,130 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getConversationStore,
+  summarizeConversation,
+  updateConversation,
+  validateConversationUpdate
+} from '@/lib/conversation-store';
+import { authorizeUser } from '@/lib/server-auth';
+
+// =============================================================================
+// CONVERSATION API ROUTE
+// =============================================================================
+
+type ConversationParams = { params: { userId: string; conversationId: string } };
+
+function conversationNotFound() {
+  return NextResponse.json(
+    {
+      success: false,
+      error: {
+        code: 'CONVERSATION_NOT_FOUND',
+        message: 'Conversation not found',
+        retryable: false
+      }
+    },
+    { status: 404 }
+  );
+}
+
+export async function GET(request: NextRequest, { params }: ConversationParams) {
+  const denied = await authorizeUser(request, params.userId);
+  if (denied) return denied;
+
+  try {
+    const conversation = await getConversationStore().get(params.userId, params.conversationId);
+    if (!conversation) {
+      return conversationNotFound();
+    }
+
+    return NextResponse.json({ success: true, data: conversation });
+
+  } catch (error) {
+    console.error('Conversations API error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'CONVERSATION_ERROR',
+          message: 'Unable to load the conversation',
+          retryable: true
+        }
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Rename and autosave share one endpoint; the summary is all the sidebar needs back
+export async function PATCH(request: NextRequest, { params }: ConversationParams) {
+  const denied = await authorizeUser(request, params.userId);
+  if (denied) return denied;
+
+  try {
+    const body = await request.json();
+
+    const validation = validateConversationUpdate(body);
+    if (!validation.isValid || (body.title === undefined && body.state === undefined)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid conversation update',
+            details: validation.isValid ? ['Provide a title or state to update'] : validation.errors,
+            retryable: false
+          }
+        },
+        { status: 400 }
+      );
+    }
+
+    const conversation = await getConversationStore().get(params.userId, params.conversationId);
+    if (!conversation) {
+      return conversationNotFound();
+    }
+
+    const updated = await updateConversation(conversation, { title: body.title, state: body.state });
+    return NextResponse.json({ success: true, data: summarizeConversation(updated) });
+
+  } catch (error) {
+    console.error('Conversations API error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: error instanceof SyntaxError ? 'VALIDATION_ERROR' : 'CONVERSATION_ERROR',
+          message: error instanceof SyntaxError
+            ? 'Invalid conversation update format'
+            : 'Unable to save the conversation',
+          retryable: !(error instanceof SyntaxError)
+        }
+      },
+      { status: error instanceof SyntaxError ? 400 : 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: ConversationParams) {
+  const denied = await authorizeUser(request, params.userId);
+  if (denied) return denied;
+
+  try {
+    const deleted = await getConversationStore().delete(params.userId, params.conversationId);
+    return NextResponse.json({ success: true, deleted });
+
+  } catch (error) {
+    console.error('Conversations API error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'CONVERSATION_ERROR',
+          message: 'Unable to delete the conversation',
+          retryable: true
+        }
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  createConversation,
+  listConversationSummaries,
+  validateConversationUpdate
+} from '@/lib/conversation-store';
+import { authorizeUser } from '@/lib/server-auth';
+
+// =============================================================================
+// USER CONVERSATIONS API ROUTE
+// =============================================================================
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { userId: string } }
+) {
+  const denied = await authorizeUser(request, params.userId);
+  if (denied) return denied;
+
+  try {
+    const conversations = await listConversationSummaries(params.userId);
+    return NextResponse.json({ success: true, data: conversations });
+
+  } catch (error) {
+    console.error('Conversations API error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'CONVERSATION_ERROR',
+          message: 'Unable to load conversations',
+          retryable: true
+        }
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { userId: string } }
+) {
+  const denied = await authorizeUser(request, params.userId);
+  if (denied) return denied;
+
+  try {
+    const body = await request.json();
+
+    const validation = validateConversationUpdate(body);
+    if (!validation.isValid) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid conversation',
+            details: validation.errors,
+            retryable: false
+          }
+        },
+        { status: 400 }
+      );
+    }
+
+    const conversation = await createConversation(
+      params.userId,
+      body.state ?? { messages: [], context: {} },
+      body.title
+    );
+
+    return NextResponse.json({ success: true, data: conversation }, { status: 201 });
+
+  } catch (error) {
+    console.error('Conversations API error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: error instanceof SyntaxError ? 'VALIDATION_ERROR' : 'CONVERSATION_ERROR',
+          message: error instanceof SyntaxError
+            ? 'Invalid conversation request format'
+            : 'Unable to save the conversation',
+          retryable: !(error instanceof SyntaxError)
+        }
+      },
+      { status: error instanceof SyntaxError ? 400 : 500 }
+    );
+  }
+}
@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server';
+import { CONVERSATION_CONFIG } from '@/lib/constants';
+
+// =============================================================================
+// CONVERSATIONS API ROUTE
+// =============================================================================
+
+// Handle GET requests for API documentation
+export async function GET() {
+  return NextResponse.json({
+    endpoint: '/api/conversations',
+    description: 'Saved chat history for each signed-in user, keyed by Firebase uid',
+    authentication: 'Authorization: Bearer <Firebase ID token> for the same uid as {userId}; 401 without a valid token, 403 for another user',
+    methods: {
+      'GET /api/conversations/{userId}': '{ success, data: ConversationSummary[] } - most recently active first',
+      'POST /api/conversations/{userId}': {
+        optional_fields: {
+          title: `string - up to ${CONVERSATION_CONFIG.MAX_TITLE_LENGTH} characters; defaults to the first question asked`,
+          state: '{ messages, context } - the ConversationState to save'
+        },
+        response: '{ success, data: SavedConversation } with status 201'
+      },
+      'GET /api/conversations/{userId}/{conversationId}': '{ success, data: SavedConversation }',
+      'PATCH /api/conversations/{userId}/{conversationId}': {
+        optional_fields: {
+          title: 'string - rename the conversation',
+          state: `{ messages, context } - autosave; at most ${CONVERSATION_CONFIG.MAX_MESSAGES} messages`
+        },
+        response: '{ success, data: ConversationSummary }'
+      },
+      'DELETE /api/conversations/{userId}/{conversationId}': '{ success, deleted }'
+    }
+  });
+}
@@ -6,9 +6,21 @@ import {
   handleNoSuitableTravelOptions,
   TravelDecisionRequest,
   TravelDecisionResponse,
-  TravelCategory
+  TravelCategory,
+  DecisionOptions
 } from '@/lib/decision-engine';
 import { isValidLocation } from '@/lib/type-guards';
+import { 
+  resolveScoringProfile, 
+  DEFAULT_SCORING_PROFILE, 
+  SCORING_FACTOR_KEYS, 
+  SCORING_FACTOR_NAMES, 
+  SCORING_PROFILES 
+} from '@/lib/scoring-profiles';
+import { learnFromInteractions } from '@/lib/preference-model';
+import { authorizeUser } from '@/lib/server-auth';
+import { FEATURE_FLAGS } from '@/lib/constants';
+import { validateGroupRequest, DEFAULT_GROUP_AGGREGATION, GROUP_AGGREGATIONS } from '@/lib/group-decision';
 
 export async function POST(request: NextRequest) {
   try {
@@ -36,20 +48,100 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (body.scoringProfile !== undefined || body.scoringWeights !== undefined) {
+      const scoring = resolveScoringProfile(body.scoringProfile, body.scoringWeights);
+      if (!scoring.isValid) {
+        return NextResponse.json(
+          { 
+            error: 'Invalid scoring configuration',
+            details: scoring.errors
+          },
+          { status: 400 }
+        );
+      }
+    }
+
+    if (body.preferredTime !== undefined && 
+        (typeof body.preferredTime !== 'string' || !/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/.test(body.preferredTime))) {
+      return NextResponse.json(
+        { error: 'Preferred time must be in HH:MM format' },
+        { status: 400 }
+      );
+    }
+
+    if (body.preferredDate !== undefined && 
+        (typeof body.preferredDate !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(body.preferredDate))) {
+      return NextResponse.json(
+        { error: 'Preferred date must be in YYYY-MM-DD format' },
+        { status: 400 }
+      );
+    }
+
+    if (body.userId !== undefined && (typeof body.userId !== 'string' || body.userId.trim() === '')) {
+      return NextResponse.json(
+        { error: 'userId must be a non-empty string' },
+        { status: 400 }
+      );
+    }
+
+    // Learning writes to the user's stored model, so only that user may name themselves
+    if (body.userId !== undefined) {
+      const denied = await authorizeUser(request, body.userId);
+      if (denied) return denied;
+    }
+
+    if (body.groupMembers !== undefined || body.groupAggregation !== undefined) {
+      const group = validateGroupRequest(body.groupMembers, body.groupAggregation);
+      if (!group.isValid) {
+        return NextResponse.json(
+          { 
+            error: 'Invalid group configuration',
+            details: group.errors
+          },
+          { status: 400 }
+        );
+      }
+    }
+
+    if (body.explain !== undefined && typeof body.explain !== 'boolean') {
+      return NextResponse.json(
+        { error: 'explain must be a boolean' },
+        { status: 400 }
+      );
+    }
+
     // Determine if this is a travel decision request
     const category: TravelCategory = body.category || 'dining';
     const isTravel = category !== 'dining';
 
+    // Signed-in users get a preference model learned from their interaction history
+    const learnedPreferences = FEATURE_FLAGS.ENABLE_PREFERENCE_LEARNING && body.userId
+      ? await learnFromInteractions(body.userId, body.conversationContext?.interactionHistory)
+      : undefined;
+
+    const options: DecisionOptions = {
+      conversationContext: body.conversationContext,
+      scoringProfile: body.scoringProfile,
+      scoringWeights: body.scoringWeights,
+      preferredDate: body.preferredDate,
+      preferredTime: body.preferredTime,
+      learnedPreferences,
+      groupMembers: body.groupMembers,
+      groupAggregation: body.groupAggregation,
+      // Accepted in the body or as ?explain=true
+      explain: body.explain ?? request.nextUrl.searchParams.get('explain') === 'true'
+    };
+
     let decision: DecisionResponse | TravelDecisionResponse;
     
     try {
       if (isTravel) {
         // Handle travel categories
         const travelRequest: TravelDecisionRequest = {
+          ...options,
           businesses: body.businesses,
           userPreferences: body.userPreferences,
           location: body.location,
-          conversationContext: body.conversationContext,
           category,
           travelContext: body.travelContext
         };
@@ -58,10 +150,10 @@ export async function POST(request: NextRequest) {
       } else {
         // Handle dining (legacy)
         const decisionRequest: DecisionRequest = {
+          ...options,
           businesses: body.businesses,
           userPreferences: body.userPreferences,
-          location: body.location,
-          conversationContext: body.conversationContext
+          location: body.location
         };
 
         decision = await decisionEngine.selectBestRestaurant(decisionRequest);
@@ -75,17 +167,26 @@ export async function POST(request: NextRequest) {
               body.businesses, 
               category, 
               body.userPreferences, 
-              body.travelContext
+              body.travelContext,
+              body.location,
+              options
             );
           } else {
-            decision = await handleNoSuitableOptions(body.businesses, body.userPreferences);
+            decision = await handleNoSuitableOptions(
+              body.businesses, 
+              body.userPreferences, 
+              body.location,
+              options
+            );
           }
         } catch (fallbackError) {
           const categoryName = isTravel ? category : 'restaurants';
           return NextResponse.json(
             { 
               error: `No suitable ${categoryName} found`,
-              message: 'Please try adjusting your preferences or expanding your search area'
+              message: fallbackError instanceof Error && fallbackError.message.includes('requirements')
+                ? fallbackError.message
+                : 'Please try adjusting your preferences or expanding your search area'
             },
             { status: 404 }
           );
@@ -126,7 +227,16 @@ export async function GET() {
       location: 'Location - User location for distance calculations'
     },
     optional_fields: {
-      conversationContext: 'ConversationContext - Additional context from conversation'
+      conversationContext: 'ConversationContext - Additional context from conversation',
+      scoringProfile: `string - Named scoring profile for dining decisions (default "${DEFAULT_SCORING_PROFILE}")`,
+      scoringWeights: `object - Per-factor weight overrides between 0 and 1 (${SCORING_FACTOR_KEYS.join(', ')}); rescaled to sum to 1`,
+      preferredDate: 'string - Planned visit date (YYYY-MM-DD), defaults to today',
+      preferredTime: 'string - Planned arrival time (HH:MM); places closed then are excluded and places closing soon are penalised',
+      userId: 'string - Firebase uid; conversationContext.interactionHistory is learned into a per-user preference model used as an extra scoring factor; requires Authorization: Bearer <Firebase ID token> for the same uid',
+      explain: 'boolean - Attach an explanation trace (per-factor raw input, score, weight and contribution, plus counterfactuals); also accepted as ?explain=true; not available in group mode',
+      groupMembers: 'GroupMember[] - Group mode for dining: { id, name?, preferences } per member; every member\'s hard constraints apply and each option is scored per member',
+      groupAggregation: `string - How member scores are combined in group mode (default "${DEFAULT_GROUP_AGGREGATION}")`,
+      travelContext: 'TravelContext - For travel categories; with budget { min, max, currency } set, options costing more than the budget has left (after travelContext.currentItinerary) are down-ranked and budgetWarning is set if the pick still overshoots. Dining reads conversationContext.travelContext'
     },
     response_format: {
       success: 'boolean',
@@ -159,12 +269,30 @@ export async function GET() {
         state: 'CA'
       }
     },
-    decision_factors: [
-      'Rating (30% weight) - Restaurant quality based on reviews',
-      'Price Match (25% weight) - How well price matches user preference',
-      'Distance (20% weight) - Proximity to user location',
-      'Cuisine Match (15% weight) - Alignment with preferred cuisines',
-      'Popularity (10% weight) - Review count as popularity indicator'
-    ]
+    decision_factors: {
+      rating: `${SCORING_FACTOR_NAMES.rating} - Restaurant quality based on reviews`,
+      price: `${SCORING_FACTOR_NAMES.price} - How well price matches user preference`,
+      distance: `${SCORING_FACTOR_NAMES.distance} - Proximity to user location`,
+      cuisine: `${SCORING_FACTOR_NAMES.cuisine} - Alignment with preferred cuisines`,
+      popularity: `${SCORING_FACTOR_NAMES.popularity} - Review count as popularity indicator`
+    },
+    hard_constraints: {
+      closed: 'Businesses closed at preferredTime are never picked; without a preferredTime opening hours are not checked',
+      dietary: 'userPreferences.dietaryRestrictions - excludes places built around food the diet rules out',
+      distance: 'userPreferences.distance - maximum travel distance in miles',
+      price: 'userPreferences.maxPrice - price ceiling ($ to $$$$)',
+      party_size: 'userPreferences.partySize - excludes counter-service venues that cannot seat the group'
+    },
+    group_aggregations: Object.entries(GROUP_AGGREGATIONS).map(([id, aggregation]) => ({
+      id,
+      name: aggregation.name,
+      description: aggregation.description
+    })),
+    scoring_profiles: Object.values(SCORING_PROFILES).map(profile => ({
+      id: profile.id,
+      name: profile.name,
+      description: profile.description,
+      weights: profile.weights
+    }))
   });
 }
\ No newline at end of file
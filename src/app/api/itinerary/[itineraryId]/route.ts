@@ -0,0 +1,146 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getItineraryStore } from '@/lib/itinerary-store';
+import { applyItineraryEdit, validateItineraryEdit } from '@/lib/itinerary-editor';
+import { authenticateUser } from '@/lib/server-auth';
+
+// =============================================================================
+// ITINERARY EDITING API ROUTE
+// =============================================================================
+
+// Edits that are well-formed but clash with the itinerary as it stands
+const EDIT_CONFLICT_CODES = ['TIME_OVERLAP', 'BOOKING_CONFIRMED'];
+
+function itineraryNotFound() {
+  return NextResponse.json(
+    {
+      success: false,
+      error: {
+        code: 'ITINERARY_NOT_FOUND',
+        message: 'Itinerary not found',
+        retryable: false
+      }
+    },
+    { status: 404 }
+  );
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { itineraryId: string } }
+) {
+  const user = await authenticateUser(request);
+  if (user instanceof NextResponse) return user;
+
+  try {
+    const itinerary = await getItineraryStore().get(user.uid, params.itineraryId);
+    if (!itinerary) {
+      return itineraryNotFound();
+    }
+
+    return NextResponse.json({ success: true, data: itinerary });
+
+  } catch (error) {
+    console.error('Itinerary API error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'ITINERARY_ERROR',
+          message: 'Unable to load the itinerary',
+          retryable: true
+        }
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { itineraryId: string } }
+) {
+  const user = await authenticateUser(request);
+  if (user instanceof NextResponse) return user;
+
+  try {
+    const body = await request.json();
+
+    const validation = validateItineraryEdit(body.operation);
+    if (!validation.isValid) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid itinerary operation',
+            details: validation.errors,
+            retryable: false
+          }
+        },
+        { status: 400 }
+      );
+    }
+
+    const store = getItineraryStore();
+    const itinerary = await store.get(user.uid, params.itineraryId);
+    if (!itinerary) {
+      return itineraryNotFound();
+    }
+
+    const result = applyItineraryEdit(itinerary, body.operation);
+    if (!result.success) {
+      const isConflict = EDIT_CONFLICT_CODES.includes(result.error.code || '');
+      return NextResponse.json(
+        { success: false, error: { ...result.error, retryable: false } },
+        { status: isConflict ? 409 : 400 }
+      );
+    }
+
+    const edited = { ...result.data, userId: itinerary.userId };
+    await store.save(edited);
+    return NextResponse.json({ success: true, data: edited });
+
+  } catch (error) {
+    console.error('Itinerary API error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: error instanceof SyntaxError ? 'VALIDATION_ERROR' : 'ITINERARY_ERROR',
+          message: error instanceof SyntaxError
+            ? 'Invalid itinerary operation format'
+            : 'Unable to update the itinerary',
+          retryable: !(error instanceof SyntaxError)
+        }
+      },
+      { status: error instanceof SyntaxError ? 400 : 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { itineraryId: string } }
+) {
+  const user = await authenticateUser(request);
+  if (user instanceof NextResponse) return user;
+
+  try {
+    const deleted = await getItineraryStore().delete(user.uid, params.itineraryId);
+    return NextResponse.json({ success: true, deleted });
+
+  } catch (error) {
+    console.error('Itinerary API error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'ITINERARY_ERROR',
+          message: 'Unable to delete the itinerary',
+          retryable: true
+        }
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { TravelContext, TravelItinerary } from '@/lib/types';
+import { buildBudgetLedger } from '@/lib/budget-ledger';
+import { isSupportedCurrency } from '@/lib/currency';
+
+// =============================================================================
+// ITINERARY BUDGET API ROUTE
+// =============================================================================
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    // Validate request structure
+    const validation = validateBudgetRequest(body);
+    if (!validation.isValid) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid itinerary budget request',
+            details: validation.errors
+          }
+        },
+        { status: 400 }
+      );
+    }
+
+    const itinerary: TravelItinerary = body.itinerary;
+    const travelContext: TravelContext = body.travelContext || {};
+    return NextResponse.json({ success: true, data: buildBudgetLedger(itinerary, travelContext) });
+
+  } catch (error) {
+    console.error('Itinerary budget API error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: error instanceof SyntaxError ? 'VALIDATION_ERROR' : 'BUDGET_ERROR',
+          message: error instanceof SyntaxError
+            ? 'Invalid itinerary budget request format'
+            : 'Unable to total the itinerary budget'
+        }
+      },
+      { status: error instanceof SyntaxError ? 400 : 500 }
+    );
+  }
+}
+
+export async function GET() {
+  // Return API documentation
+  return NextResponse.json({
+    endpoint: '/api/itinerary/budget',
+    description: 'Totals what an itinerary will cost against the trip budget',
+    methods: {
+      POST: {
+        description: 'Sum hotel stays, ticketed activities, typical meal spend and transport fares per day and for the whole trip',
+        required_fields: {
+          itinerary: 'TravelItinerary - Itinerary with days, activities and transportation'
+        },
+        optional_fields: {
+          travelContext: 'TravelContext - budget { min, max, currency } for the whole trip and groupSize (default 1)'
+        },
+        response_format: {
+          success: 'boolean',
+          data: 'BudgetLedger - entries, per-day and per-category totals, total, remaining and overBudget, in the budget currency (USD when none is set)'
+        }
+      }
+    }
+  });
+}
+
+// =============================================================================
+// VALIDATION HELPERS
+// =============================================================================
+
+function validateBudgetRequest(request: any): { isValid: boolean; errors: string[] } {
+  const errors: string[] = [];
+
+  if (!request.itinerary || typeof request.itinerary.id !== 'string') {
+    errors.push('Valid itinerary with an ID is required');
+  } else if (!Array.isArray(request.itinerary.days)) {
+    errors.push('Itinerary days are required');
+  } else if (request.itinerary.days.some((day: any) => !day.date || !Array.isArray(day.activities))) {
+    errors.push('Each itinerary day requires a date and an activities list');
+  }
+
+  const budget = request.travelContext?.budget;
+  if (budget !== undefined) {
+    if (typeof budget.max !== 'number' || budget.max <= 0) {
+      errors.push('Budget max must be a positive number');
+    }
+    if (budget.currency !== undefined && !isSupportedCurrency(budget.currency)) {
+      errors.push('Budget currency is not supported');
+    }
+  }
+
+  if (request.travelContext?.groupSize !== undefined &&
+      (!Number.isInteger(request.travelContext.groupSize) || request.travelContext.groupSize < 1)) {
+    errors.push('Group size must be a positive whole number');
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+}
@@ -0,0 +1,140 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { TravelItinerary } from '@/lib/types';
+import {
+  exportItineraryCalendar,
+  ItineraryExportFormat,
+  renderItineraryHtml
+} from '@/lib/itinerary-export';
+import { isSupportedCurrency } from '@/lib/currency';
+
+// =============================================================================
+// ITINERARY EXPORT API ROUTE
+// =============================================================================
+
+const EXPORT_FORMATS: ItineraryExportFormat[] = ['ics', 'html'];
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    // Validate request structure
+    const validation = validateExportRequest(body);
+    if (!validation.isValid) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid itinerary export request',
+            details: validation.errors
+          }
+        },
+        { status: 400 }
+      );
+    }
+
+    const itinerary: TravelItinerary = body.itinerary;
+    const format: ItineraryExportFormat = body.format || 'ics';
+    const fileName = `${itinerary.name || itinerary.id}`.replace(/[^A-Za-z0-9._-]+/g, '_');
+
+    if (format === 'html') {
+      return new NextResponse(
+        renderItineraryHtml(itinerary, { currency: body.currency, locale: body.locale }),
+        {
+          headers: {
+            'Content-Type': 'text/html; charset=utf-8',
+            'Content-Disposition': `inline; filename="${fileName}.html"`,
+            'Cache-Control': 'no-store'
+          }
+        }
+      );
+    }
+
+    return new NextResponse(exportItineraryCalendar(itinerary), {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${fileName}.ics"`,
+        'Cache-Control': 'no-store'
+      }
+    });
+
+  } catch (error) {
+    console.error('Itinerary export API error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: error instanceof SyntaxError ? 'VALIDATION_ERROR' : 'EXPORT_ERROR',
+          message: error instanceof SyntaxError
+            ? 'Invalid itinerary export request format'
+            : 'Unable to export the itinerary'
+        }
+      },
+      { status: error instanceof SyntaxError ? 400 : 500 }
+    );
+  }
+}
+
+export async function GET() {
+  // Return API documentation
+  return NextResponse.json({
+    endpoint: '/api/itinerary/export',
+    description: 'Exports a travel itinerary for sharing outside the app',
+    methods: {
+      POST: {
+        description: 'Export an itinerary as an iCalendar feed or a printable HTML page',
+        required_fields: {
+          itinerary: 'TravelItinerary - Itinerary with days, activities and transportation'
+        },
+        optional_fields: {
+          format: `string - One of ${EXPORT_FORMATS.join(', ')} (default ics)`,
+          currency: 'string - Currency for the estimated cost on the HTML page (default USD)',
+          locale: 'string - Locale for dates and amounts on the HTML page (default en-US)'
+        },
+        response_format: {
+          ics: 'text/calendar - One event per stay, activity and transport leg',
+          html: 'text/html - Print-optimised day-by-day plan'
+        }
+      }
+    }
+  });
+}
+
+// =============================================================================
+// VALIDATION HELPERS
+// =============================================================================
+
+function validateExportRequest(request: any): { isValid: boolean; errors: string[] } {
+  const errors: string[] = [];
+
+  if (!request.itinerary || typeof request.itinerary.id !== 'string') {
+    errors.push('Valid itinerary with an ID is required');
+  } else if (!Array.isArray(request.itinerary.days)) {
+    errors.push('Itinerary days are required');
+  } else if (request.itinerary.days.some((day: any) => !day.date || !Array.isArray(day.activities))) {
+    errors.push('Each itinerary day requires a date and an activities list');
+  } else if (!request.itinerary.destination) {
+    errors.push('Itinerary destination is required');
+  }
+
+  if (request.format !== undefined && !EXPORT_FORMATS.includes(request.format)) {
+    errors.push(`Format must be one of ${EXPORT_FORMATS.join(', ')}`);
+  }
+
+  if (request.currency !== undefined && !isSupportedCurrency(request.currency)) {
+    errors.push('Currency is not supported');
+  }
+
+  if (request.locale !== undefined) {
+    try {
+      Intl.getCanonicalLocales(request.locale);
+    } catch {
+      errors.push('Locale must be a valid BCP 47 language tag');
+    }
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+}
@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { TravelItinerary } from '@/lib/types';
+import { optimizeItineraryRoutes } from '@/lib/itinerary-optimizer';
+
+// =============================================================================
+// ITINERARY ROUTE OPTIMISER API ROUTE
+// =============================================================================
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    // Validate request structure
+    const validation = validateOptimizeRequest(body);
+    if (!validation.isValid) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid itinerary optimisation request',
+            details: validation.errors
+          }
+        },
+        { status: 400 }
+      );
+    }
+
+    const itinerary: TravelItinerary = body.itinerary;
+    return NextResponse.json({ success: true, data: optimizeItineraryRoutes(itinerary) });
+
+  } catch (error) {
+    console.error('Itinerary optimise API error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: error instanceof SyntaxError ? 'VALIDATION_ERROR' : 'OPTIMIZATION_ERROR',
+          message: error instanceof SyntaxError
+            ? 'Invalid itinerary optimisation request format'
+            : 'Unable to optimise the itinerary'
+        }
+      },
+      { status: error instanceof SyntaxError ? 400 : 500 }
+    );
+  }
+}
+
+export async function GET() {
+  // Return API documentation
+  return NextResponse.json({
+    endpoint: '/api/itinerary/optimize',
+    description: 'Reorders each day of an itinerary to cut travel between stops',
+    methods: {
+      POST: {
+        description: 'Sequence every day\'s activities for the shortest route and recompute their start times. Confirmed bookings and transport keep their times, meals stay in their breakfast, lunch or dinner window, and other stops only move to times they are open.',
+        required_fields: {
+          itinerary: 'TravelItinerary - Itinerary whose activities have HH:MM times and durations in minutes'
+        },
+        response_format: {
+          success: 'boolean',
+          data: {
+            itinerary: 'TravelItinerary - Reordered itinerary with recomputed times',
+            days: 'DayRouteSummary[] - Per-day beforeKm, afterKm, savedKm and a readable summary',
+            beforeKm: 'number - Total travel before optimising',
+            afterKm: 'number - Total travel after optimising',
+            savedKm: 'number'
+          }
+        }
+      }
+    }
+  });
+}
+
+// =============================================================================
+// VALIDATION HELPERS
+// =============================================================================
+
+function validateOptimizeRequest(request: any): { isValid: boolean; errors: string[] } {
+  const errors: string[] = [];
+
+  if (!request.itinerary || typeof request.itinerary.id !== 'string') {
+    errors.push('Valid itinerary with an ID is required');
+  } else if (!Array.isArray(request.itinerary.days)) {
+    errors.push('Itinerary days are required');
+  } else if (request.itinerary.days.some((day: any) => !day.date || !Array.isArray(day.activities))) {
+    errors.push('Each itinerary day requires a date and an activities list');
+  } else if (request.itinerary.days.some((day: any) => day.activities.some((activity: any) =>
+    !activity.activity || typeof activity.time !== 'string' || !TIME_PATTERN.test(activity.time) ||
+    typeof activity.duration !== 'number' || activity.duration < 0
+  ))) {
+    errors.push('Each activity requires a business, an HH:MM time and a duration in minutes');
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+}
@@ -0,0 +1,168 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { Business, TravelContext } from '@/lib/types';
+import { isValidLocation } from '@/lib/type-guards';
+import { handleBusinessSearch } from '@/lib/yelp-server';
+import { ItineraryCandidates, MAX_ITINERARY_DAYS, planItinerary } from '@/lib/itinerary-planner';
+
+// =============================================================================
+// ITINERARY PLANNER API ROUTE
+// =============================================================================
+
+const TRAVEL_STYLES: NonNullable<TravelContext['travelStyle']>[] = ['budget', 'mid-range', 'luxury', 'adventure', 'cultural'];
+
+// Yelp categories searched for each slot when the caller doesn't supply candidates
+const CANDIDATE_SEARCHES: Record<keyof ItineraryCandidates, { categories: string; limit: number }> = {
+  accommodation: { categories: 'hotels', limit: 20 },
+  dining: { categories: 'restaurants', limit: 50 },
+  attractions: { categories: 'tours,museums,parks,landmarks', limit: 30 }
+};
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    // Validate request structure
+    const validation = validatePlanRequest(body);
+    if (!validation.isValid) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid itinerary plan request',
+            details: validation.errors,
+            retryable: false
+          }
+        },
+        { status: 400 }
+      );
+    }
+
+    const travelContext: TravelContext = body.travelContext;
+    const candidates: ItineraryCandidates = body.candidates ?? await searchCandidates(travelContext);
+
+    const itinerary = await planItinerary(travelContext, candidates, {
+      userPreferences: body.userPreferences,
+      attractionsPerDay: body.attractionsPerDay,
+      name: body.name
+    });
+
+    return NextResponse.json({ success: true, data: itinerary });
+
+  } catch (error) {
+    console.error('Itinerary planner API error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: error instanceof SyntaxError ? 'VALIDATION_ERROR' : 'PLANNING_ERROR',
+          message: error instanceof SyntaxError
+            ? 'Invalid itinerary plan request format'
+            : 'Unable to plan the itinerary',
+          retryable: !(error instanceof SyntaxError)
+        }
+      },
+      { status: error instanceof SyntaxError ? 400 : 500 }
+    );
+  }
+}
+
+export async function GET() {
+  // Return API documentation
+  return NextResponse.json({
+    endpoint: '/api/itinerary/plan',
+    description: 'Builds a complete day-by-day itinerary for a trip',
+    methods: {
+      POST: {
+        description: 'Pick a hotel, three meals and attractions for every day, respecting opening hours and travel time between stops',
+        required_fields: {
+          travelContext: 'TravelContext - destination and travelDates are required; interests, travelStyle and groupSize shape the picks'
+        },
+        optional_fields: {
+          userPreferences: 'UserPreferences - Dining preferences and hard constraints applied to every meal',
+          candidates: 'object - { accommodation, dining, attractions } Business arrays to plan from instead of searching Yelp',
+          attractionsPerDay: 'number - Overrides the travel-style default (2, or 3 for adventure and cultural trips)',
+          name: 'string - Itinerary name'
+        },
+        response_format: {
+          success: 'boolean',
+          data: 'TravelItinerary - Days with timed activities, meals and accommodation, plus totalEstimatedCost in USD; unfilled slots are listed in each day\'s notes'
+        },
+        limits: {
+          max_days: MAX_ITINERARY_DAYS
+        }
+      }
+    }
+  });
+}
+
+// =============================================================================
+// CANDIDATE SEARCH
+// =============================================================================
+
+async function searchCandidates(travelContext: TravelContext): Promise<ItineraryCandidates> {
+  const { latitude, longitude } = travelContext.destination!;
+  const search = (slot: keyof ItineraryCandidates): Promise<Business[]> =>
+    handleBusinessSearch({ latitude, longitude, ...CANDIDATE_SEARCHES[slot] });
+
+  // One at a time keeps us inside the Yelp rate limit
+  const accommodation = await search('accommodation');
+  const dining = await search('dining');
+  const attractions = await search('attractions');
+
+  return { accommodation, dining, attractions };
+}
+
+// =============================================================================
+// VALIDATION HELPERS
+// =============================================================================
+
+function validatePlanRequest(request: any): { isValid: boolean; errors: string[] } {
+  const errors: string[] = [];
+  const travelContext = request.travelContext;
+
+  if (!travelContext || typeof travelContext !== 'object') {
+    errors.push('Travel context is required');
+  } else {
+    if (!travelContext.destination || !isValidLocation(travelContext.destination)) {
+      errors.push('Valid destination is required');
+    }
+
+    const dates = travelContext.travelDates;
+    const start = dates ? new Date(dates.startDate) : null;
+    const end = dates ? new Date(dates.endDate) : null;
+    if (!start || !end || isNaN(start.getTime()) || isNaN(end.getTime())) {
+      errors.push('Travel dates with a valid startDate and endDate are required');
+    } else if (end < start) {
+      errors.push('Trip end date must not be before the start date');
+    } else if ((end.getTime() - start.getTime()) / (24 * 60 * 60 * 1000) >= MAX_ITINERARY_DAYS) {
+      errors.push(`Itineraries are limited to ${MAX_ITINERARY_DAYS} days`);
+    }
+
+    if (travelContext.travelStyle !== undefined && !TRAVEL_STYLES.includes(travelContext.travelStyle)) {
+      errors.push(`Travel style must be one of ${TRAVEL_STYLES.join(', ')}`);
+    }
+
+    if (travelContext.interests !== undefined &&
+        (!Array.isArray(travelContext.interests) || travelContext.interests.some((interest: unknown) => typeof interest !== 'string'))) {
+      errors.push('Interests must be an array of strings');
+    }
+  }
+
+  if (request.candidates !== undefined) {
+    const slots = Object.keys(CANDIDATE_SEARCHES) as Array<keyof ItineraryCandidates>;
+    if (!request.candidates || slots.some(slot => !Array.isArray(request.candidates[slot]))) {
+      errors.push(`Candidates must include ${slots.join(', ')} arrays`);
+    }
+  }
+
+  if (request.attractionsPerDay !== undefined &&
+      (!Number.isInteger(request.attractionsPerDay) || request.attractionsPerDay < 0 || request.attractionsPerDay > 4)) {
+    errors.push('attractionsPerDay must be a whole number between 0 and 4');
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+}
@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { randomUUID } from 'crypto';
+import { getItineraryStore, SavedItinerary } from '@/lib/itinerary-store';
+import { ITINERARY_EDIT_TYPES, validateItinerarySchedule } from '@/lib/itinerary-editor';
+import { authenticateUser } from '@/lib/server-auth';
+
+// =============================================================================
+// ITINERARY API ROUTE
+// =============================================================================
+
+export async function POST(request: NextRequest) {
+  const user = await authenticateUser(request);
+  if (user instanceof NextResponse) return user;
+
+  try {
+    const body = await request.json();
+
+    // Validate request structure
+    const validation = validateCreateRequest(body);
+    if (!validation.isValid) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid itinerary',
+            details: validation.errors,
+            retryable: false
+          }
+        },
+        { status: 400 }
+      );
+    }
+
+    // IDs are always issued here so a client can never save over another itinerary
+    const itinerary: SavedItinerary = { ...body.itinerary, id: randomUUID(), userId: user.uid };
+
+    await getItineraryStore().save(itinerary);
+    return NextResponse.json({ success: true, data: itinerary }, { status: 201 });
+
+  } catch (error) {
+    console.error('Itinerary API error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: error instanceof SyntaxError ? 'VALIDATION_ERROR' : 'ITINERARY_ERROR',
+          message: error instanceof SyntaxError
+            ? 'Invalid itinerary request format'
+            : 'Unable to save the itinerary',
+          retryable: !(error instanceof SyntaxError)
+        }
+      },
+      { status: error instanceof SyntaxError ? 400 : 500 }
+    );
+  }
+}
+
+// Handle GET requests for API documentation
+export async function GET() {
+  return NextResponse.json({
+    endpoint: '/api/itinerary',
+    description: 'Saved itineraries with fine-grained editing; no two activities on a day may overlap',
+    authentication: 'Authorization: Bearer <Firebase ID token>; each user only sees the itineraries they saved',
+    methods: {
+      'POST /api/itinerary': {
+        required_fields: {
+          itinerary: 'TravelItinerary - name, destination and days; a new id is always generated'
+        },
+        response: '{ success, data: TravelItinerary } with status 201'
+      },
+      'GET /api/itinerary/{itineraryId}': 'The saved itinerary',
+      'PATCH /api/itinerary/{itineraryId}': {
+        required_fields: {
+          operation: `ItineraryEdit - type is one of ${ITINERARY_EDIT_TYPES.join(', ')}`
+        },
+        operations: {
+          add_activity: '{ dayIndex, activity: PlannedActivity }',
+          remove_activity: '{ dayIndex, activityIndex }',
+          move_activity: '{ dayIndex, activityIndex, toDayIndex, time? } - confirmed bookings cannot move',
+          swap_meal: '{ dayIndex, activityIndex, business } - replaces a dining activity in the same time slot',
+          set_accommodation: '{ dayIndex, accommodation: Business | null }',
+          reorder_days: '{ order: number[] } - order[i] is the current index of the plan to run on day i; dates, hotels and transport stay put'
+        },
+        response: '{ success, data: TravelItinerary }; 409 TIME_OVERLAP or BOOKING_CONFIRMED when the edit is refused'
+      },
+      'DELETE /api/itinerary/{itineraryId}': '{ success, deleted }'
+    },
+    related_endpoints: ['/api/itinerary/plan', '/api/itinerary/optimize', '/api/itinerary/budget', '/api/itinerary/export']
+  });
+}
+
+// =============================================================================
+// VALIDATION HELPERS
+// =============================================================================
+
+function validateCreateRequest(request: any): { isValid: boolean; errors: string[] } {
+  const errors: string[] = [];
+  const itinerary = request.itinerary;
+
+  if (!itinerary || typeof itinerary !== 'object') {
+    errors.push('Itinerary is required');
+  } else if (typeof itinerary.name !== 'string' || !itinerary.destination) {
+    errors.push('Itinerary name and destination are required');
+  } else if (!Array.isArray(itinerary.days) ||
+      itinerary.days.some((day: any) => !day.date || !Array.isArray(day.activities))) {
+    errors.push('Each itinerary day requires a date and an activities list');
+  } else {
+    errors.push(...validateItinerarySchedule(itinerary).errors);
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+}
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getPreferenceModelStore } from '@/lib/preference-model';
+import { authorizeUser } from '@/lib/server-auth';
+
+// =============================================================================
+// LEARNED PREFERENCES API ROUTE
+// =============================================================================
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { userId: string } }
+) {
+  const denied = await authorizeUser(request, params.userId);
+  if (denied) return denied;
+
+  try {
+    const model = await getPreferenceModelStore().get(params.userId);
+
+    if (!model) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'PREFERENCES_NOT_FOUND',
+            message: 'No learned preferences for this user yet',
+            retryable: false
+          }
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: model });
+
+  } catch (error) {
+    console.error('Preferences API error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'PREFERENCES_ERROR',
+          message: 'Unable to load learned preferences',
+          retryable: true
+        }
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Lets users reset what has been learned about them
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { userId: string } }
+) {
+  const denied = await authorizeUser(request, params.userId);
+  if (denied) return denied;
+
+  try {
+    const deleted = await getPreferenceModelStore().delete(params.userId);
+    return NextResponse.json({ success: true, deleted });
+
+  } catch (error) {
+    console.error('Preferences API error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'PREFERENCES_ERROR',
+          message: 'Unable to reset learned preferences',
+          retryable: true
+        }
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { closeVotingSession, toPublicVotingSession } from '@/lib/voting-sessions';
+
+// =============================================================================
+// CLOSE VOTING SESSION API ROUTE
+// =============================================================================
+
+const CLOSE_ERROR_STATUS: Record<string, number> = {
+  SESSION_NOT_FOUND: 404,
+  FORBIDDEN: 403,
+  SESSION_CLOSED: 409
+};
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { sessionId: string } }
+) {
+  try {
+    // Without a readable body there is no creator token, which closeVotingSession refuses
+    const body = await request.json().catch(() => ({}));
+    const result = await closeVotingSession(
+      params.sessionId,
+      typeof body.creatorToken === 'string' ? body.creatorToken : undefined
+    );
+
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: result.error.code,
+            message: result.error.message,
+            retryable: false
+          }
+        },
+        { status: CLOSE_ERROR_STATUS[result.error.code ?? ''] ?? 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: toPublicVotingSession(result.data),
+      decision: result.data.finalDecision ?? null
+    });
+
+  } catch (error) {
+    console.error('Voting session API error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'SESSION_ERROR',
+          message: 'Unable to close the voting session',
+          retryable: true
+        }
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionJoinUrl, getVotingSession, toPublicVotingSession } from '@/lib/voting-sessions';
+
+// =============================================================================
+// VOTING SESSION API ROUTE
+// =============================================================================
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { sessionId: string } }
+) {
+  try {
+    const session = await getVotingSession(params.sessionId);
+
+    if (!session) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'SESSION_NOT_FOUND',
+            message: 'Voting session not found',
+            retryable: false
+          }
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: toPublicVotingSession(session),
+      joinUrl: getSessionJoinUrl(session.sessionId, request.nextUrl.origin)
+    });
+
+  } catch (error) {
+    console.error('Voting session API error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'SESSION_ERROR',
+          message: 'Unable to load the voting session',
+          retryable: true
+        }
+      },
+      { status: 500 }
+    );
+  }
+}
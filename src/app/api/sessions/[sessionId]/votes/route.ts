@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { castVote, getVotingSession, toPublicVotingSession, validateBallot } from '@/lib/voting-sessions';
+
+// =============================================================================
+// VOTING SESSION BALLOTS API ROUTE
+// =============================================================================
+
+const VOTE_ERROR_STATUS: Record<string, number> = {
+  SESSION_NOT_FOUND: 404,
+  FORBIDDEN: 403
+};
+
+// Resubmitting with the same participantId and its participantToken replaces the earlier ranking
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { sessionId: string } }
+) {
+  try {
+    const body = await request.json();
+    const session = await getVotingSession(params.sessionId);
+
+    if (!session) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'SESSION_NOT_FOUND',
+            message: 'Voting session not found',
+            retryable: false
+          }
+        },
+        { status: 404 }
+      );
+    }
+
+    const validation = validateBallot(session, body.participantId, body.ranking);
+    if (!validation.isValid) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid ballot',
+            details: validation.errors.join(', '),
+            retryable: false
+          }
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await castVote(
+      params.sessionId,
+      {
+        participantId: body.participantId,
+        name: typeof body.name === 'string' ? body.name : undefined,
+        ranking: body.ranking
+      },
+      typeof body.participantToken === 'string' ? body.participantToken : undefined
+    );
+
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: result.error.code,
+            message: result.error.message,
+            retryable: false
+          }
+        },
+        { status: VOTE_ERROR_STATUS[result.error.code ?? ''] ?? 409 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: toPublicVotingSession(result.data.session),
+      participantToken: result.data.participantToken
+    });
+
+  } catch (error) {
+    console.error('Voting session API error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: error instanceof SyntaxError ? 'VALIDATION_ERROR' : 'SESSION_ERROR',
+          message: error instanceof SyntaxError
+            ? 'Invalid ballot format'
+            : 'Unable to record your vote',
+          retryable: !(error instanceof SyntaxError)
+        }
+      },
+      { status: error instanceof SyntaxError ? 400 : 500 }
+    );
+  }
+}
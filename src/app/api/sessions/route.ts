@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isValidBusiness } from '@/lib/type-guards';
+import { VOTING_CONFIG } from '@/lib/constants';
+import { createVotingSession, getSessionJoinUrl, toPublicVotingSession } from '@/lib/voting-sessions';
+
+// =============================================================================
+// VOTING SESSIONS API ROUTE
+// =============================================================================
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    const validation = validateCreateRequest(body);
+    if (!validation.isValid) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid voting session request',
+            details: validation.errors.join(', '),
+            retryable: false
+          }
+        },
+        { status: 400 }
+      );
+    }
+
+    const session = await createVotingSession(body.decision, {
+      title: body.title,
+      ttlMinutes: body.ttlMinutes
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: toPublicVotingSession(session),
+        // Only the creator ever sees this; share the joinUrl instead
+        creatorToken: session.creatorToken,
+        joinUrl: getSessionJoinUrl(session.sessionId, request.nextUrl.origin)
+      },
+      { status: 201 }
+    );
+
+  } catch (error) {
+    console.error('Voting sessions API error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: error instanceof SyntaxError ? 'VALIDATION_ERROR' : 'SESSION_ERROR',
+          message: error instanceof SyntaxError
+            ? 'Invalid voting session request format'
+            : 'Unable to create the voting session',
+          retryable: !(error instanceof SyntaxError)
+        }
+      },
+      { status: error instanceof SyntaxError ? 400 : 500 }
+    );
+  }
+}
+
+// Handle GET requests for API documentation
+export async function GET() {
+  return NextResponse.json({
+    endpoint: '/api/sessions',
+    description: 'Shared voting sessions: friends rank a decision\'s pick and alternatives, and the tally becomes the final choice',
+    methods: {
+      'POST /api/sessions': {
+        required_fields: {
+          decision: 'DecisionResponse - The decision whose selectedBusiness and alternatives are voted on'
+        },
+        optional_fields: {
+          title: 'string - Shown to participants',
+          ttlMinutes: `number - Minutes until the vote closes by itself (default ${VOTING_CONFIG.DEFAULT_TTL_MINUTES}, max ${VOTING_CONFIG.MAX_TTL_MINUTES})`
+        },
+        response: '{ success, data: VotingSession, creatorToken, joinUrl } - keep creatorToken private; it is needed to close the vote'
+      },
+      'GET /api/sessions/{sessionId}': 'Session with its options, anonymous ballots and, once closed, the tally and finalDecision',
+      'POST /api/sessions/{sessionId}/votes': '{ participantId, participantToken?, name?, ranking: businessId[] } - Submit a ranking, most preferred first; the response\'s participantToken is needed to replace it',
+      'POST /api/sessions/{sessionId}/close': '{ creatorToken } - Close the vote; the Borda tally winner becomes finalDecision.selectedBusiness'
+    },
+    limits: {
+      max_options: VOTING_CONFIG.MAX_OPTIONS,
+      max_participants: VOTING_CONFIG.MAX_PARTICIPANTS
+    },
+    expiry: 'Expired sessions close automatically with the ballots received so far'
+  });
+}
+
+function validateCreateRequest(body: any): { isValid: boolean; errors: string[] } {
+  const errors: string[] = [];
+
+  if (!body.decision || typeof body.decision !== 'object') {
+    errors.push('Decision is required');
+  } else {
+    if (!isValidBusiness(body.decision.selectedBusiness)) {
+      errors.push('Decision must include a valid selectedBusiness');
+    }
+    if (body.decision.alternatives !== undefined &&
+        (!Array.isArray(body.decision.alternatives) || !body.decision.alternatives.every(isValidBusiness))) {
+      errors.push('Decision alternatives must be valid businesses');
+    }
+  }
+
+  if (body.title !== undefined && typeof body.title !== 'string') {
+    errors.push('Title must be a string');
+  }
+
+  if (body.ttlMinutes !== undefined &&
+      (typeof body.ttlMinutes !== 'number' || body.ttlMinutes <= 0 || body.ttlMinutes > VOTING_CONFIG.MAX_TTL_MINUTES)) {
+    errors.push(`ttlMinutes must be between 1 and ${VOTING_CONFIG.MAX_TTL_MINUTES}`);
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+}
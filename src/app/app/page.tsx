@@ -86,11 +86,6 @@ export default function AppPage() {
     setBookingModalOpen(true);
   };
 
-  const handleNewChat = () => {
-    // Mock new chat - in real app would clear conversation
-    window.location.reload();
-  };
-
   const handleOnboardingComplete = (preferences: UserPreferences) => {
     if (user) {
       // Save preferences to localStorage
@@ -182,7 +177,6 @@ export default function AppPage() {
           <ConversationSidebar
             isOpen={sidebarOpen}
             onClose={() => setSidebarOpen(false)}
-            onNewChat={handleNewChat}
           />
 
           {/* Booking Modal */}
@@ -0,0 +1,197 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { GridBackground } from '@/components/ui/GridBackground';
+import { Button } from '@/components/ui/Button';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent, CardFooter } from '@/components/ui/Card';
+import { Input } from '@/components/ui/Input';
+import { Label } from '@/components/ui/label';
+import { LoadingCard } from '@/components/ui/LoadingSpinner';
+import { FormError } from '@/components/ui/FormError';
+import { STORAGE_KEYS } from '@/lib/constants';
+import type { Business } from '@/lib/types';
+import type { PublicVotingSession } from '@/lib/voting-sessions';
+
+// The id and token this browser voted with, so a second submission replaces the first ballot
+interface StoredParticipant {
+  participantId: string;
+  participantToken?: string;
+  name?: string;
+}
+
+function loadParticipant(storageKey: string): StoredParticipant {
+  try {
+    const stored = localStorage.getItem(storageKey);
+    if (stored) return JSON.parse(stored);
+  } catch {
+    // Unreadable entry; start over with a new participant
+  }
+  return { participantId: crypto.randomUUID() };
+}
+
+function moveOption(ranking: Business[], index: number, offset: number): Business[] {
+  const target = index + offset;
+  if (target < 0 || target >= ranking.length) return ranking;
+  const reordered = [...ranking];
+  [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+  return reordered;
+}
+
+export default function VotingSessionPage({ params }: { params: { sessionId: string } }) {
+  const storageKey = `${STORAGE_KEYS.VOTING_PARTICIPANT}_${params.sessionId}`;
+  const [session, setSession] = useState<PublicVotingSession | null>(null);
+  const [ranking, setRanking] = useState<Business[]>([]);
+  const [participant, setParticipant] = useState<StoredParticipant | null>(null);
+  const [name, setName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const loadSession = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/sessions/${encodeURIComponent(params.sessionId)}`);
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error?.message || 'Unable to load the vote');
+      }
+      setSession(data.data);
+      setRanking(current => current.length > 0 ? current : data.data.options);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to load the vote');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [params.sessionId]);
+
+  useEffect(() => {
+    const stored = loadParticipant(storageKey);
+    setParticipant(stored);
+    setName(stored.name || '');
+    loadSession();
+  }, [storageKey, loadSession]);
+
+  const submitVote = async () => {
+    if (!participant) return;
+
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/sessions/${encodeURIComponent(params.sessionId)}/votes`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          participantId: participant.participantId,
+          participantToken: participant.participantToken,
+          name: name.trim() || undefined,
+          ranking: ranking.map(business => business.id)
+        })
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error?.message || 'Unable to record your vote');
+      }
+
+      const updated = { ...participant, participantToken: data.participantToken, name: name.trim() || undefined };
+      localStorage.setItem(storageKey, JSON.stringify(updated));
+      setParticipant(updated);
+      setSession(data.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to record your vote');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <GridBackground className="min-h-screen bg-[#f5f5f5] py-12">
+        <LoadingCard title="Loading the vote" description="Fetching the shortlist..." />
+      </GridBackground>
+    );
+  }
+
+  if (!session) {
+    return (
+      <GridBackground className="min-h-screen bg-[#f5f5f5] py-12">
+        <div className="max-w-xl mx-auto px-4">
+          <FormError error={error || 'Voting session not found'} />
+        </div>
+      </GridBackground>
+    );
+  }
+
+  const isOpen = session.status === 'open';
+  const hasVoted = Boolean(participant?.participantToken);
+  const winner = session.finalDecision?.selectedBusiness;
+
+  return (
+    <GridBackground className="min-h-screen bg-[#f5f5f5] py-12">
+      <div className="max-w-xl mx-auto px-4 space-y-6">
+        <div className="text-center">
+          <h1 className="text-4xl font-black text-black mb-2">{session.title || 'Help pick the spot'}</h1>
+          <p className="text-lg font-bold text-gray-700">
+            {isOpen
+              ? `Rank the options, favourite first. Voting closes ${new Date(session.expiresAt).toLocaleString()}.`
+              : `This vote is ${session.status}.`}
+          </p>
+        </div>
+
+        {winner && (
+          <Card className="bg-yellow-400">
+            <CardHeader>
+              <CardTitle>{winner.name} won</CardTitle>
+              <CardDescription>{session.finalDecision?.reasoning}</CardDescription>
+            </CardHeader>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>{isOpen ? 'Your ranking' : 'Options'}</CardTitle>
+            <CardDescription>
+              {session.ballots.length} ballot{session.ballots.length === 1 ? '' : 's'} so far
+              {hasVoted && isOpen ? ' — including yours; submit again to change it' : ''}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {ranking.map((business, index) => (
+              <div key={business.id} className="flex items-center gap-3 border-2 border-black bg-white p-3">
+                <span className="font-black text-xl w-6">{index + 1}</span>
+                <div className="flex-1">
+                  <p className="font-bold">{business.name}</p>
+                  <p className="text-sm text-gray-600">
+                    {[business.price, business.location?.address1].filter(Boolean).join(' · ')}
+                  </p>
+                </div>
+                {isOpen && (
+                  <div className="flex gap-1">
+                    <Button size="sm" variant="neutral" aria-label={`Move ${business.name} up`}
+                      disabled={index === 0} onClick={() => setRanking(moveOption(ranking, index, -1))}>↑</Button>
+                    <Button size="sm" variant="neutral" aria-label={`Move ${business.name} down`}
+                      disabled={index === ranking.length - 1} onClick={() => setRanking(moveOption(ranking, index, 1))}>↓</Button>
+                  </div>
+                )}
+              </div>
+            ))}
+
+            {isOpen && (
+              <div className="space-y-2 pt-2">
+                <Label htmlFor="voter-name">Your name (optional)</Label>
+                <Input id="voter-name" value={name} maxLength={40} onChange={event => setName(event.target.value)} />
+              </div>
+            )}
+
+            <FormError error={error} />
+          </CardContent>
+          {isOpen && (
+            <CardFooter>
+              <Button className="w-full" onClick={submitVote} disabled={isSubmitting || !participant}>
+                {isSubmitting ? 'Sending...' : hasVoted ? 'Update my vote' : 'Submit my vote'}
+              </Button>
+            </CardFooter>
+          )}
+        </Card>
+      </div>
+    </GridBackground>
+  );
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import React from 'react';
+import React, { useState } from 'react';
 import type { Business, DecisionResponse } from '@/lib/types';
 
 interface AIDecisionCardProps {
@@ -16,7 +16,18 @@ export default function AIDecisionCard({
   onShowAlternatives,
   className = ''
 }: AIDecisionCardProps) {
-  const { selectedBusiness, reasoning, confidence, alternatives } = decision;
+  const { 
+    selectedBusiness, 
+    reasoning, 
+    confidence, 
+    confidenceBreakdown, 
+    alternatives, 
+    alternativeDetails, 
+    scoringProfile,
+    explanation,
+    budgetWarning
+  } = decision;
+  const [showExplanation, setShowExplanation] = useState(false);
   const confidencePercentage = Math.round(confidence * 100);
 
   // Get confidence color based on percentage
@@ -48,10 +59,36 @@ export default function AIDecisionCard({
               <p className="text-blue-100 text-sm">Your perfect choice, decided autonomously</p>
             </div>
           </div>
-          <div className={`px-3 py-1 rounded-full border ${getConfidenceColor(confidencePercentage)} bg-white`}>
-            <span className="text-sm font-semibold">
-              {getConfidenceIcon(confidencePercentage)} {confidencePercentage}% confident
-            </span>
+          <div className="relative group">
+            <div className={`px-3 py-1 rounded-full border ${getConfidenceColor(confidencePercentage)} bg-white`}>
+              <span className="text-sm font-semibold">
+                {getConfidenceIcon(confidencePercentage)} {confidencePercentage}% confident
+              </span>
+            </div>
+
+            {/* Confidence breakdown on hover */}
+            {confidenceBreakdown && (
+              <div className="hidden group-hover:block absolute right-0 top-full mt-2 w-72 bg-white text-gray-800 rounded-lg shadow-xl border border-gray-200 p-3 z-10">
+                <p className="text-xs font-semibold text-gray-900 mb-2">How confident am I?</p>
+                <ul className="space-y-2">
+                  {confidenceBreakdown.components.map(component => (
+                    <li key={component.key}>
+                      <div className="flex items-center justify-between text-xs">
+                        <span className="font-medium">{component.label}</span>
+                        <span className="text-gray-500">{Math.round(component.value * 100)}%</span>
+                      </div>
+                      <div className="w-full bg-gray-200 rounded-full h-1.5 my-1">
+                        <div
+                          className="bg-blue-600 h-1.5 rounded-full"
+                          style={{ width: `${component.value * 100}%` }}
+                        ></div>
+                      </div>
+                      <p className="text-xs text-gray-500">{component.detail}</p>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
           </div>
         </div>
       </div>
@@ -112,15 +149,35 @@ export default function AIDecisionCard({
           <p className="text-blue-800 text-sm leading-relaxed">{reasoning}</p>
         </div>
 
+        {/* Budget Warning */}
+        {budgetWarning && (
+          <div className="bg-orange-50 border border-orange-200 rounded-lg p-4 mb-4 flex items-start">
+            <span className="mr-2">💸</span>
+            <p className="text-orange-800 text-sm leading-relaxed">{budgetWarning}</p>
+          </div>
+        )}
+
         {/* Top Decision Factors */}
         <div className="mb-6">
-          <h4 className="font-semibold text-gray-900 mb-3">Key Decision Factors:</h4>
+          <div className="flex items-center justify-between mb-3">
+            <h4 className="font-semibold text-gray-900">Key Decision Factors:</h4>
+            {scoringProfile && (
+              <span
+                className="px-2 py-1 bg-purple-50 text-purple-700 border border-purple-200 rounded-full text-xs font-medium"
+                title={scoringProfile.customized ? 'Profile weights were adjusted for this request' : undefined}
+              >
+                {scoringProfile.name} profile{scoringProfile.customized ? ' (custom weights)' : ''}
+              </span>
+            )}
+          </div>
           <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
             {decision.factors?.slice(0, 3).map((factor, index) => (
               <div key={index} className="bg-gray-50 rounded-lg p-3">
                 <div className="flex items-center justify-between mb-1">
                   <span className="text-sm font-medium text-gray-700">{factor.name}</span>
-                  <span className="text-xs text-gray-500">{Math.round(factor.score * 100)}%</span>
+                  <span className="text-xs text-gray-500" title={`Weight ${Math.round(factor.weight * 100)}%`}>
+                    {Math.round(factor.score * 100)}%
+                  </span>
                 </div>
                 <div className="w-full bg-gray-200 rounded-full h-2 mb-2">
                   <div
@@ -134,6 +191,83 @@ export default function AIDecisionCard({
           </div>
         </div>
 
+        {/* Different Directions */}
+        {alternativeDetails && alternativeDetails.length > 0 && (
+          <div className="mb-6">
+            <h4 className="font-semibold text-gray-900 mb-3">Or try something different:</h4>
+            <ul className="space-y-2">
+              {alternativeDetails.map(alternative => (
+                <li key={alternative.business.id} className="text-sm">
+                  <span className="font-medium text-gray-800">{alternative.business.name}</span>
+                  <span className="text-gray-600"> — {alternative.whyInstead}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {/* Explanation Trace */}
+        {explanation && (
+          <div className="mb-6 border border-gray-200 rounded-lg">
+            <button
+              onClick={() => setShowExplanation(!showExplanation)}
+              aria-expanded={showExplanation}
+              className="w-full flex items-center justify-between px-4 py-3 text-sm font-semibold text-gray-900 hover:bg-gray-50"
+            >
+              <span>🔍 How this decision was scored</span>
+              <span className="text-gray-500">{showExplanation ? '▲' : '▼'}</span>
+            </button>
+
+            {showExplanation && (
+              <div className="px-4 pb-4">
+                <table className="w-full text-xs">
+                  <thead>
+                    <tr className="text-left text-gray-500 border-b border-gray-200">
+                      <th className="py-2 font-medium">Factor</th>
+                      <th className="py-2 font-medium">Input</th>
+                      <th className="py-2 font-medium text-right">Score</th>
+                      <th className="py-2 font-medium text-right">Weight</th>
+                      <th className="py-2 font-medium text-right">Points</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {explanation.factors.map(factor => (
+                      <tr key={factor.name} className="border-b border-gray-100 text-gray-700">
+                        <td className="py-2">{factor.name}</td>
+                        <td className="py-2 text-gray-500">{factor.rawInput ?? '—'}</td>
+                        <td className="py-2 text-right">{Math.round(factor.score * 100)}%</td>
+                        <td className="py-2 text-right">{Math.round(factor.weight * 100)}%</td>
+                        <td className={`py-2 text-right font-medium ${factor.contribution < 0 ? 'text-red-600' : ''}`}>
+                          {factor.contribution > 0 ? '+' : ''}{Math.round(factor.contribution * 100)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                <p className="text-xs text-gray-600 mt-2">
+                  Total: {Math.round(explanation.score * 100)} points
+                  {explanation.runnerUp && (
+                    <> vs {Math.round(explanation.runnerUp.score * 100)} for {explanation.runnerUp.businessName}</>
+                  )}
+                </p>
+
+                {explanation.counterfactuals.length > 0 && (
+                  <div className="mt-3">
+                    <p className="text-xs font-semibold text-gray-900 mb-1">What would change my mind:</p>
+                    <ul className="space-y-1">
+                      {explanation.counterfactuals.map(counterfactual => (
+                        <li key={`${counterfactual.businessId}-${counterfactual.change}`} className="text-xs text-gray-600">
+                          {counterfactual.description}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Action Buttons */}
         <div className="flex flex-col sm:flex-row gap-3">
           <button
@@ -1,8 +1,17 @@
 'use client';
 
-import { useState } from 'react';
-import type { Business } from '@/lib/types';
+import { useEffect, useRef, useState } from 'react';
+import type {
+  Business,
+  BookingHoldInfo,
+  BookingHoldRequest,
+  BookingHoldResponse,
+  BookingRequest,
+  BookingResponse,
+  BookingStatus
+} from '@/lib/types';
 import { useAuth } from '@/hooks/useAuth';
+import { formatPriceTierRange, getBusinessCurrencyContext } from '@/lib/currency';
 
 interface BookingModalProps {
   business: Business | null;
@@ -13,6 +22,14 @@ interface BookingModalProps {
 export default function BookingModal({ business, isOpen, onClose }: BookingModalProps) {
   const { user } = useAuth();
   const [step, setStep] = useState<'form' | 'success'>('form');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [confirmationId, setConfirmationId] = useState<string | null>(null);
+  const [bookingStatus, setBookingStatus] = useState<BookingStatus>('idle');
+  const [hold, setHold] = useState<BookingHoldInfo | null>(null);
+  const [holdSecondsLeft, setHoldSecondsLeft] = useState(0);
+  // One key per reservation attempt so double-clicks and retries never book twice
+  const idempotencyKey = useRef<string>(crypto.randomUUID());
   const [formData, setFormData] = useState({
     name: '',
     email: user?.email || '',
@@ -23,22 +40,161 @@ export default function BookingModal({ business, isOpen, onClose }: BookingModal
     specialRequests: ''
   });
 
+  // Count down the held slot; the server releases it on expiry as well
+  useEffect(() => {
+    if (!hold) return;
+
+    const tick = () => {
+      const secondsLeft = Math.max(Math.ceil((new Date(hold.expiresAt).getTime() - Date.now()) / 1000), 0);
+      setHoldSecondsLeft(secondsLeft);
+
+      if (secondsLeft === 0) {
+        setHold(null);
+        setBookingStatus('idle');
+        setError('Your hold on this time expired. Please hold a time again.');
+      }
+    };
+
+    tick();
+    const interval = setInterval(tick, 1000);
+    return () => clearInterval(interval);
+  }, [hold]);
+
   if (!isOpen || !business) return null;
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const currencyContext = getBusinessCurrencyContext(business);
+  const priceRange = formatPriceTierRange(business.price, currencyContext.currency, currencyContext.locale);
+
+  const releaseHold = () => {
+    if (!hold) return;
+
+    fetch(`/api/booking/hold?hold_token=${encodeURIComponent(hold.holdToken)}`, { method: 'DELETE' })
+      .catch(err => console.error('Failed to release hold:', err));
+    setHold(null);
+    setBookingStatus('idle');
+  };
+
+  const resetForm = () => {
+    setStep('form');
+    setError(null);
+    setConfirmationId(null);
+    setHold(null);
+    setBookingStatus('idle');
+    idempotencyKey.current = crypto.randomUUID();
+  };
+
+  // Changing the slot gives up the current hold
+  const updateSlot = (changes: Partial<Pick<typeof formData, 'date' | 'time' | 'guests'>>) => {
+    releaseHold();
+    setFormData({ ...formData, ...changes });
+  };
+
+  const handleHold = async () => {
+    setIsSubmitting(true);
+    setError(null);
+    setBookingStatus('checking_availability');
+
+    const holdRequest: BookingHoldRequest = {
+      business,
+      partySize: Number(formData.guests),
+      preferredTime: formData.time,
+      preferredDate: formData.date
+    };
+
+    try {
+      const response = await fetch('/api/booking/hold', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(holdRequest)
+      });
+      const result: BookingHoldResponse = await response.json();
+
+      if (!result.success || !result.hold) {
+        const alternatives = result.alternativeTimes?.length
+          ? ` Available times: ${result.alternativeTimes.join(', ')}`
+          : '';
+        setError(`${result.error?.message || 'Unable to hold this time.'}${alternatives}`);
+        setBookingStatus('failed');
+        return;
+      }
+
+      setHold(result.hold);
+      setBookingStatus('held');
+    } catch (err) {
+      console.error('Hold request failed:', err);
+      setError('Network error. Please check your connection and try again.');
+      setBookingStatus('failed');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    // Mock booking - just show success
-    setStep('success');
-    
-    // Reset after 3 seconds
-    setTimeout(() => {
-      setStep('form');
-      onClose();
-    }, 3000);
+    if (isSubmitting) return;
+
+    // First submit holds the slot, the second confirms it with contact details
+    if (!hold) {
+      await handleHold();
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+    setBookingStatus('booking');
+
+    const bookingRequest: BookingRequest = {
+      business,
+      partySize: Number(formData.guests),
+      preferredTime: formData.time,
+      preferredDate: formData.date,
+      userContact: {
+        name: formData.name,
+        phone: formData.phone,
+        email: formData.email
+      },
+      specialRequests: formData.specialRequests || undefined,
+      holdToken: hold.holdToken
+    };
+
+    try {
+      const response = await fetch('/api/booking', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Idempotency-Key': idempotencyKey.current
+        },
+        body: JSON.stringify(bookingRequest)
+      });
+      const result: BookingResponse = await response.json();
+
+      if (!result.success) {
+        setError(result.error?.message || 'Booking failed. Please try again.');
+        setBookingStatus('failed');
+        // The hold is gone once the server rejects it; a retry needs a fresh one
+        if (result.error?.code !== 'HOLD_MISMATCH') {
+          setHold(null);
+          idempotencyKey.current = crypto.randomUUID();
+        }
+        return;
+      }
+
+      setConfirmationId(result.confirmationId || null);
+      setHold(null);
+      setBookingStatus('confirmed');
+      setStep('success');
+    } catch (err) {
+      console.error('Booking request failed:', err);
+      setError('Network error. Please check your connection and try again.');
+      setBookingStatus('held');
+    } finally {
+      setIsSubmitting(false);
+    }
   };
 
   const handleClose = () => {
-    setStep('form');
+    releaseHold();
+    resetForm();
     onClose();
   };
 
@@ -82,6 +238,9 @@ export default function BookingModal({ business, isOpen, onClose }: BookingModal
                     {business.price && (
                       <span className="text-sm font-black text-teal-600">{business.price}</span>
                     )}
+                    {priceRange && (
+                      <span className="text-xs font-bold text-gray-600">{priceRange}</span>
+                    )}
                   </div>
                   <p className="text-sm font-bold text-gray-700 mb-2">
                     {business.categories?.map(c => c.title).join(', ')}
@@ -149,7 +308,7 @@ export default function BookingModal({ business, isOpen, onClose }: BookingModal
                   <select
                     required
                     value={formData.guests}
-                    onChange={(e) => setFormData({ ...formData, guests: e.target.value })}
+                    onChange={(e) => updateSlot({ guests: e.target.value })}
                     className="w-full px-4 py-3 border-4 border-black font-bold focus:outline-none focus:ring-4 focus:ring-yellow-400"
                   >
                     {[1, 2, 3, 4, 5, 6, 7, 8].map(num => (
@@ -167,7 +326,7 @@ export default function BookingModal({ business, isOpen, onClose }: BookingModal
                     type="date"
                     required
                     value={formData.date}
-                    onChange={(e) => setFormData({ ...formData, date: e.target.value })}
+                    onChange={(e) => updateSlot({ date: e.target.value })}
                     min={new Date().toISOString().split('T')[0]}
                     className="w-full px-4 py-3 border-4 border-black font-bold focus:outline-none focus:ring-4 focus:ring-yellow-400"
                   />
@@ -181,7 +340,7 @@ export default function BookingModal({ business, isOpen, onClose }: BookingModal
                   <select
                     required
                     value={formData.time}
-                    onChange={(e) => setFormData({ ...formData, time: e.target.value })}
+                    onChange={(e) => updateSlot({ time: e.target.value })}
                     className="w-full px-4 py-3 border-4 border-black font-bold focus:outline-none focus:ring-4 focus:ring-yellow-400"
                   >
                     <option value="">Select time</option>
@@ -217,6 +376,19 @@ export default function BookingModal({ business, isOpen, onClose }: BookingModal
                 />
               </div>
 
+              {bookingStatus === 'held' && hold && (
+                <div className="p-4 bg-yellow-100 border-4 border-black font-bold text-sm text-black">
+                  ⏳ {hold.time} on {hold.date} is held for you for {Math.floor(holdSecondsLeft / 60)}:
+                  {(holdSecondsLeft % 60).toString().padStart(2, '0')}. Confirm to complete your reservation.
+                </div>
+              )}
+
+              {error && (
+                <div className="p-4 bg-red-100 border-4 border-black font-bold text-sm text-black">
+                  ⚠️ {error}
+                </div>
+              )}
+
               {/* Buttons */}
               <div className="flex space-x-3 pt-4">
                 <button
@@ -228,9 +400,12 @@ export default function BookingModal({ business, isOpen, onClose }: BookingModal
                 </button>
                 <button
                   type="submit"
-                  className="flex-1 px-6 py-3 bg-teal-400 text-black font-black border-4 border-black shadow-[4px_4px_0px_0px_rgba(0,0,0,1)] hover:shadow-[6px_6px_0px_0px_rgba(0,0,0,1)] hover:translate-x-[-2px] hover:translate-y-[-2px] active:shadow-none active:translate-x-1 active:translate-y-1 transition-all"
+                  disabled={isSubmitting}
+                  className="flex-1 px-6 py-3 bg-teal-400 text-black font-black border-4 border-black shadow-[4px_4px_0px_0px_rgba(0,0,0,1)] hover:shadow-[6px_6px_0px_0px_rgba(0,0,0,1)] hover:translate-x-[-2px] hover:translate-y-[-2px] active:shadow-none active:translate-x-1 active:translate-y-1 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
                 >
-                  Confirm Reservation
+                  {isSubmitting
+                    ? (hold ? 'Booking...' : 'Holding...')
+                    : (hold ? 'Confirm Reservation' : 'Hold This Time')}
                 </button>
               </div>
             </form>
@@ -248,15 +423,34 @@ export default function BookingModal({ business, isOpen, onClose }: BookingModal
             <div className="bg-yellow-50 border-4 border-black p-6 mb-6 text-left">
               <h3 className="text-lg font-black text-black mb-3">Reservation Details</h3>
               <div className="space-y-2 text-sm font-bold text-gray-700">
+                {confirmationId && <p>🎫 Confirmation: {confirmationId}</p>}
                 <p>📅 Date: {formData.date}</p>
                 <p>🕐 Time: {formData.time}</p>
                 <p>👥 Guests: {formData.guests}</p>
                 <p>📧 Confirmation sent to: {formData.email}</p>
               </div>
             </div>
-            <p className="text-sm font-bold text-gray-600">
+            <p className="text-sm font-bold text-gray-600 mb-6">
               A confirmation email has been sent to your inbox.
             </p>
+            <div className="flex space-x-3">
+              {confirmationId && (
+                <a
+                  href={`/api/booking/${encodeURIComponent(confirmationId)}/calendar`}
+                  download
+                  className="flex-1 px-6 py-3 bg-yellow-400 text-black font-black border-4 border-black shadow-[4px_4px_0px_0px_rgba(0,0,0,1)] hover:shadow-[6px_6px_0px_0px_rgba(0,0,0,1)] hover:translate-x-[-2px] hover:translate-y-[-2px] active:shadow-none active:translate-x-1 active:translate-y-1 transition-all"
+                >
+                  📅 Add to Calendar
+                </a>
+              )}
+              <button
+                type="button"
+                onClick={handleClose}
+                className="flex-1 px-6 py-3 bg-teal-400 text-black font-black border-4 border-black shadow-[4px_4px_0px_0px_rgba(0,0,0,1)] hover:shadow-[6px_6px_0px_0px_rgba(0,0,0,1)] hover:translate-x-[-2px] hover:translate-y-[-2px] active:shadow-none active:translate-x-1 active:translate-y-1 transition-all"
+              >
+                Done
+              </button>
+            </div>
           </div>
         )}
       </div>
@@ -2,33 +2,59 @@
 
 import { useState } from 'react';
 import { useAuth } from '@/hooks/useAuth';
+import { useConversationHistory } from '@/hooks/useConversationHistory';
 import { LogoutButton } from '@/components/auth/LogoutButton';
+import { CONVERSATION_CONFIG } from '@/lib/constants';
 
 interface ConversationSidebarProps {
   isOpen: boolean;
   onClose: () => void;
-  onNewChat: () => void;
 }
 
-export default function ConversationSidebar({ isOpen, onClose, onNewChat }: ConversationSidebarProps) {
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function formatConversationDate(isoDate: string): string {
+  const date = new Date(isoDate);
+  const startOfDay = (value: Date) => new Date(value.getFullYear(), value.getMonth(), value.getDate()).getTime();
+  const daysAgo = Math.round((startOfDay(new Date()) - startOfDay(date)) / DAY_MS);
+
+  if (daysAgo <= 0) return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  if (daysAgo === 1) return 'Yesterday';
+  if (daysAgo < 7) return `${daysAgo} days ago`;
+  return date.toLocaleDateString([], { month: 'short', day: 'numeric' });
+}
+
+export default function ConversationSidebar({ isOpen, onClose }: ConversationSidebarProps) {
   const { user } = useAuth();
   const [showSettings, setShowSettings] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingTitle, setEditingTitle] = useState('');
 
-  // Dynamic conversation history - includes current session
-  const currentTime = new Date();
-  const conversations = [
-    { 
-      id: 1, 
-      title: 'Current Session', 
-      date: currentTime.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }), 
-      preview: 'Active conversation...',
-      active: true 
-    },
-    { id: 2, title: 'Italian restaurants in NYC', date: 'Today', preview: 'Found 3 great options...' },
-    { id: 3, title: 'Hotels in Miami Beach', date: 'Yesterday', preview: 'Luxury beachfront hotels...' },
-    { id: 4, title: 'Sushi under $30', date: '2 days ago', preview: 'Best affordable sushi...' },
-    { id: 5, title: 'Spa recommendations', date: 'Last week', preview: 'Relaxing spa experiences...' },
-  ];
+  // Called before the isOpen check so autosave keeps running while the sidebar is closed
+  const {
+    conversations,
+    activeConversationId,
+    isLoading,
+    error,
+    newConversation,
+    switchConversation,
+    renameConversation,
+    deleteConversation
+  } = useConversationHistory(user?.uid);
+
+  const startRename = (conversationId: string, title: string) => {
+    setEditingId(conversationId);
+    setEditingTitle(title);
+  };
+
+  const finishRename = async () => {
+    const conversationId = editingId;
+    const title = editingTitle.trim();
+    setEditingId(null);
+    if (conversationId && title) {
+      await renameConversation(conversationId, title);
+    }
+  };
 
   if (!isOpen) return null;
 
@@ -55,8 +81,8 @@ export default function ConversationSidebar({ isOpen, onClose, onNewChat }: Conv
           </div>
           
           <button
-            onClick={() => {
-              onNewChat();
+            onClick={async () => {
+              await newConversation();
               onClose();
             }}
             className="w-full px-4 py-3 bg-teal-400 text-black font-black border-4 border-black shadow-[4px_4px_0px_0px_rgba(0,0,0,1)] hover:shadow-[6px_6px_0px_0px_rgba(0,0,0,1)] hover:translate-x-[-2px] hover:translate-y-[-2px] active:shadow-none active:translate-x-1 active:translate-y-1 transition-all flex items-center justify-center gap-2"
@@ -71,25 +97,89 @@ export default function ConversationSidebar({ isOpen, onClose, onNewChat }: Conv
         {/* Conversations List */}
         <div className="flex-1 overflow-y-auto p-4 space-y-2">
           <h3 className="text-sm font-black text-gray-600 mb-3">RECENT CONVERSATIONS</h3>
-          {conversations.map((conv) => (
-            <button
-              key={conv.id}
-              className={`w-full text-left p-3 border-2 border-black hover:bg-gray-50 hover:shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] transition-all ${
-                conv.active ? 'bg-teal-50 border-teal-600' : 'bg-white'
-              }`}
-            >
-              <div className="flex items-start justify-between mb-1">
-                <div className="flex items-center space-x-2 flex-1">
-                  <h4 className="text-sm font-bold text-black truncate">{conv.title}</h4>
-                  {conv.active && (
-                    <span className="w-2 h-2 bg-green-500 rounded-full animate-pulse"></span>
-                  )}
-                </div>
-                <span className="text-xs font-bold text-gray-500 ml-2">{conv.date}</span>
+          {error && (
+            <p className="text-xs font-bold text-red-600 p-2 border-2 border-red-600 bg-red-50">{error}</p>
+          )}
+          {conversations.length === 0 && (
+            <p className="text-xs font-bold text-gray-500">Your chats will show up here once you start one.</p>
+          )}
+          {conversations.map((conv) => {
+            const active = conv.id === activeConversationId;
+
+            return (
+              <div
+                key={conv.id}
+                className={`group relative border-2 border-black hover:bg-gray-50 hover:shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] transition-all ${
+                  active ? 'bg-teal-50 border-teal-600' : 'bg-white'
+                }`}
+              >
+                {editingId === conv.id ? (
+                  <form
+                    className="p-3"
+                    onSubmit={(event) => {
+                      event.preventDefault();
+                      finishRename();
+                    }}
+                  >
+                    <input
+                      autoFocus
+                      value={editingTitle}
+                      maxLength={CONVERSATION_CONFIG.MAX_TITLE_LENGTH}
+                      onChange={(event) => setEditingTitle(event.target.value)}
+                      onBlur={finishRename}
+                      onKeyDown={(event) => {
+                        if (event.key === 'Escape') setEditingId(null);
+                      }}
+                      className="w-full px-2 py-1 border-2 border-black text-sm font-bold"
+                    />
+                  </form>
+                ) : (
+                  <button
+                    onClick={async () => {
+                      await switchConversation(conv.id);
+                      onClose();
+                    }}
+                    disabled={isLoading}
+                    className="w-full text-left p-3 pr-16 disabled:opacity-50"
+                  >
+                    <div className="flex items-start justify-between mb-1">
+                      <div className="flex items-center space-x-2 flex-1 min-w-0">
+                        <h4 className="text-sm font-bold text-black truncate">{conv.title}</h4>
+                        {active && (
+                          <span className="w-2 h-2 bg-green-500 rounded-full animate-pulse flex-shrink-0"></span>
+                        )}
+                      </div>
+                      <span className="text-xs font-bold text-gray-500 ml-2 whitespace-nowrap">{formatConversationDate(conv.updatedAt)}</span>
+                    </div>
+                    <p className="text-xs text-gray-600 truncate">{conv.preview}</p>
+                  </button>
+                )}
+
+                {editingId !== conv.id && (
+                  <div className="absolute right-2 bottom-2 hidden group-hover:flex space-x-1">
+                    <button
+                      onClick={() => startRename(conv.id, conv.title)}
+                      title="Rename"
+                      className="w-6 h-6 bg-white text-black text-xs font-black border-2 border-black flex items-center justify-center hover:bg-yellow-400"
+                    >
+                      ✎
+                    </button>
+                    <button
+                      onClick={() => {
+                        if (window.confirm(`Delete "${conv.title}"?`)) {
+                          deleteConversation(conv.id);
+                        }
+                      }}
+                      title="Delete"
+                      className="w-6 h-6 bg-white text-black text-xs font-black border-2 border-black flex items-center justify-center hover:bg-red-400"
+                    >
+                      ✕
+                    </button>
+                  </div>
+                )}
               </div>
-              <p className="text-xs text-gray-600 truncate">{conv.preview}</p>
-            </button>
-          ))}
+            );
+          })}
         </div>
 
         {/* User Profile & Settings */}
@@ -2,6 +2,7 @@
 
 import React, { useState } from 'react';
 import type { Business } from '@/lib/types';
+import { formatPriceTierRange, getBusinessCurrencyContext } from '@/lib/currency';
 
 // =============================================================================
 // RESTAURANT CARD COMPONENT
@@ -15,6 +16,7 @@ interface RestaurantCardProps {
   isSelected?: boolean;
   className?: string;
   variant?: 'default' | 'compact' | 'detailed';
+  currency?: string; // Defaults to the currency of the restaurant's region
 }
 
 export default function RestaurantCard({
@@ -24,7 +26,8 @@ export default function RestaurantCard({
   showBookingButton = true,
   isSelected = false,
   className = '',
-  variant = 'default'
+  variant = 'default',
+  currency
 }: RestaurantCardProps) {
   const [imageError, setImageError] = useState(false);
   const [showAllPhotos, setShowAllPhotos] = useState(false);
@@ -41,6 +44,10 @@ export default function RestaurantCard({
   // Ensure categories exist
   const categories = restaurant.categories || [];
 
+  // Spend estimate for the price tier in the local (or requested) currency
+  const currencyContext = getBusinessCurrencyContext(restaurant);
+  const priceRange = formatPriceTierRange(restaurant.price, currency || currencyContext.currency, currencyContext.locale);
+
   const handleCardClick = () => {
     if (onSelect) {
       onSelect(restaurant);
@@ -147,7 +154,7 @@ export default function RestaurantCard({
                 {restaurant.rating} ({restaurant.review_count})
               </span>
             </div>
-            <span className={`text-sm font-medium ${getPriceColor(restaurant.price)}`}>
+            <span className={`text-sm font-medium ${getPriceColor(restaurant.price)}`} title={priceRange || undefined}>
               {restaurant.price}
             </span>
             {restaurant.distance && (
@@ -242,6 +249,9 @@ export default function RestaurantCard({
               <span className={`text-lg font-bold ${getPriceColor(restaurant.price)}`}>
                 {restaurant.price}
               </span>
+              {priceRange && (
+                <span className="text-sm text-gray-500">{priceRange}</span>
+              )}
             </div>
 
             <p className="text-gray-600 mb-3">
@@ -433,7 +443,7 @@ export default function RestaurantCard({
                   {restaurant.rating} ({restaurant.review_count})
                 </span>
               </div>
-              <span className={`text-sm font-medium ${getPriceColor(restaurant.price)}`}>
+              <span className={`text-sm font-medium ${getPriceColor(restaurant.price)}`} title={priceRange || undefined}>
                 {restaurant.price}
               </span>
             </div>
@@ -11,8 +11,11 @@ import type {
   Business,
   TravelContext,
   InteractionHistoryEntry,
-  TravelItinerary
+  TravelItinerary,
+  PlannedActivity
 } from '@/lib/types';
+import { applyItineraryEdit, type ItineraryEdit } from '@/lib/itinerary-editor';
+import type { SavedConversationState } from '@/lib/conversation-store';
 
 // =============================================================================
 // CONTEXT TYPES
@@ -25,10 +28,17 @@ interface ConversationActions {
   updateContext: (updates: Partial<ConversationContextType>) => void;
   setStage: (stage: ConversationStage) => void;
   clearConversation: () => void;
+  loadConversation: (saved: SavedConversationState) => void;
   updatePreferences: (preferences: Partial<UserPreferences>) => void;
   updateTravelContext: (travelContext: Partial<TravelContext>) => void;
   addInteractionHistory: (entry: Omit<InteractionHistoryEntry, 'timestamp'>) => void;
   updateItinerary: (itinerary: Partial<TravelItinerary>) => void;
+  addActivity: (dayIndex: number, activity: PlannedActivity) => void;
+  removeActivity: (dayIndex: number, activityIndex: number) => void;
+  moveActivity: (dayIndex: number, activityIndex: number, toDayIndex: number, time?: string) => void;
+  swapMeal: (dayIndex: number, activityIndex: number, business: Business) => void;
+  setDayAccommodation: (dayIndex: number, accommodation: Business | null) => void;
+  reorderDays: (order: number[]) => void;
 }
 
 interface ConversationContextValue extends ConversationState {
@@ -66,10 +76,17 @@ type ConversationAction =
   | { type: 'UPDATE_CONTEXT'; payload: Partial<ConversationContextType> }
   | { type: 'SET_STAGE'; payload: ConversationStage }
   | { type: 'CLEAR_CONVERSATION' }
+  | { type: 'LOAD_CONVERSATION'; payload: SavedConversationState }
   | { type: 'UPDATE_PREFERENCES'; payload: Partial<UserPreferences> }
   | { type: 'UPDATE_TRAVEL_CONTEXT'; payload: Partial<TravelContext> }
   | { type: 'ADD_INTERACTION_HISTORY'; payload: Omit<InteractionHistoryEntry, 'timestamp'> }
-  | { type: 'UPDATE_ITINERARY'; payload: Partial<TravelItinerary> };
+  | { type: 'UPDATE_ITINERARY'; payload: Partial<TravelItinerary> }
+  | { type: 'ADD_ITINERARY_ACTIVITY'; payload: { dayIndex: number; activity: PlannedActivity } }
+  | { type: 'REMOVE_ITINERARY_ACTIVITY'; payload: { dayIndex: number; activityIndex: number } }
+  | { type: 'MOVE_ITINERARY_ACTIVITY'; payload: { dayIndex: number; activityIndex: number; toDayIndex: number; time?: string } }
+  | { type: 'SWAP_ITINERARY_MEAL'; payload: { dayIndex: number; activityIndex: number; business: Business } }
+  | { type: 'SET_DAY_ACCOMMODATION'; payload: { dayIndex: number; accommodation: Business | null } }
+  | { type: 'REORDER_ITINERARY_DAYS'; payload: { order: number[] } };
 
 function conversationReducer(
   state: ConversationState,
@@ -169,6 +186,16 @@ function conversationReducer(
         }
       };
 
+    case 'LOAD_CONVERSATION':
+      return {
+        ...initialState,
+        messages: action.payload.messages.map(message => ({
+          ...message,
+          timestamp: new Date(message.timestamp)
+        })),
+        context: reviveContext(action.payload.context)
+      };
+
     case 'UPDATE_PREFERENCES':
       return {
         ...state,
@@ -221,11 +248,75 @@ function conversationReducer(
         }
       };
 
+    case 'ADD_ITINERARY_ACTIVITY':
+      return editItinerary(state, { type: 'add_activity', ...action.payload });
+
+    case 'REMOVE_ITINERARY_ACTIVITY':
+      return editItinerary(state, { type: 'remove_activity', ...action.payload });
+
+    case 'MOVE_ITINERARY_ACTIVITY':
+      return editItinerary(state, { type: 'move_activity', ...action.payload });
+
+    case 'SWAP_ITINERARY_MEAL':
+      return editItinerary(state, { type: 'swap_meal', ...action.payload });
+
+    case 'SET_DAY_ACCOMMODATION':
+      return editItinerary(state, { type: 'set_accommodation', ...action.payload });
+
+    case 'REORDER_ITINERARY_DAYS':
+      return editItinerary(state, { type: 'reorder_days', ...action.payload });
+
     default:
       return state;
   }
 }
 
+// Saved conversations come back as JSON, so dates arrive as strings
+function reviveContext(context: ConversationContextType): ConversationContextType {
+  const travelContext = context.travelContext;
+
+  return {
+    ...initialContext,
+    ...context,
+    interactionHistory: (context.interactionHistory || []).map(entry => ({
+      ...entry,
+      timestamp: new Date(entry.timestamp)
+    })),
+    travelContext: travelContext && {
+      ...travelContext,
+      travelDates: travelContext.travelDates && {
+        startDate: new Date(travelContext.travelDates.startDate),
+        endDate: new Date(travelContext.travelDates.endDate)
+      }
+    }
+  };
+}
+
+// Apply an edit to the current itinerary; a refused edit leaves it untouched and surfaces the reason
+function editItinerary(state: ConversationState, edit: ItineraryEdit): ConversationState {
+  const itinerary = state.context.travelContext?.currentItinerary;
+  if (!itinerary) {
+    return { ...state, error: 'There is no itinerary to edit yet' };
+  }
+
+  const result = applyItineraryEdit(itinerary, edit);
+  if (!result.success) {
+    return { ...state, error: result.error.message };
+  }
+
+  return {
+    ...state,
+    error: null,
+    context: {
+      ...state.context,
+      travelContext: {
+        ...state.context.travelContext,
+        currentItinerary: result.data
+      }
+    }
+  };
+}
+
 // =============================================================================
 // HELPER FUNCTIONS
 // =============================================================================
@@ -296,6 +387,36 @@ function detectFollowUpIntent(message: string, previousMessages: ConversationMes
   return followUpKeywords.some(keyword => content.includes(keyword));
 }
 
+const BUDGET_CURRENCIES: Record<string, string> = {
+  '$': 'USD', '€': 'EUR', '£': 'GBP',
+  usd: 'USD', eur: 'EUR', gbp: 'GBP',
+  dollars: 'USD', euros: 'EUR', pounds: 'GBP'
+};
+
+// A bare number is only a budget after "budget of" or "under"; otherwise it needs a currency next to it,
+// so "budget trip for 2" sets the travel style but not a $2 budget
+const BUDGET_PATTERNS: { pattern: RegExp; amountGroup: number }[] = [
+  { pattern: /budget\D{0,15}?([$€£]|\busd|\beur|\bgbp)\s?(\d[\d,]*)/, amountGroup: 2 },
+  { pattern: /budget\D{0,15}?(\d[\d,]*)\s?(usd|eur|gbp|dollars|euros|pounds)\b/, amountGroup: 1 },
+  { pattern: /(?:budget of|\bunder)\s?([$€£]|usd|eur|gbp)?\s?(\d[\d,]*)(?:\s?(usd|eur|gbp|dollars|euros|pounds)\b)?/, amountGroup: 2 },
+  { pattern: /([$€£]|\busd|\beur|\bgbp)\s?(\d[\d,]*)\s*(?:budget|total)/, amountGroup: 2 },
+  { pattern: /(\d[\d,]*)\s?(usd|eur|gbp|dollars|euros|pounds)\s*(?:budget|total)/, amountGroup: 1 }
+];
+
+function extractBudget(content: string): TravelContext['budget'] | undefined {
+  for (const { pattern, amountGroup } of BUDGET_PATTERNS) {
+    const match = content.match(pattern);
+    if (!match) continue;
+
+    const currency = match.slice(1).find((group, index) => index + 1 !== amountGroup && group) || '';
+    const max = parseInt(match[amountGroup].replace(/,/g, ''));
+    if (max > 0) {
+      return { min: 0, max, currency: BUDGET_CURRENCIES[currency] || 'USD' };
+    }
+  }
+  return undefined;
+}
+
 function extractTravelContextFromMessage(message: string): Partial<TravelContext> {
   const travelContext: Partial<TravelContext> = {};
   const content = message.toLowerCase();
@@ -319,6 +440,12 @@ function extractTravelContextFromMessage(message: string): Partial<TravelContext
     travelContext.groupSize = parseInt(groupSizeMatch[1]);
   }
 
+  // Extract a trip budget, e.g. "budget of $2,000", "under 1500 eur" or "€1500 total"
+  const budget = extractBudget(content);
+  if (budget) {
+    travelContext.budget = budget;
+  }
+
   // Extract interests
   const interestKeywords = [
     'food', 'dining', 'restaurants', 'cuisine',
@@ -386,6 +513,10 @@ export function ConversationProvider({ children }: ConversationProviderProps) {
       dispatch({ type: 'CLEAR_CONVERSATION' });
     },
 
+    loadConversation: (saved) => {
+      dispatch({ type: 'LOAD_CONVERSATION', payload: saved });
+    },
+
     updatePreferences: (preferences) => {
       dispatch({ type: 'UPDATE_PREFERENCES', payload: preferences });
     },
@@ -400,6 +531,30 @@ export function ConversationProvider({ children }: ConversationProviderProps) {
 
     updateItinerary: (itinerary) => {
       dispatch({ type: 'UPDATE_ITINERARY', payload: itinerary });
+    },
+
+    addActivity: (dayIndex, activity) => {
+      dispatch({ type: 'ADD_ITINERARY_ACTIVITY', payload: { dayIndex, activity } });
+    },
+
+    removeActivity: (dayIndex, activityIndex) => {
+      dispatch({ type: 'REMOVE_ITINERARY_ACTIVITY', payload: { dayIndex, activityIndex } });
+    },
+
+    moveActivity: (dayIndex, activityIndex, toDayIndex, time) => {
+      dispatch({ type: 'MOVE_ITINERARY_ACTIVITY', payload: { dayIndex, activityIndex, toDayIndex, time } });
+    },
+
+    swapMeal: (dayIndex, activityIndex, business) => {
+      dispatch({ type: 'SWAP_ITINERARY_MEAL', payload: { dayIndex, activityIndex, business } });
+    },
+
+    setDayAccommodation: (dayIndex, accommodation) => {
+      dispatch({ type: 'SET_DAY_ACCOMMODATION', payload: { dayIndex, accommodation } });
+    },
+
+    reorderDays: (order) => {
+      dispatch({ type: 'REORDER_ITINERARY_DAYS', payload: { order } });
     }
   };
 
@@ -0,0 +1,258 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useConversation } from '@/contexts/ConversationContext';
+import { authService } from '@/lib/auth-service';
+import { CONVERSATION_CONFIG, STORAGE_KEYS } from '@/lib/constants';
+import type { ConversationSummary, SavedConversation, SavedConversationState } from '@/lib/conversation-store';
+
+// =============================================================================
+// CONVERSATION HISTORY HOOK INTERFACES
+// =============================================================================
+
+interface UseConversationHistoryReturn {
+  conversations: ConversationSummary[];
+  activeConversationId: string | null;
+  isLoading: boolean;
+  error: string | null;
+  newConversation: () => Promise<void>;
+  switchConversation: (conversationId: string) => Promise<void>;
+  renameConversation: (conversationId: string, title: string) => Promise<void>;
+  deleteConversation: (conversationId: string) => Promise<void>;
+  refresh: () => Promise<void>;
+}
+
+class ConversationApiError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'ConversationApiError';
+  }
+}
+
+async function requestJson<T>(url: string, init?: RequestInit): Promise<T> {
+  // The conversations API only serves the signed-in user's own history
+  const idToken = await authService.getIdToken();
+  const response = await fetch(url, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(idToken ? { Authorization: `Bearer ${idToken}` } : {})
+    }
+  });
+  const data = await response.json().catch(() => ({}));
+
+  if (!response.ok || !data.success) {
+    throw new ConversationApiError(
+      data.error?.message || `HTTP ${response.status}: ${response.statusText}`,
+      response.status
+    );
+  }
+
+  return data.data as T;
+}
+
+const errorMessage = (error: unknown, fallback: string): string =>
+  error instanceof Error ? error.message : fallback;
+
+// =============================================================================
+// CONVERSATION HISTORY HOOK
+// =============================================================================
+
+/**
+ * Server-side chat history for the signed-in user: autosaves the live conversation, restores the
+ * last one after a reload and switches between saved ones. Mount it once inside ConversationProvider.
+ */
+export function useConversationHistory(userId?: string): UseConversationHistoryReturn {
+  const { messages, context, actions } = useConversation();
+  const [conversations, setConversations] = useState<ConversationSummary[]>([]);
+  const [activeConversationId, setActiveConversationId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const baseUrl = userId ? `/api/conversations/${encodeURIComponent(userId)}` : null;
+  const storageKey = userId ? `${STORAGE_KEYS.ACTIVE_CONVERSATION}_${userId}` : null;
+
+  // Refs keep the async save path reading the latest state without re-subscribing effects
+  const activeIdRef = useRef<string | null>(null);
+  const savedSnapshotRef = useRef<string | null>(null);
+  const adoptLoadedStateRef = useRef(false);
+  const saveQueueRef = useRef<Promise<void>>(Promise.resolve());
+  const latestStateRef = useRef<SavedConversationState>({ messages, context });
+  const actionsRef = useRef(actions);
+  latestStateRef.current = { messages, context };
+  actionsRef.current = actions;
+
+  const setActive = useCallback((conversationId: string | null) => {
+    activeIdRef.current = conversationId;
+    setActiveConversationId(conversationId);
+
+    if (!storageKey) return;
+    if (conversationId) {
+      localStorage.setItem(storageKey, conversationId);
+    } else {
+      localStorage.removeItem(storageKey);
+    }
+  }, [storageKey]);
+
+  const refresh = useCallback(async () => {
+    if (!baseUrl) return;
+    try {
+      setConversations(await requestJson<ConversationSummary[]>(baseUrl));
+    } catch (err) {
+      setError(errorMessage(err, 'Unable to load conversations'));
+    }
+  }, [baseUrl]);
+
+  // Saves run one at a time so a slow first save can't create the same conversation twice
+  const save = useCallback((): Promise<void> => {
+    const run = async () => {
+      if (!baseUrl) return;
+
+      const state = latestStateRef.current;
+      const snapshot = JSON.stringify(state);
+      if (state.messages.length === 0 || snapshot === savedSnapshotRef.current) return;
+
+      if (activeIdRef.current) {
+        await requestJson(`${baseUrl}/${encodeURIComponent(activeIdRef.current)}`, {
+          method: 'PATCH',
+          body: JSON.stringify({ state })
+        });
+      } else {
+        const created = await requestJson<SavedConversation>(baseUrl, {
+          method: 'POST',
+          body: JSON.stringify({ state })
+        });
+        setActive(created.id);
+      }
+
+      savedSnapshotRef.current = snapshot;
+      await refresh();
+    };
+
+    saveQueueRef.current = saveQueueRef.current
+      .then(run)
+      .catch(err => setError(errorMessage(err, 'Unable to save the conversation')));
+    return saveQueueRef.current;
+  }, [baseUrl, refresh, setActive]);
+
+  const openConversation = useCallback((conversation: SavedConversation) => {
+    setActive(conversation.id);
+    // The load re-renders with the saved state, which must not count as an unsaved change
+    adoptLoadedStateRef.current = true;
+    actionsRef.current.loadConversation(conversation.state);
+  }, [setActive]);
+
+  const resetConversation = useCallback(() => {
+    setActive(null);
+    savedSnapshotRef.current = null;
+    actionsRef.current.clearConversation();
+  }, [setActive]);
+
+  // Restore the conversation that was open before the reload
+  useEffect(() => {
+    if (!baseUrl || !storageKey) return;
+    let cancelled = false;
+
+    const restore = async () => {
+      await refresh();
+
+      const conversationId = localStorage.getItem(storageKey);
+      if (!conversationId || latestStateRef.current.messages.length > 0) return;
+
+      try {
+        const conversation = await requestJson<SavedConversation>(`${baseUrl}/${encodeURIComponent(conversationId)}`);
+        if (!cancelled) openConversation(conversation);
+      } catch (err) {
+        if (err instanceof ConversationApiError && err.status === 404) {
+          localStorage.removeItem(storageKey);
+        } else if (!cancelled) {
+          setError(errorMessage(err, 'Unable to restore the conversation'));
+        }
+      }
+    };
+
+    restore();
+    return () => {
+      cancelled = true;
+    };
+  }, [baseUrl, storageKey, refresh, openConversation]);
+
+  // Autosave once the chat has been quiet for a moment
+  useEffect(() => {
+    if (adoptLoadedStateRef.current) {
+      adoptLoadedStateRef.current = false;
+      savedSnapshotRef.current = JSON.stringify({ messages, context });
+      return;
+    }
+    if (!baseUrl || messages.length === 0) return;
+
+    const timer = setTimeout(() => {
+      save();
+    }, CONVERSATION_CONFIG.AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [messages, context, baseUrl, save]);
+
+  const newConversation = useCallback(async () => {
+    await save();
+    resetConversation();
+  }, [save, resetConversation]);
+
+  const switchConversation = useCallback(async (conversationId: string) => {
+    if (!baseUrl || conversationId === activeIdRef.current) return;
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      // Don't lose the last few seconds of the chat being left
+      await save();
+      const conversation = await requestJson<SavedConversation>(`${baseUrl}/${encodeURIComponent(conversationId)}`);
+      openConversation(conversation);
+    } catch (err) {
+      setError(errorMessage(err, 'Unable to open the conversation'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [baseUrl, save, openConversation]);
+
+  const renameConversation = useCallback(async (conversationId: string, title: string) => {
+    if (!baseUrl) return;
+
+    setError(null);
+    try {
+      await requestJson(`${baseUrl}/${encodeURIComponent(conversationId)}`, {
+        method: 'PATCH',
+        body: JSON.stringify({ title })
+      });
+      await refresh();
+    } catch (err) {
+      setError(errorMessage(err, 'Unable to rename the conversation'));
+    }
+  }, [baseUrl, refresh]);
+
+  const deleteConversation = useCallback(async (conversationId: string) => {
+    if (!baseUrl) return;
+
+    setError(null);
+    try {
+      await requestJson(`${baseUrl}/${encodeURIComponent(conversationId)}`, { method: 'DELETE' });
+      if (conversationId === activeIdRef.current) {
+        resetConversation();
+      }
+      await refresh();
+    } catch (err) {
+      setError(errorMessage(err, 'Unable to delete the conversation'));
+    }
+  }, [baseUrl, refresh, resetConversation]);
+
+  return {
+    conversations,
+    activeConversationId,
+    isLoading,
+    error,
+    newConversation,
+    switchConversation,
+    renameConversation,
+    deleteConversation,
+    refresh
+  };
+}
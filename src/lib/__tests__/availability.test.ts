@@ -0,0 +1,107 @@
+import { LocalInventoryProvider } from '../availability';
+import { BookingOrchestrator, type TravelBookingConfirmation } from '../booking-orchestrator';
+import { InMemoryBookingStore, createBookingRecord } from '../booking-store';
+import type { Business } from '../types';
+
+const hotel = { id: 'harbour-hotel', name: 'Harbour Hotel' } as Business;
+
+describe('LocalInventoryProvider stays', () => {
+  let provider: LocalInventoryProvider;
+
+  beforeEach(() => {
+    provider = new LocalInventoryProvider('accommodation', {
+      defaultCapacity: 1,
+      businesses: { 'harbour-hotel': { overrides: { '2030-01-07': 0 } } }
+    });
+  });
+
+  it('checks every night of the stay', async () => {
+    const result = await provider.checkAvailability(hotel, {
+      date: '2030-01-05', partySize: 2, checkInDate: '2030-01-05', checkOutDate: '2030-01-08'
+    });
+
+    expect(result.success && result.data.available).toBe(false);
+  });
+
+  it('returns promptly for an unparseable check-out date', async () => {
+    const result = await provider.checkAvailability(hotel, {
+      date: '2030-01-05', partySize: 2, checkInDate: '2030-01-05', checkOutDate: 'garbage'
+    });
+
+    expect(result.success && result.data.available).toBe(true);
+  });
+
+  it('does not walk past a blocked night for a loosely formatted check-out', async () => {
+    const result = await provider.checkAvailability(hotel, {
+      date: '2030-01-06', partySize: 2, checkInDate: '2030-01-06', checkOutDate: '2030-1-9'
+    });
+
+    // Only the check-in night is considered, not the ~270 nights a text comparison would walk
+    expect(result.success && result.data.available).toBe(true);
+  });
+
+  it('holds capacity for reserved nights until released', async () => {
+    const stay = { date: '2030-01-01', partySize: 2, checkInDate: '2030-01-01', checkOutDate: '2030-01-03' };
+    await provider.reserve(hotel, stay);
+
+    const overlapping = { ...stay, checkInDate: '2030-01-02', checkOutDate: '2030-01-04', date: '2030-01-02' };
+    const whileBooked = await provider.checkAvailability(hotel, overlapping);
+    expect(whileBooked.success && whileBooked.data.available).toBe(false);
+
+    await provider.release(hotel, stay);
+    const afterRelease = await provider.checkAvailability(hotel, overlapping);
+    expect(afterRelease.success && afterRelease.data.available).toBe(true);
+  });
+});
+
+describe('LocalInventoryProvider attraction entry slots', () => {
+  const museum = { id: 'city-museum', name: 'City Museum' } as Business;
+  let provider: LocalInventoryProvider;
+
+  beforeEach(() => {
+    provider = new LocalInventoryProvider('attraction', { defaultCapacity: 2, slots: ['10:00', '11:00'] });
+  });
+
+  it('sells a half-past visit from the window it starts in', async () => {
+    const result = await provider.checkAvailability(museum, { date: '2030-01-05', partySize: 2, visitTime: '10:30' });
+    expect(result.success && result.data.available).toBe(true);
+
+    await provider.reserve(museum, { date: '2030-01-05', partySize: 2, visitTime: '10:30' });
+    const onTheHour = await provider.checkAvailability(museum, { date: '2030-01-05', partySize: 1, visitTime: '10:00' });
+    expect(onTheHour.success && onTheHour.data.available).toBe(false);
+  });
+
+  it('has no capacity after the last entry window', async () => {
+    const result = await provider.checkAvailability(museum, { date: '2030-01-05', partySize: 1, visitTime: '12:30' });
+    expect(result.success && result.data.available).toBe(false);
+  });
+});
+
+describe('BookingOrchestrator inventory after a restart', () => {
+  beforeAll(() => {
+    process.env.YELP_API_KEY = 'test-key';
+  });
+
+  it('counts bookings already in the ledger against capacity', async () => {
+    const store = new InMemoryBookingStore();
+    const details = { date: '2030-01-01', partySize: 2, checkInDate: '2030-01-01', checkOutDate: '2030-01-03' };
+    const confirmation: TravelBookingConfirmation = {
+      bookingId: 'booking-1',
+      category: 'accommodation',
+      businessName: hotel.name,
+      businessId: hotel.id,
+      status: 'confirmed',
+      details,
+      userContact: { name: 'Ada Lovelace', email: 'ada@example.com', phone: '+1 555 0100' }
+    };
+    await store.save(createBookingRecord(confirmation, { business: hotel }));
+
+    const orchestrator = new BookingOrchestrator({
+      store,
+      availabilityProviders: { accommodation: new LocalInventoryProvider('accommodation', { defaultCapacity: 1 }) }
+    });
+    const result = await orchestrator.checkAvailability(hotel, 'accommodation', details);
+
+    expect(result.success && result.data.available).toBe(false);
+  });
+});
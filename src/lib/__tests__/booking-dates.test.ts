@@ -0,0 +1,53 @@
+import { addBookingDays, listStayNights, parseBookingDate, validateStayDates } from '../booking-dates';
+import { BOOKING_CONFIG } from '../constants';
+
+describe('parseBookingDate', () => {
+  it('accepts strict calendar dates', () => {
+    expect(parseBookingDate('2030-02-28')?.getDate()).toBe(28);
+  });
+
+  it.each(['garbage', '2030-1-5', '2030-02-30', '2030-13-01', '', '2030-01-05T10:00'])('rejects %p', value => {
+    expect(parseBookingDate(value)).toBeNull();
+  });
+
+  it('rejects non-strings', () => {
+    expect(parseBookingDate(20300105)).toBeNull();
+    expect(parseBookingDate(undefined)).toBeNull();
+  });
+});
+
+describe('addBookingDays', () => {
+  it('crosses month and year boundaries', () => {
+    expect(addBookingDays('2030-12-31', 1)).toBe('2031-01-01');
+    expect(addBookingDays('2030-03-01', -1)).toBe('2030-02-28');
+  });
+});
+
+describe('listStayNights', () => {
+  it('lists each night up to check-out', () => {
+    expect(listStayNights('2030-01-30', '2030-02-02')).toEqual(['2030-01-30', '2030-01-31', '2030-02-01']);
+  });
+
+  it('falls back to the check-in night for unparseable or reversed dates', () => {
+    expect(listStayNights('2030-01-05', 'garbage')).toEqual(['2030-01-05']);
+    expect(listStayNights('2030-01-05', '2030-1-9')).toEqual(['2030-01-05']);
+    expect(listStayNights('2030-01-05', '2030-01-01')).toEqual(['2030-01-05']);
+  });
+
+  it('never lists more than the maximum stay', () => {
+    expect(listStayNights('2030-01-01', '2031-01-01')).toHaveLength(BOOKING_CONFIG.MAX_STAY_NIGHTS);
+  });
+});
+
+describe('validateStayDates', () => {
+  it('accepts a normal stay', () => {
+    expect(validateStayDates('2030-01-05', '2030-01-08')).toEqual([]);
+  });
+
+  it('rejects loose formats, reversed stays and overlong stays', () => {
+    expect(validateStayDates('2030-01-05', 'garbage')).toEqual(['Check-out date must be a valid date in YYYY-MM-DD format']);
+    expect(validateStayDates('2030-1-5', '2030-01-08')).toEqual(['Check-in date must be a valid date in YYYY-MM-DD format']);
+    expect(validateStayDates('2030-01-08', '2030-01-08')).toEqual(['Check-out date must be after check-in date']);
+    expect(validateStayDates('2030-01-01', '2030-03-01')).toEqual([`Hotel stays cannot exceed ${BOOKING_CONFIG.MAX_STAY_NIGHTS} nights`]);
+  });
+});
@@ -0,0 +1,189 @@
+import { LocalInventoryProvider } from '../availability';
+import { BookingOrchestrator } from '../booking-orchestrator';
+import { createBookingRecord, InMemoryBookingStore } from '../booking-store';
+import {
+  LocalReservationProvider,
+  LocalReservationServer,
+  setReservationProvider
+} from '../reservation-provider';
+import type { Business, ContactInfo, PlannedActivity, TravelItinerary } from '../types';
+import { makeBusiness } from './helpers/businesses';
+
+const hotel = makeBusiness('harbour-hotel', { transactions: ['hotel_reservation'] });
+const restaurant = makeBusiness('tasca', { transactions: ['restaurant_reservation'] });
+const museum = makeBusiness('city-museum', { categories: [{ alias: 'museums', title: 'Museums' }] });
+const guest: ContactInfo = { name: 'Ada Lovelace', email: 'ada@example.com', phone: '+1 555 0100' };
+
+function activity(business: Business, category: PlannedActivity['category'], time: string): PlannedActivity {
+  return { time, duration: 90, activity: business, category, bookingRequired: true, bookingStatus: 'pending' };
+}
+
+function itinerary(activities: PlannedActivity[]): TravelItinerary {
+  return {
+    id: 'trip-1',
+    name: 'Lisbon weekend',
+    destination: { address: 'Lisbon', city: 'Lisbon', state: '', latitude: 38.71, longitude: -9.14 },
+    days: [{ date: new Date(2030, 0, 7), activities, accommodation: hotel, meals: [] }]
+  };
+}
+
+describe('BookingOrchestrator.bookItinerary', () => {
+  const stay = { date: '2030-01-07', partySize: 2, checkInDate: '2030-01-07', checkOutDate: '2030-01-08' };
+  let store: InMemoryBookingStore;
+  let server: LocalReservationServer;
+  let hotels: LocalInventoryProvider;
+
+  beforeAll(() => {
+    process.env.YELP_API_KEY = 'test-key';
+  });
+
+  beforeEach(() => {
+    store = new InMemoryBookingStore();
+    server = new LocalReservationServer({ coversPerSlot: 2 });
+    setReservationProvider(new LocalReservationProvider(server));
+    hotels = new LocalInventoryProvider('accommodation', { defaultCapacity: 1 });
+  });
+
+  function createOrchestrator(attractionCapacity: number): BookingOrchestrator {
+    return new BookingOrchestrator({
+      store,
+      availabilityProviders: {
+        accommodation: hotels,
+        attraction: new LocalInventoryProvider('attraction', { defaultCapacity: attractionCapacity })
+      }
+    });
+  }
+
+  it('books dining legs through the reservation provider', async () => {
+    const orchestrator = createOrchestrator(10);
+
+    const result = await orchestrator.bookItinerary(
+      itinerary([activity(restaurant, 'dining', '19:00')]), guest, { partySize: 2 }
+    );
+
+    expect(result.success).toBe(true);
+    const dinner = result.legs.find(leg => leg.category === 'dining')!;
+    expect(dinner.status).toBe('confirmed');
+    expect((await store.get(dinner.bookingId!))?.status).toBe('confirmed');
+
+    // The two covers at 19:00 are now taken
+    const openings = await new LocalReservationProvider(server).checkAvailability({
+      businessId: restaurant.id, date: '2030-01-07', time: '19:00', partySize: 2
+    });
+    expect(openings.success && openings.data.available_times).not.toContain('19:00');
+  });
+
+  it('rolls back confirmed legs when a later leg fails', async () => {
+    const orchestrator = createOrchestrator(0);
+
+    const result = await orchestrator.bookItinerary(
+      itinerary([activity(restaurant, 'dining', '19:00'), activity(museum, 'attraction', '21:00')]),
+      guest,
+      { partySize: 2 }
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.compensated).toBe(true);
+    expect(result.legs.map(leg => [leg.category, leg.status])).toEqual([
+      ['accommodation', 'cancelled'],
+      ['dining', 'cancelled'],
+      ['attraction', 'failed']
+    ]);
+
+    const records = await store.list();
+    expect(records.map(record => record.status)).toEqual(['cancelled', 'cancelled']);
+
+    // The room night and the table are both free again
+    const room = await hotels.checkAvailability(hotel, stay);
+    expect(room.success && room.data.available).toBe(true);
+
+    const openings = await new LocalReservationProvider(server).checkAvailability({
+      businessId: restaurant.id, date: '2030-01-07', time: '19:00', partySize: 2
+    });
+    expect(openings.success && openings.data.available_times).toContain('19:00');
+  });
+
+  it('leaves nothing booked when the first leg fails', async () => {
+    await hotels.reserve(hotel, stay);
+    const orchestrator = createOrchestrator(10);
+
+    const result = await orchestrator.bookItinerary(
+      itinerary([activity(restaurant, 'dining', '19:00')]), guest, { partySize: 2 }
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.compensated).toBe(false);
+    expect(result.legs.map(leg => leg.status)).toEqual(['failed', 'not_attempted']);
+    expect(await store.list()).toEqual([]);
+  });
+});
+
+describe('BookingOrchestrator booking changes', () => {
+  const stay = { date: '2030-01-07', partySize: 2, checkInDate: '2030-01-07', checkOutDate: '2030-01-08' };
+  let orchestrator: BookingOrchestrator;
+  let bookingId: string;
+
+  beforeEach(async () => {
+    process.env.YELP_API_KEY = 'test-key';
+    orchestrator = new BookingOrchestrator({
+      store: new InMemoryBookingStore(),
+      availabilityProviders: { accommodation: new LocalInventoryProvider('accommodation', { defaultCapacity: 1 }) }
+    });
+
+    const booked = await orchestrator.coordinateBooking({
+      category: 'accommodation',
+      business: hotel,
+      bookingDetails: stay,
+      userContact: guest
+    });
+    bookingId = booked.bookingId!;
+  });
+
+  it('refuses changes from anyone but the booking contact', async () => {
+    const cancelled = await orchestrator.cancelBooking(bookingId, { contactEmail: 'mallory@example.com' });
+    const modified = await orchestrator.modifyBooking(bookingId, { partySize: 1 }, { contactEmail: 'mallory@example.com' });
+
+    expect(cancelled.error?.code).toBe('FORBIDDEN');
+    expect(modified.error?.code).toBe('FORBIDDEN');
+    expect((await orchestrator.getBooking(bookingId))?.status).toBe('confirmed');
+  });
+
+  it('accepts the contact email regardless of case', async () => {
+    const cancelled = await orchestrator.cancelBooking(bookingId, { contactEmail: ' ADA@example.com ' });
+
+    expect(cancelled.success).toBe(true);
+  });
+});
+
+describe('BookingOrchestrator restaurant changes', () => {
+  it('leaves the guest on their original table when the change cannot be completed', async () => {
+    process.env.YELP_API_KEY = 'test-key';
+    const server = new LocalReservationServer({ coversPerSlot: 2 });
+    setReservationProvider(new LocalReservationProvider(server));
+    const store = new InMemoryBookingStore();
+    const orchestrator = new BookingOrchestrator({ store });
+
+    // A booking whose reservation the restaurant no longer recognises, so the old table can't be given up
+    await store.save(createBookingRecord({
+      bookingId: 'unknown-reservation',
+      category: 'dining',
+      businessName: restaurant.name,
+      businessId: restaurant.id,
+      status: 'confirmed',
+      details: { date: '2030-01-07', partySize: 2, preferredTime: '19:00' },
+      userContact: guest
+    }, { business: restaurant }));
+
+    const result = await orchestrator.modifyBooking('unknown-reservation', { preferredTime: '20:00' }, { contactEmail: guest.email });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.message).toBe(`The reservation at ${restaurant.name} could not be cancelled`);
+    expect((await store.get('unknown-reservation'))?.details.preferredTime).toBe('19:00');
+
+    // The table booked for the new time was handed back
+    const openings = await new LocalReservationProvider(server).checkAvailability({
+      businessId: restaurant.id, date: '2030-01-07', time: '20:00', partySize: 2
+    });
+    expect(openings.success && openings.data.available_times).toContain('20:00');
+  });
+});
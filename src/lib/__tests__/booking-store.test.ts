@@ -0,0 +1,94 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  createBookingRecord,
+  FileBookingStore,
+  InMemoryBookingStore,
+  redactBookingRecord,
+  redactBookingResponse,
+  transitionBookingRecord
+} from '../booking-store';
+import type { TravelBookingConfirmation } from '../booking-orchestrator';
+
+function confirmation(overrides: Partial<TravelBookingConfirmation> = {}): TravelBookingConfirmation {
+  return {
+    bookingId: 'HTL-1',
+    category: 'accommodation',
+    businessName: 'Harbour Hotel',
+    businessId: 'harbour-hotel',
+    status: 'confirmed',
+    details: { date: '2030-06-01', partySize: 2, checkInDate: '2030-06-01', checkOutDate: '2030-06-03' },
+    userContact: { name: 'Ada Lovelace', email: 'ada@example.com', phone: '+44 20 7946 0123' },
+    ...overrides
+  };
+}
+
+describe('booking records', () => {
+  it('starts the status history with the creation reason', () => {
+    const record = createBookingRecord(confirmation(), { reason: 'Booked online' });
+
+    expect(record.status).toBe('confirmed');
+    expect(record.statusHistory).toEqual([
+      expect.objectContaining({ status: 'confirmed', reason: 'Booked online' })
+    ]);
+  });
+
+  it('appends each transition and keeps details in step with the confirmation', () => {
+    const record = createBookingRecord(confirmation());
+    const modified = transitionBookingRecord(record, 'confirmed', 'Guest changed dates', {
+      details: { ...record.details, checkOutDate: '2030-06-04' }
+    });
+    const cancelled = transitionBookingRecord(modified, 'cancelled', 'Cancelled by guest');
+
+    expect(cancelled.status).toBe('cancelled');
+    expect(cancelled.confirmation.status).toBe('cancelled');
+    expect(cancelled.details.checkOutDate).toBe('2030-06-04');
+    expect(cancelled.statusHistory.map(entry => entry.status)).toEqual(['confirmed', 'confirmed', 'cancelled']);
+    // The original record is left untouched
+    expect(record.statusHistory).toHaveLength(1);
+  });
+
+  it('masks contact details in the public view', () => {
+    const redacted = redactBookingRecord(createBookingRecord(confirmation()));
+
+    expect(redacted.confirmation.userContact).toEqual({
+      name: 'A. L.',
+      email: 'a***@example.com',
+      phone: '***0123'
+    });
+  });
+
+  it('masks contact details in change responses', () => {
+    const response = redactBookingResponse({ success: true, bookingId: 'HTL-1', confirmationDetails: confirmation() });
+
+    expect(response.confirmationDetails?.userContact.email).toBe('a***@example.com');
+  });
+});
+
+describe('booking stores', () => {
+  it('filters listed records in memory', async () => {
+    const store = new InMemoryBookingStore();
+    await store.save(createBookingRecord(confirmation()));
+    await store.save(createBookingRecord(confirmation({ bookingId: 'ATT-1', category: 'attraction', status: 'pending' })));
+
+    expect((await store.list({ category: 'attraction' })).map(record => record.bookingId)).toEqual(['ATT-1']);
+    expect((await store.list({ status: 'confirmed' })).map(record => record.bookingId)).toEqual(['HTL-1']);
+  });
+
+  it('persists records to disk and reloads them', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'booking-store-'));
+    const filePath = path.join(dir, 'bookings.json');
+
+    try {
+      const record = createBookingRecord(confirmation());
+      await new FileBookingStore(filePath).save(transitionBookingRecord(record, 'cancelled', 'Cancelled by guest'));
+
+      const reloaded = await new FileBookingStore(filePath).get('HTL-1');
+      expect(reloaded?.status).toBe('cancelled');
+      expect(reloaded?.statusHistory).toHaveLength(2);
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
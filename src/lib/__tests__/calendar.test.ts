@@ -0,0 +1,36 @@
+import { CalendarEvent, escapeText, serializeCalendar } from '../calendar';
+
+function event(overrides: Partial<CalendarEvent> = {}): CalendarEvent {
+  return {
+    uid: 'booking-1@pickforme.app',
+    summary: 'Dinner at Tasca',
+    start: '2030-01-07T19:00',
+    end: '2030-01-07T21:00',
+    ...overrides
+  };
+}
+
+function contentLines(calendar: string): string[] {
+  return calendar.replace(/\r\n /g, '').split('\r\n');
+}
+
+describe('serializeCalendar', () => {
+  it('cannot be given extra properties through the event URL', () => {
+    const lines = contentLines(serializeCalendar([event({ url: 'https://tasca.example/\r\nATTENDEE:mailto:x@evil.example' })]));
+
+    expect(lines.filter(line => line.startsWith('URL:'))).toHaveLength(1);
+    expect(lines.some(line => line.startsWith('ATTENDEE'))).toBe(false);
+  });
+
+  it('drops URLs that are not http(s) links', () => {
+    const lines = contentLines(serializeCalendar([event({ url: 'javascript:alert(1)' })]));
+
+    expect(lines.some(line => line.startsWith('URL:'))).toBe(false);
+  });
+});
+
+describe('escapeText', () => {
+  it('escapes every kind of line break', () => {
+    expect(escapeText('a\r\nb\rc\nd')).toBe('a\\nb\\nc\\nd');
+  });
+});
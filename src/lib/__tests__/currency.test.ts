@@ -0,0 +1,13 @@
+import { estimatePerPersonSpend, formatPriceTierRange } from '../currency';
+
+describe('price tier ranges', () => {
+  it('estimates the midpoint spend for a tier', () => {
+    expect(estimatePerPersonSpend('$$$')).toBe(45);
+    expect(estimatePerPersonSpend('$$$$')).toBe(75);
+  });
+
+  it('treats Object.prototype members as unknown tiers', () => {
+    expect(estimatePerPersonSpend('constructor')).toBe(estimatePerPersonSpend('$$'));
+    expect(formatPriceTierRange('toString')).toBeNull();
+  });
+});
@@ -0,0 +1,42 @@
+import { applyDecisionConstraints, getBusinessDistanceMiles } from '../decision-constraints';
+import type { Business, Location } from '../types';
+import { makeBusiness } from './helpers/businesses';
+
+const here: Location = { latitude: 38.71, longitude: -9.14, address: 'Rossio', city: 'Lisbon', state: '' };
+
+// Search results without coordinates only carry Yelp's distance, in meters
+function withoutCoordinates(id: string, meters: number): Business {
+  return makeBusiness(id, { coordinates: undefined as unknown as Business['coordinates'], distance: meters });
+}
+
+describe('getBusinessDistanceMiles', () => {
+  it("reads Yelp's distance as meters", () => {
+    expect(getBusinessDistanceMiles(withoutCoordinates('tasca', 1609.34), here)).toBeCloseTo(1);
+  });
+
+  it('has no distance without a real user location', () => {
+    const unknown: Location = { ...here, latitude: 0, longitude: 0 };
+
+    expect(getBusinessDistanceMiles(makeBusiness('tasca'), undefined)).toBeNull();
+    expect(getBusinessDistanceMiles(withoutCoordinates('tasca', 800), unknown)).toBeNull();
+  });
+});
+
+describe('applyDecisionConstraints', () => {
+  it('keeps nearby places under a maximum distance', () => {
+    const { passed, eliminated } = applyDecisionConstraints(
+      [withoutCoordinates('near', 800), withoutCoordinates('far', 16000)],
+      { distance: 2 },
+      here
+    );
+
+    expect(passed.map(business => business.id)).toEqual(['near']);
+    expect(eliminated.map(candidate => candidate.businessId)).toEqual(['far']);
+  });
+
+  it('skips the distance check when the user location is unknown', () => {
+    const { passed } = applyDecisionConstraints([withoutCoordinates('near', 800)], { distance: 2 });
+
+    expect(passed).toHaveLength(1);
+  });
+});
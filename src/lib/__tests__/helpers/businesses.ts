@@ -0,0 +1,30 @@
+import type { Business } from '../../types';
+
+// A complete Yelp-shaped business in central Lisbon; tests override what they care about
+export function makeBusiness(id: string, overrides: Partial<Business> = {}): Business {
+  return {
+    id,
+    name: id,
+    rating: 4.5,
+    review_count: 100,
+    price: '$$',
+    categories: [],
+    location: {
+      address1: '1 Main St',
+      city: 'Lisbon',
+      state: '',
+      zip_code: '1000',
+      country: 'PT',
+      display_address: ['1 Main St']
+    },
+    coordinates: { latitude: 38.71, longitude: -9.14 },
+    photos: [],
+    phone: '+351210000000',
+    display_phone: '+351 21 000 0000',
+    url: '',
+    image_url: '',
+    is_closed: false,
+    transactions: [],
+    ...overrides
+  };
+}
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { IDEMPOTENCY_HEADER, withIdempotency } from '../idempotency';
+
+let keyCounter = 0;
+
+function bookingRequest(body: unknown, key?: string): NextRequest {
+  return new NextRequest('http://localhost/api/booking', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(key ? { [IDEMPOTENCY_HEADER]: key } : {})
+    },
+    body: JSON.stringify(body)
+  });
+}
+
+function countingHandler(status = 200) {
+  let calls = 0;
+  return jest.fn(async () => {
+    calls++;
+    return NextResponse.json({ success: status < 400, confirmationId: `CONF-${calls}` }, { status });
+  });
+}
+
+describe('withIdempotency', () => {
+  let key: string;
+
+  beforeEach(() => {
+    key = `test-key-${++keyCounter}`;
+  });
+
+  it('runs the handler every time without a key', async () => {
+    const handler = countingHandler();
+    await withIdempotency(bookingRequest({ partySize: 2 }), handler);
+    await withIdempotency(bookingRequest({ partySize: 2 }), handler);
+
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it('replays the original response for a retried key', async () => {
+    const handler = countingHandler();
+    const first = await withIdempotency(bookingRequest({ partySize: 2, date: '2030-01-01' }, key), handler);
+    // Same payload with keys in a different order
+    const retry = await withIdempotency(bookingRequest({ date: '2030-01-01', partySize: 2 }, key), handler);
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(await retry.json()).toEqual(await first.json());
+    expect(retry.headers.get('Idempotent-Replayed')).toBe('true');
+  });
+
+  it('makes concurrent duplicates wait for the original request', async () => {
+    const handler = countingHandler();
+    const [first, second] = await Promise.all([
+      withIdempotency(bookingRequest({ partySize: 4 }, key), handler),
+      withIdempotency(bookingRequest({ partySize: 4 }, key), handler)
+    ]);
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(await second.json()).toEqual(await first.json());
+  });
+
+  it('rejects a key reused with a different payload', async () => {
+    const handler = countingHandler();
+    await withIdempotency(bookingRequest({ partySize: 2 }, key), handler);
+    const reused = await withIdempotency(bookingRequest({ partySize: 3 }, key), handler);
+
+    expect(reused.status).toBe(422);
+    expect((await reused.json()).error.code).toBe('IDEMPOTENCY_KEY_REUSED');
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps server errors retryable under the same key', async () => {
+    const failing = countingHandler(503);
+    await withIdempotency(bookingRequest({ partySize: 2 }, key), failing);
+
+    const succeeding = countingHandler();
+    const retry = await withIdempotency(bookingRequest({ partySize: 2 }, key), succeeding);
+
+    expect(succeeding).toHaveBeenCalledTimes(1);
+    expect(retry.status).toBe(200);
+  });
+
+  it('rejects keys that are too long', async () => {
+    const handler = countingHandler();
+    const response = await withIdempotency(bookingRequest({}, 'k'.repeat(256)), handler);
+
+    expect(response.status).toBe(400);
+    expect(handler).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,117 @@
+import { applyItineraryEdit, findScheduleOverlaps, ItineraryEdit, validateItineraryEdit } from '../itinerary-editor';
+import type { Business, PlannedActivity, TravelItinerary } from '../types';
+import { makeBusiness } from './helpers/businesses';
+
+function activity(business: Business, time: string, overrides: Partial<PlannedActivity> = {}): PlannedActivity {
+  return {
+    time,
+    duration: 90,
+    activity: business,
+    category: 'attraction',
+    bookingRequired: false,
+    bookingStatus: 'pending',
+    ...overrides
+  };
+}
+
+const museum = makeBusiness('museum', { name: 'Museum' });
+const tower = makeBusiness('tower', { name: 'Tower' });
+const tasca = makeBusiness('tasca', { name: 'Tasca' });
+
+function itinerary(): TravelItinerary {
+  return {
+    id: 'trip-1',
+    name: 'Lisbon weekend',
+    destination: { address: 'Lisbon', city: 'Lisbon', state: '', latitude: 38.71, longitude: -9.14 },
+    days: [
+      {
+        date: new Date(2030, 0, 7),
+        activities: [
+          activity(museum, '10:00'),
+          activity(tasca, '12:30', { category: 'dining', bookingRequired: true, bookingStatus: 'confirmed' })
+        ],
+        meals: [tasca]
+      },
+      { date: new Date(2030, 0, 8), activities: [activity(tower, '10:00')], meals: [] }
+    ]
+  };
+}
+
+describe('findScheduleOverlaps', () => {
+  it('reports activities whose spans overlap', () => {
+    const trip = itinerary();
+    trip.days[0].activities.push(activity(tower, '11:00'));
+
+    const overlaps = findScheduleOverlaps(trip);
+
+    expect(overlaps).toHaveLength(1);
+    expect(overlaps[0].dayIndex).toBe(0);
+    expect(overlaps[0].message).toBe('Day 1: Museum (10:00–11:30) overlaps Tower (11:00–12:30)');
+  });
+
+  it('allows back-to-back activities', () => {
+    const trip = itinerary();
+    trip.days[0].activities.push(activity(tower, '11:30', { duration: 60 }));
+
+    expect(findScheduleOverlaps(trip)).toEqual([]);
+  });
+});
+
+describe('applyItineraryEdit', () => {
+  it('adds an activity in time order and keeps meals in sync', () => {
+    const result = applyItineraryEdit(itinerary(), {
+      type: 'add_activity',
+      dayIndex: 1,
+      activity: activity(tasca, '08:00', { category: 'dining', duration: 45 })
+    });
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.data.days[1].activities.map(planned => planned.time)).toEqual(['08:00', '10:00']);
+    expect(result.data.days[1].meals).toEqual([tasca]);
+  });
+
+  it('refuses an edit that creates an overlap', () => {
+    const result = applyItineraryEdit(itinerary(), {
+      type: 'move_activity',
+      dayIndex: 1,
+      activityIndex: 0,
+      toDayIndex: 0,
+      time: '11:00'
+    });
+
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.error.code).toBe('TIME_OVERLAP');
+  });
+
+  it('ignores clashes on days the edit did not touch', () => {
+    const trip = itinerary();
+    trip.days[1].activities.push(activity(museum, '10:30'));
+
+    const result = applyItineraryEdit(trip, { type: 'remove_activity', dayIndex: 0, activityIndex: 0 });
+
+    expect(result.success).toBe(true);
+  });
+
+  it.each<[string, ItineraryEdit]>([
+    ['removing', { type: 'remove_activity', dayIndex: 0, activityIndex: 1 }],
+    ['moving', { type: 'move_activity', dayIndex: 0, activityIndex: 1, toDayIndex: 1 }],
+    ['swapping', { type: 'swap_meal', dayIndex: 0, activityIndex: 1, business: tower }],
+    ['re-dating', { type: 'reorder_days', order: [1, 0] }]
+  ])('refuses %s a confirmed booking', (_, edit) => {
+    const result = applyItineraryEdit(itinerary(), edit);
+
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.error.code).toBe('BOOKING_CONFIRMED');
+  });
+});
+
+describe('validateItineraryEdit', () => {
+  it('rejects unknown edit types and malformed indexes', () => {
+    expect(validateItineraryEdit({ type: 'delete_everything' }).isValid).toBe(false);
+    expect(validateItineraryEdit({ type: 'remove_activity', dayIndex: -1, activityIndex: 0 }).errors)
+      .toEqual(['operation.dayIndex must be a non-negative whole number']);
+  });
+});
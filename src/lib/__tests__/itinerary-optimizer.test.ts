@@ -0,0 +1,90 @@
+import { getPublishedSlots } from '../availability';
+import { optimizeDayRoute } from '../itinerary-optimizer';
+import { toMinutes } from '../itinerary-planner';
+import type { Business, ItineraryDay, PlannedActivity } from '../types';
+import { makeBusiness } from './helpers/businesses';
+
+function at(id: string, latitudeOffset: number): Business {
+  return makeBusiness(id, { coordinates: { latitude: 38.71 + latitudeOffset, longitude: -9.14 } });
+}
+
+// Two sights across town from each other and one around the corner from the first
+const castle = at('castle', 0);
+const tower = at('tower', 0.05);
+const gallery = at('gallery', 0.001);
+
+function visit(business: Business, time: string, overrides: Partial<PlannedActivity> = {}): PlannedActivity {
+  return {
+    time,
+    duration: 60,
+    activity: business,
+    category: 'attraction',
+    bookingRequired: false,
+    bookingStatus: 'pending',
+    ...overrides
+  };
+}
+
+function day(activities: PlannedActivity[]): ItineraryDay {
+  return { date: new Date(2030, 0, 7), activities, meals: [] };
+}
+
+function expectNoOverlaps(activities: PlannedActivity[]): void {
+  activities.slice(1).forEach((activity, index) => {
+    const previous = activities[index];
+    expect(toMinutes(activity.time)).toBeGreaterThanOrEqual(toMinutes(previous.time) + previous.duration);
+  });
+}
+
+describe('optimizeDayRoute', () => {
+  it('reorders a zigzag into the shorter route', () => {
+    const { day: optimized, route } = optimizeDayRoute(day([
+      visit(castle, '09:00'),
+      visit(tower, '10:30'),
+      visit(gallery, '12:00')
+    ]));
+
+    expect(optimized.activities.map(activity => activity.activity.id)).toEqual(['castle', 'gallery', 'tower']);
+    expect(route.reordered).toBe(true);
+    expect(route.afterKm).toBeLessThan(route.beforeKm);
+    expectNoOverlaps(optimized.activities);
+  });
+
+  it('keeps confirmed bookings at their booked time', () => {
+    const { day: optimized } = optimizeDayRoute(day([
+      visit(castle, '09:00'),
+      visit(tower, '10:30', { bookingStatus: 'confirmed', bookingRequired: true }),
+      visit(gallery, '12:00')
+    ]));
+
+    const booked = optimized.activities.find(activity => activity.activity.id === 'tower')!;
+    expect(booked.time).toBe('10:30');
+    expectNoOverlaps(optimized.activities);
+  });
+
+  it('keeps meals inside their meal window', () => {
+    const lunch = makeBusiness('tasca', { coordinates: { latitude: 38.76, longitude: -9.14 } });
+    const { day: optimized } = optimizeDayRoute(day([
+      visit(castle, '10:00'),
+      visit(lunch, '12:30', { category: 'dining', duration: 75 }),
+      visit(gallery, '14:00')
+    ]));
+
+    const meal = optimized.activities.find(activity => activity.category === 'dining')!;
+    expect(toMinutes(meal.time)).toBeGreaterThanOrEqual(toMinutes('12:30'));
+    expect(toMinutes(meal.time)).toBeLessThanOrEqual(toMinutes('14:00'));
+  });
+
+  it('moves ticketed attractions only to published entry times', () => {
+    const { day: optimized } = optimizeDayRoute(day([
+      visit(castle, '09:00', { bookingRequired: true }),
+      visit(tower, '10:00', { bookingRequired: true }),
+      visit(gallery, '11:00', { bookingRequired: true })
+    ]));
+
+    optimized.activities.forEach(activity => {
+      expect(getPublishedSlots('attraction', activity.activity.id)).toContain(activity.time);
+    });
+    expectNoOverlaps(optimized.activities);
+  });
+});
@@ -0,0 +1,103 @@
+import { createLocalAvailabilityProviders, getPublishedSlots } from '../availability';
+import { BookingOrchestrator } from '../booking-orchestrator';
+import { InMemoryBookingStore } from '../booking-store';
+import { TIME_SLOTS } from '../constants';
+import { nextBookableStart, planItinerary, toMinutes } from '../itinerary-planner';
+import { LocalReservationProvider, setReservationProvider } from '../reservation-provider';
+import type { Business, PlannedActivity, TravelContext } from '../types';
+import { makeBusiness } from './helpers/businesses';
+
+function nearby(id: string, index: number, overrides: Partial<Business>): Business {
+  return makeBusiness(id, {
+    coordinates: { latitude: 38.71 + index * 0.002, longitude: -9.14 + index * 0.002 },
+    ...overrides
+  });
+}
+
+const hotel = nearby('harbour-hotel', 0, {
+  transactions: ['hotel_reservation'],
+  categories: [{ alias: 'hotels', title: 'Hotels' }]
+});
+const restaurants = [1, 2, 3, 4, 5, 6].map(index => nearby(`restaurant-${index}`, index, {
+  transactions: ['restaurant_reservation'],
+  categories: [{ alias: 'portuguese', title: 'Portuguese' }]
+}));
+const attractions = [1, 2, 3, 4].map(index => nearby(`museum-${index}`, index, {
+  categories: [{ alias: 'museums', title: 'Museums' }]
+}));
+
+const travelContext: TravelContext = {
+  destination: { address: 'Lisbon', city: 'Lisbon', state: '', latitude: 38.71, longitude: -9.14 },
+  travelDates: { startDate: new Date(2030, 0, 7), endDate: new Date(2030, 0, 8) },
+  groupSize: 2
+};
+
+function plannedActivity(business: Business, category: PlannedActivity['category'], bookingRequired: boolean) {
+  return { activity: business, category, bookingRequired };
+}
+
+describe('nextBookableStart', () => {
+  it('moves a booked meal onto the reservation grid', () => {
+    expect(nextBookableStart(plannedActivity(restaurants[0], 'dining', true), toMinutes('12:35'))).toBe(toMinutes('13:00'));
+  });
+
+  it('moves a ticketed attraction to the next published entry time', () => {
+    expect(nextBookableStart(plannedActivity(attractions[0], 'attraction', true), toMinutes('10:35'))).toBe(toMinutes('11:00'));
+  });
+
+  it('has no start once the last entry has gone', () => {
+    expect(nextBookableStart(plannedActivity(attractions[0], 'attraction', true), toMinutes('16:05'))).toBeNull();
+  });
+
+  it('rounds unbooked stops to five minutes', () => {
+    expect(nextBookableStart(plannedActivity(attractions[0], 'attraction', false), toMinutes('10:31'))).toBe(toMinutes('10:35'));
+  });
+});
+
+describe('planItinerary', () => {
+  it('only schedules booked stops at times that can be sold', async () => {
+    const itinerary = await planItinerary(travelContext, { accommodation: [hotel], dining: restaurants, attractions });
+
+    const booked = itinerary.days.flatMap(day => day.activities).filter(activity => activity.bookingRequired);
+    expect(booked.length).toBeGreaterThan(0);
+
+    booked.forEach(activity => {
+      const sold = activity.category === 'dining'
+        ? [...TIME_SLOTS] as string[]
+        : getPublishedSlots('attraction', activity.activity.id);
+      expect(sold).toContain(activity.time);
+    });
+  });
+
+  it('never overlaps stops within a day', async () => {
+    const itinerary = await planItinerary(travelContext, { accommodation: [hotel], dining: restaurants, attractions });
+
+    itinerary.days.forEach(day => {
+      day.activities.slice(1).forEach((activity, index) => {
+        const previous = day.activities[index];
+        expect(toMinutes(activity.time)).toBeGreaterThanOrEqual(toMinutes(previous.time) + previous.duration);
+      });
+    });
+  });
+
+  it('plans an itinerary that books end to end', async () => {
+    process.env.YELP_API_KEY = 'test-key';
+    setReservationProvider(new LocalReservationProvider());
+    const orchestrator = new BookingOrchestrator({
+      store: new InMemoryBookingStore(),
+      availabilityProviders: createLocalAvailabilityProviders()
+    });
+
+    const itinerary = await planItinerary(travelContext, { accommodation: [hotel], dining: restaurants, attractions });
+    const result = await orchestrator.bookItinerary(itinerary, {
+      name: 'Ada Lovelace',
+      email: 'ada@example.com',
+      phone: '+1 555 0100'
+    }, { travelContext });
+
+    expect(result.error).toBeUndefined();
+    expect(result.success).toBe(true);
+    expect(result.legs.filter(leg => leg.status === 'confirmed').length)
+      .toBe(itinerary.days.flatMap(day => day.activities).filter(activity => activity.bookingRequired).length + 1);
+  });
+});
@@ -0,0 +1,22 @@
+import { InMemoryItineraryStore, SavedItinerary } from '../itinerary-store';
+
+function saved(userId: string): SavedItinerary {
+  return {
+    id: 'trip-1',
+    userId,
+    name: 'Lisbon weekend',
+    destination: { address: 'Lisbon', city: 'Lisbon', state: '', latitude: 38.71, longitude: -9.14 },
+    days: []
+  };
+}
+
+describe('itinerary stores', () => {
+  it("hides and protects another user's itinerary", async () => {
+    const store = new InMemoryItineraryStore();
+    await store.save(saved('ana'));
+
+    expect(await store.get('rui', 'trip-1')).toBeNull();
+    expect(await store.delete('rui', 'trip-1')).toBe(false);
+    expect((await store.get('ana', 'trip-1'))?.name).toBe('Lisbon weekend');
+  });
+});
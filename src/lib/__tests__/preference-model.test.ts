@@ -0,0 +1,38 @@
+import { createPreferenceModel, updatePreferenceModel } from '../preference-model';
+import type { Business, InteractionHistoryEntry } from '../types';
+import { makeBusiness } from './helpers/businesses';
+
+const tasca = makeBusiness('tasca', { categories: [{ alias: 'portuguese', title: 'Portuguese' }] });
+const sushi = makeBusiness('sushi', { categories: [{ alias: 'sushi', title: 'Sushi' }] });
+
+function selected(business: Business, timestamp: string): InteractionHistoryEntry {
+  return { type: 'business_selected', timestamp: timestamp as unknown as Date, data: { business } };
+}
+
+describe('updatePreferenceModel', () => {
+  const now = new Date('2030-01-07T12:00:00.000Z');
+
+  it('learns from each interaction once', () => {
+    const history = [selected(tasca, '2030-01-07T11:00:00.000Z')];
+
+    const learned = updatePreferenceModel(createPreferenceModel('ana', now), history, now);
+    const replayed = updatePreferenceModel(learned, history, now);
+
+    expect(learned.cuisines.portuguese).toBe(1);
+    expect(replayed).toEqual(learned);
+  });
+
+  it('clamps future timestamps so later interactions still count', () => {
+    const forged = updatePreferenceModel(
+      createPreferenceModel('ana', now),
+      [selected(tasca, '2099-01-01T00:00:00.000Z')],
+      now
+    );
+    expect(forged.lastEventAt).toBe(now.toISOString());
+
+    const later = new Date('2030-01-08T12:00:00.000Z');
+    const updated = updatePreferenceModel(forged, [selected(sushi, '2030-01-08T11:00:00.000Z')], later);
+
+    expect(updated.cuisines.sushi).toBe(1);
+  });
+});
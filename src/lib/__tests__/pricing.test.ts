@@ -0,0 +1,56 @@
+import { getPriceTier, getSeason, isQuotableCategory, quoteBooking } from '../pricing';
+import { BOOKING_CONFIG } from '../constants';
+
+const hotel = { price: '$$' };
+
+function nightLines(checkInDate: string, checkOutDate: string) {
+  return quoteBooking('accommodation', hotel, { date: checkInDate, partySize: 2, checkInDate, checkOutDate })
+    .lineItems.filter(item => item.type === 'base');
+}
+
+describe('quoteBooking stays', () => {
+  it('quotes one line per night with weekend rates on Friday and Saturday', () => {
+    // 2030-01-04 is a Friday
+    const lines = nightLines('2030-01-03', '2030-01-06');
+
+    expect(lines).toHaveLength(3);
+    expect(lines.map(line => line.unitPrice)).toEqual([135, 162, 162]);
+  });
+
+  it('quotes a single night when the check-out date is unusable', () => {
+    expect(nightLines('2030-01-05', 'garbage')).toHaveLength(1);
+    expect(nightLines('2030-01-05', '2030-1-9')).toHaveLength(1);
+  });
+
+  it('caps the quote at the maximum stay', () => {
+    expect(nightLines('2030-01-01', '2031-01-01')).toHaveLength(BOOKING_CONFIG.MAX_STAY_NIGHTS);
+  });
+
+  it('adds fees and taxes on top of the nightly subtotal', () => {
+    const quote = quoteBooking('accommodation', hotel, {
+      date: '2030-01-07', partySize: 2, checkInDate: '2030-01-07', checkOutDate: '2030-01-08', numberOfRooms: 2
+    });
+
+    expect(quote.subtotal).toBe(270);
+    expect(quote.fees).toBe(13.5);
+    expect(quote.taxes).toBe(32.4);
+    expect(quote.total).toBe(315.9);
+  });
+});
+
+describe('getSeason', () => {
+  it('maps months to seasons', () => {
+    expect(getSeason('2030-07-15')).toBe('peak');
+    expect(getSeason('2030-04-15')).toBe('shoulder');
+    expect(getSeason('2030-02-15')).toBe('off');
+  });
+});
+
+describe('price lookups', () => {
+  it('ignores Object.prototype members in request input', () => {
+    expect(getPriceTier({ price: 'constructor' })).toBeNull();
+    expect(getPriceTier({ price: '$$' })).toBe('$$');
+    expect(isQuotableCategory('toString')).toBe(false);
+    expect(isQuotableCategory('accommodation')).toBe(true);
+  });
+});
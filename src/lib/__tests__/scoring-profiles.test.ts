@@ -0,0 +1,17 @@
+import { resolveScoringProfile } from '../scoring-profiles';
+
+describe('resolveScoringProfile', () => {
+  it.each(['toString', 'constructor', '__proto__', 'hasOwnProperty'])('rejects the inherited name %s', profileId => {
+    const resolution = resolveScoringProfile(profileId);
+
+    expect(resolution.isValid).toBe(false);
+    expect(resolution.errors[0]).toMatch(`Unknown scoring profile "${profileId}"`);
+  });
+
+  it('falls back to the default profile when none is given', () => {
+    const resolution = resolveScoringProfile();
+
+    expect(resolution.isValid).toBe(true);
+    expect(resolution.errors).toEqual([]);
+  });
+});
@@ -0,0 +1,47 @@
+import { NextRequest } from 'next/server';
+import { authenticateUser, authorizeUser, setIdTokenVerifier } from '../server-auth';
+
+function request(authorization?: string): NextRequest {
+  return new NextRequest('http://localhost/api/conversations/ana', {
+    headers: authorization ? { authorization } : {}
+  });
+}
+
+beforeEach(() => {
+  setIdTokenVerifier({
+    verify: async idToken => {
+      if (!idToken.startsWith('token-')) throw new Error('invalid token');
+      return { uid: idToken.slice('token-'.length) };
+    }
+  });
+});
+
+describe('authenticateUser', () => {
+  it('resolves to the verified user', async () => {
+    expect(await authenticateUser(request('Bearer token-ana'))).toEqual({ uid: 'ana' });
+  });
+});
+
+describe('authorizeUser', () => {
+  it('lets a user through to their own data', async () => {
+    expect(await authorizeUser(request('Bearer token-ana'), 'ana')).toBeNull();
+  });
+
+  it.each([
+    ['no token', undefined],
+    ['a token that does not verify', 'Bearer forged'],
+    ['a malformed header', 'token-ana']
+  ])('rejects a request with %s as unauthenticated', async (_, authorization) => {
+    const denied = await authorizeUser(request(authorization), 'ana');
+
+    expect(denied?.status).toBe(401);
+    expect((await denied?.json()).error.code).toBe('UNAUTHENTICATED');
+  });
+
+  it("forbids reading another user's data", async () => {
+    const denied = await authorizeUser(request('Bearer token-rui'), 'ana');
+
+    expect(denied?.status).toBe(403);
+    expect((await denied?.json()).error.code).toBe('FORBIDDEN');
+  });
+});
@@ -0,0 +1,145 @@
+import {
+  castVote,
+  closeVotingSession,
+  createVotingSession,
+  getSessionJoinUrl,
+  InMemoryVotingSessionStore,
+  setVotingSessionStore,
+  tallyVotes,
+  toPublicVotingSession,
+  VotingBallot
+} from '../voting-sessions';
+import type { DecisionResponse } from '../types';
+import { makeBusiness } from './helpers/businesses';
+
+const tasca = makeBusiness('tasca', { name: 'Tasca' });
+const marisqueira = makeBusiness('marisqueira', { name: 'Marisqueira' });
+const pasteis = makeBusiness('pasteis', { name: 'Pastéis' });
+const options = [tasca, marisqueira, pasteis];
+
+const decision = {
+  selectedBusiness: tasca,
+  alternatives: [marisqueira, pasteis],
+  reasoning: 'Closest with the best reviews',
+  confidence: 0.8
+} as DecisionResponse;
+
+function ballot(participantId: string, ranking: string[]): VotingBallot {
+  return { participantId, participantToken: `${participantId}-token`, ranking, submittedAt: '2030-01-07T12:00:00.000Z' };
+}
+
+describe('tallyVotes', () => {
+  it('awards n-1 points for a first choice down to none for the last', () => {
+    const tally = tallyVotes(options, [
+      ballot('a', ['marisqueira', 'tasca', 'pasteis']),
+      ballot('b', ['marisqueira', 'pasteis', 'tasca']),
+      ballot('c', ['tasca', 'marisqueira', 'pasteis'])
+    ]);
+
+    expect(tally.entries.map(entry => [entry.businessId, entry.points, entry.firstChoices])).toEqual([
+      ['marisqueira', 5, 2],
+      ['tasca', 3, 1],
+      ['pasteis', 1, 0]
+    ]);
+    expect(tally.ballotCount).toBe(3);
+  });
+
+  it('breaks a points tie on first choices', () => {
+    // pasteis: 2 + 0 + 2 = 4 with two firsts; tasca: 1 + 2 + 1 = 4 with one
+    const tally = tallyVotes(options, [
+      ballot('a', ['pasteis', 'tasca', 'marisqueira']),
+      ballot('b', ['tasca', 'marisqueira', 'pasteis']),
+      ballot('c', ['pasteis', 'tasca', 'marisqueira'])
+    ]);
+
+    expect(tally.entries[0].businessId).toBe('pasteis');
+    expect(tally.entries[1].businessId).toBe('tasca');
+  });
+
+  it('falls back to the engine order when points and first choices tie', () => {
+    const tally = tallyVotes(options, [
+      ballot('a', ['marisqueira', 'tasca']),
+      ballot('b', ['tasca', 'marisqueira'])
+    ]);
+
+    expect(tally.entries.map(entry => entry.businessId)).toEqual(['tasca', 'marisqueira', 'pasteis']);
+  });
+
+  it('scores partial rankings and ignores unknown options', () => {
+    const tally = tallyVotes(options, [ballot('a', ['closed-down', 'pasteis'])]);
+
+    expect(tally.entries.find(entry => entry.businessId === 'pasteis')?.points).toBe(1);
+    expect(tally.entries.every(entry => entry.firstChoices === 0)).toBe(true);
+  });
+});
+
+describe('voting session access', () => {
+  beforeEach(() => {
+    setVotingSessionStore(new InMemoryVotingSessionStore());
+  });
+
+  it('only lets the creator token close the vote', async () => {
+    const session = await createVotingSession(decision);
+
+    expect((await closeVotingSession(session.sessionId)).success).toBe(false);
+    expect((await closeVotingSession(session.sessionId, 'guess')).success).toBe(false);
+
+    const closed = await closeVotingSession(session.sessionId, session.creatorToken);
+    expect(closed.success && closed.data.status).toBe('closed');
+  });
+
+  it('needs the participant token to replace a ballot', async () => {
+    const session = await createVotingSession(decision);
+    const first = await castVote(session.sessionId, { participantId: 'ana', ranking: ['pasteis'] });
+    expect(first.success).toBe(true);
+    if (!first.success) return;
+
+    const hijack = await castVote(session.sessionId, { participantId: 'ana', ranking: ['tasca'] });
+    expect(hijack.success).toBe(false);
+    if (hijack.success) return;
+    expect(hijack.error.code).toBe('FORBIDDEN');
+
+    const replaced = await castVote(session.sessionId, { participantId: 'ana', ranking: ['tasca'] }, first.data.participantToken);
+    expect(replaced.success && replaced.data.session.ballots.map(existing => existing.ranking)).toEqual([['tasca']]);
+  });
+
+  it('turns the tally into the final decision', async () => {
+    const session = await createVotingSession(decision);
+    await castVote(session.sessionId, { participantId: 'ana', ranking: ['pasteis', 'tasca'] });
+    await castVote(session.sessionId, { participantId: 'rui', ranking: ['pasteis', 'marisqueira'] });
+
+    const closed = await closeVotingSession(session.sessionId, session.creatorToken);
+
+    expect(closed.success && closed.data.finalDecision?.selectedBusiness.id).toBe('pasteis');
+    expect(closed.success && closed.data.finalDecision?.alternatives?.map(business => business.id)).toEqual(['tasca', 'marisqueira']);
+  });
+
+  it('hides tokens and participant ids from the shared view', async () => {
+    const session = await createVotingSession(decision);
+    const vote = await castVote(session.sessionId, { participantId: 'ana', name: 'Ana', ranking: ['pasteis'] });
+    if (!vote.success) throw new Error('vote failed');
+
+    const shared = JSON.stringify(toPublicVotingSession(vote.data.session));
+
+    expect(shared).not.toContain(session.creatorToken);
+    expect(shared).not.toContain(vote.data.participantToken);
+    expect(shared).not.toContain('"participantId"');
+    expect(shared).toContain('"name":"Ana"');
+  });
+
+  it('keeps every ballot when votes arrive at the same time', async () => {
+    const session = await createVotingSession(decision);
+
+    const votes = await Promise.all(['ana', 'rui', 'eva'].map(participantId =>
+      castVote(session.sessionId, { participantId, ranking: ['pasteis'] })
+    ));
+
+    expect(votes.every(vote => vote.success)).toBe(true);
+    const closed = await closeVotingSession(session.sessionId, session.creatorToken);
+    expect(closed.success && closed.data.ballots.map(existing => existing.participantId).sort()).toEqual(['ana', 'eva', 'rui']);
+  });
+
+  it('links participants to the voting page rather than the API', () => {
+    expect(getSessionJoinUrl('abc', 'https://pick.example')).toBe('https://pick.example/sessions/abc');
+  });
+});
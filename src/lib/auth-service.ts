@@ -46,6 +46,12 @@ class AuthService {
     return this.mapFirebaseUserToProfile(firebaseUser);
   }
 
+  // ID token for authenticating API requests; Firebase refreshes it when it is about to expire
+  async getIdToken(): Promise<string | null> {
+    const firebaseUser = auth.currentUser;
+    return firebaseUser ? firebaseUser.getIdToken() : null;
+  }
+
   // Login with email and password
   async loginWithEmail(email: string, password: string): Promise<UserProfile> {
     const result = await signInWithEmailAndPassword(auth, email, password);
@@ -0,0 +1,254 @@
+// Availability providers for travel bookings
+// Deterministic local inventory with per-slot capacity, seeded from a JSON fixture
+
+import type { Business, ApiResponse } from './types';
+import type { BookingDetails } from './booking-orchestrator';
+import { addBookingDays, listStayNights } from './booking-dates';
+import defaultInventory from './fixtures/availability-inventory.json';
+
+// =============================================================================
+// TYPES AND INTERFACES
+// =============================================================================
+
+export type AvailabilityCategory = 'accommodation' | 'attraction' | 'transportation' | 'entertainment';
+
+export interface AvailabilityResult {
+  available: boolean;
+  alternatives?: string[];
+  remainingCapacity?: number;
+}
+
+export interface AvailabilityProvider {
+  checkAvailability(business: Business, details: BookingDetails): Promise<ApiResponse<AvailabilityResult>>;
+  reserve(business: Business, details: BookingDetails): Promise<ApiResponse<AvailabilityResult>>;
+  release(business: Business, details: BookingDetails): Promise<void>;
+  // Count an existing booking against capacity without re-checking it, e.g. when rebuilding after a restart
+  restore(business: Business, details: BookingDetails): void;
+}
+
+export type AvailabilityProviders = Record<AvailabilityCategory, AvailabilityProvider>;
+
+export interface BusinessInventoryConfig {
+  capacity?: number;
+  slots?: string[];
+  // Capacity overrides keyed by 'YYYY-MM-DD' or 'YYYY-MM-DDTHH:MM'; 0 blocks the slot
+  overrides?: Record<string, number>;
+}
+
+export interface CategoryInventoryConfig {
+  defaultCapacity: number;
+  slots?: string[];
+  businesses?: Record<string, BusinessInventoryConfig>;
+}
+
+export type InventoryFixture = Record<AvailabilityCategory, CategoryInventoryConfig>;
+
+// =============================================================================
+// DATE AND SLOT HELPERS
+// =============================================================================
+
+const MAX_ALTERNATIVES = 3;
+const ALTERNATIVE_SEARCH_DAYS = 7;
+
+// How long the last entry slot of the day stays open
+const LAST_ENTRY_WINDOW_MINUTES = 60;
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+// =============================================================================
+// LOCAL INVENTORY PROVIDER
+// =============================================================================
+
+export class LocalInventoryProvider implements AvailabilityProvider {
+  private booked = new Map<string, number>();
+
+  constructor(
+    private readonly category: AvailabilityCategory,
+    private readonly config: CategoryInventoryConfig
+  ) {}
+
+  async checkAvailability(business: Business, details: BookingDetails): Promise<ApiResponse<AvailabilityResult>> {
+    const slots = this.getRequestedSlots(business.id, details);
+    const units = this.getRequestedUnits(details);
+    const remainingCapacity = Math.min(...slots.map(slot => this.getRemaining(business.id, slot)));
+    const available = remainingCapacity >= units;
+
+    return {
+      success: true,
+      data: {
+        available,
+        remainingCapacity: Math.max(remainingCapacity, 0),
+        alternatives: available ? undefined : this.findAlternatives(business.id, details, units)
+      }
+    };
+  }
+
+  async reserve(business: Business, details: BookingDetails): Promise<ApiResponse<AvailabilityResult>> {
+    const availability = await this.checkAvailability(business, details);
+    if (!availability.success || !availability.data.available) {
+      return availability;
+    }
+
+    const units = this.getRequestedUnits(details);
+    this.adjustBooked(business.id, details, units);
+
+    return {
+      success: true,
+      data: {
+        available: true,
+        remainingCapacity: availability.data.remainingCapacity! - units
+      }
+    };
+  }
+
+  async release(business: Business, details: BookingDetails): Promise<void> {
+    this.adjustBooked(business.id, details, -this.getRequestedUnits(details));
+  }
+
+  restore(business: Business, details: BookingDetails): void {
+    this.adjustBooked(business.id, details, this.getRequestedUnits(details));
+  }
+
+  private adjustBooked(businessId: string, details: BookingDetails, units: number): void {
+    this.getRequestedSlots(businessId, details).forEach(slot => {
+      const key = this.getKey(businessId, slot);
+      this.booked.set(key, Math.max((this.booked.get(key) || 0) + units, 0));
+    });
+  }
+
+  // Requested slots: one per night for stays, otherwise a single dated time slot
+  private getRequestedSlots(businessId: string, details: BookingDetails): string[] {
+    switch (this.category) {
+      case 'accommodation':
+        return listStayNights(details.checkInDate || details.date, details.checkOutDate || addBookingDays(details.date, 1));
+      case 'attraction':
+        return [`${details.date}T${this.getEntrySlot(businessId, details.visitTime || '10:00')}`];
+      case 'transportation':
+        return [`${details.date}T${details.departureTime || '09:00'}`];
+      case 'entertainment':
+        return [`${details.date}T${details.preferredTime || details.visitTime || '19:00'}`];
+    }
+  }
+
+  private getRequestedUnits(details: BookingDetails): number {
+    switch (this.category) {
+      case 'accommodation':
+        return details.numberOfRooms || 1;
+      case 'transportation':
+        return details.partySize || 1;
+      default:
+        return details.numberOfTickets || details.partySize || 1;
+    }
+  }
+
+  private getRemaining(businessId: string, slot: string): number {
+    return this.getCapacity(businessId, slot) - (this.booked.get(this.getKey(businessId, slot)) || 0);
+  }
+
+  private getCapacity(businessId: string, slot: string): number {
+    const businessConfig = this.config.businesses?.[businessId];
+    const [date, time] = slot.split('T');
+
+    // Times outside the published schedule have no capacity
+    const schedule = businessConfig?.slots || this.config.slots;
+    if (time && schedule && !schedule.includes(time)) {
+      return 0;
+    }
+
+    const overrides = businessConfig?.overrides || {};
+    if (overrides[slot] !== undefined) return overrides[slot];
+    if (overrides[date] !== undefined) return overrides[date];
+
+    return businessConfig?.capacity ?? this.config.defaultCapacity;
+  }
+
+  private getSchedule(businessId: string): string[] {
+    return this.config.businesses?.[businessId]?.slots || this.config.slots || [];
+  }
+
+  /**
+   * Attractions sell timed entry, so a visit starting part-way through a window (10:30)
+   * uses that window's slot (10:00). Times before the first slot or after the last window stay as they are.
+   */
+  private getEntrySlot(businessId: string, time: string): string {
+    const visit = toMinutes(time);
+    const schedule = [...this.getSchedule(businessId)].sort((a, b) => toMinutes(a) - toMinutes(b));
+    const index = schedule.map(toMinutes).filter(start => start <= visit).length - 1;
+    if (index < 0) return time;
+
+    const windowEnd = index + 1 < schedule.length
+      ? toMinutes(schedule[index + 1])
+      : toMinutes(schedule[index]) + LAST_ENTRY_WINDOW_MINUTES;
+    return visit < windowEnd ? schedule[index] : time;
+  }
+
+  private findAlternatives(businessId: string, details: BookingDetails, units: number): string[] {
+    const alternatives: string[] = [];
+
+    if (this.category === 'accommodation') {
+      // Shift the whole stay to later start dates
+      const slots = this.getRequestedSlots(businessId, details);
+      for (let offset = 1; offset <= ALTERNATIVE_SEARCH_DAYS && alternatives.length < MAX_ALTERNATIVES; offset++) {
+        const shifted = slots.map(night => addBookingDays(night, offset));
+        if (shifted.every(night => this.getRemaining(businessId, night) >= units)) {
+          alternatives.push(shifted[0]);
+        }
+      }
+      return alternatives;
+    }
+
+    const [date, time] = this.getRequestedSlots(businessId, details)[0].split('T');
+
+    if (this.category === 'entertainment') {
+      // Events keep their showtime; suggest the following dates
+      for (let offset = 1; offset <= ALTERNATIVE_SEARCH_DAYS && alternatives.length < MAX_ALTERNATIVES; offset++) {
+        const altDate = addBookingDays(date, offset);
+        if (this.getRemaining(businessId, `${altDate}T${time}`) >= units) {
+          alternatives.push(altDate);
+        }
+      }
+      return alternatives;
+    }
+
+    // Other slots on the same day, closest to the requested time first
+    return this.getSchedule(businessId)
+      .filter(slotTime => slotTime !== time && this.getRemaining(businessId, `${date}T${slotTime}`) >= units)
+      .sort((a, b) => Math.abs(toMinutes(a) - toMinutes(time)) - Math.abs(toMinutes(b) - toMinutes(time)))
+      .slice(0, MAX_ALTERNATIVES);
+  }
+
+  private getKey(businessId: string, slot: string): string {
+    return `${businessId}|${slot}`;
+  }
+}
+
+// =============================================================================
+// FACTORY
+// =============================================================================
+
+export function createLocalAvailabilityProviders(
+  fixture: InventoryFixture = defaultInventory as InventoryFixture
+): AvailabilityProviders {
+  return {
+    accommodation: new LocalInventoryProvider('accommodation', fixture.accommodation),
+    attraction: new LocalInventoryProvider('attraction', fixture.attraction),
+    transportation: new LocalInventoryProvider('transportation', fixture.transportation),
+    entertainment: new LocalInventoryProvider('entertainment', fixture.entertainment)
+  };
+}
+
+/**
+ * Times a business sells in the given inventory, earliest first; empty when any time can be booked
+ */
+export function getPublishedSlots(
+  category: AvailabilityCategory,
+  businessId: string,
+  fixture: InventoryFixture = defaultInventory as InventoryFixture
+): string[] {
+  const config = fixture[category];
+  const slots = config.businesses?.[businessId]?.slots || config.slots || [];
+  return [...slots].sort((a, b) => toMinutes(a) - toMinutes(b));
+}
@@ -0,0 +1,95 @@
+// Calendar dates for bookings
+// Strict YYYY-MM-DD parsing and stay nights, shared by booking validation, inventory and pricing
+
+import { BOOKING_CONFIG } from './constants';
+
+// =============================================================================
+// PARSING
+// =============================================================================
+
+const BOOKING_DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Local calendar date for a strict YYYY-MM-DD string; null for anything else,
+ * including impossible dates such as 2030-02-30
+ */
+export function parseBookingDate(date: unknown): Date | null {
+  if (typeof date !== 'string') return null;
+
+  const match = BOOKING_DATE_PATTERN.exec(date);
+  if (!match) return null;
+
+  const [year, month, day] = match.slice(1).map(Number);
+  const parsed = new Date(year, month - 1, day);
+  const roundTrips = parsed.getFullYear() === year && parsed.getMonth() === month - 1 && parsed.getDate() === day;
+  return roundTrips ? parsed : null;
+}
+
+export function formatBookingDate(date: Date): string {
+  const month = (date.getMonth() + 1).toString().padStart(2, '0');
+  const day = date.getDate().toString().padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Shift a date by whole days; unparseable input comes back unchanged
+ */
+export function addBookingDays(date: string, days: number): string {
+  const parsed = parseBookingDate(date);
+  if (!parsed) return date;
+
+  parsed.setDate(parsed.getDate() + days);
+  return formatBookingDate(parsed);
+}
+
+// =============================================================================
+// STAYS
+// =============================================================================
+
+/**
+ * Nights from check-in up to (not including) check-out, compared as dates rather than text.
+ * Always at least the check-in night and never more than MAX_STAY_NIGHTS, so bad input
+ * can't produce an endless or oversized stay.
+ */
+export function listStayNights(checkInDate: string, checkOutDate: string): string[] {
+  const checkIn = parseBookingDate(checkInDate);
+  const checkOut = parseBookingDate(checkOutDate);
+  if (!checkIn || !checkOut) return [checkInDate];
+
+  const nights: string[] = [];
+  const night = new Date(checkIn);
+  while (night < checkOut && nights.length < BOOKING_CONFIG.MAX_STAY_NIGHTS) {
+    nights.push(formatBookingDate(night));
+    night.setDate(night.getDate() + 1);
+  }
+
+  return nights.length > 0 ? nights : [checkInDate];
+}
+
+/**
+ * Problems with a stay's dates, for request validation
+ */
+export function validateStayDates(checkInDate: unknown, checkOutDate: unknown): string[] {
+  const errors: string[] = [];
+  const checkIn = parseBookingDate(checkInDate);
+  const checkOut = parseBookingDate(checkOutDate);
+
+  if (!checkIn) {
+    errors.push('Check-in date must be a valid date in YYYY-MM-DD format');
+  }
+  if (!checkOut) {
+    errors.push('Check-out date must be a valid date in YYYY-MM-DD format');
+  }
+
+  if (checkIn && checkOut) {
+    if (checkOut <= checkIn) {
+      errors.push('Check-out date must be after check-in date');
+    } else if (Math.round((checkOut.getTime() - checkIn.getTime()) / DAY_MS) > BOOKING_CONFIG.MAX_STAY_NIGHTS) {
+      errors.push(`Hotel stays cannot exceed ${BOOKING_CONFIG.MAX_STAY_NIGHTS} nights`);
+    }
+  }
+
+  return errors;
+}
@@ -0,0 +1,191 @@
+// Tentative reservation holds
+// Keeps a time slot reserved for a short TTL while the guest enters contact details
+
+import { randomUUID } from 'crypto';
+import type { ApiResponse, BookingHoldInfo, Business } from './types';
+import { BOOKING_CONFIG } from './constants';
+import {
+  getReservationProvider,
+  supportsOnlineReservations,
+  type ReservationProvider,
+  type ReservationSlotParams,
+} from './reservation-provider';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface SlotHold extends BookingHoldInfo {
+  business: Business;
+  providerHoldId: string;
+  createdAt: string;
+}
+
+export type SlotHoldReleaseReason = 'expired' | 'released' | 'consumed';
+
+export interface SlotHoldManagerOptions {
+  ttlSeconds?: number;
+  provider?: ReservationProvider;
+}
+
+function getConfiguredTtlSeconds(): number {
+  const configured = Number(process.env.BOOKING_HOLD_TTL_SECONDS);
+  return Number.isFinite(configured) && configured > 0 ? configured : BOOKING_CONFIG.HOLD_TTL_SECONDS;
+}
+
+export function toBookingHoldInfo(hold: SlotHold): BookingHoldInfo {
+  return {
+    holdToken: hold.holdToken,
+    restaurantId: hold.restaurantId,
+    date: hold.date,
+    time: hold.time,
+    partySize: hold.partySize,
+    status: hold.status,
+    expiresAt: hold.expiresAt,
+  };
+}
+
+// =============================================================================
+// HOLD MANAGER
+// =============================================================================
+
+export class SlotHoldManager {
+  private holds = new Map<string, SlotHold>();
+  private timers = new Map<string, ReturnType<typeof setTimeout>>();
+  private ttlSeconds: number;
+  private provider?: ReservationProvider;
+
+  constructor(options: SlotHoldManagerOptions = {}) {
+    this.ttlSeconds = options.ttlSeconds ?? getConfiguredTtlSeconds();
+    this.provider = options.provider;
+  }
+
+  async createHold(
+    business: Business,
+    slot: Omit<ReservationSlotParams, 'businessId'>
+  ): Promise<ApiResponse<SlotHold>> {
+    if (!supportsOnlineReservations(business)) {
+      return {
+        success: false,
+        error: {
+          message: 'This restaurant does not support online reservations',
+          code: 'NO_ONLINE_RESERVATIONS',
+        },
+      };
+    }
+
+    const providerHold = await this.getProvider().holdSlot({ businessId: business.id, ...slot });
+    if (!providerHold.success) {
+      return providerHold;
+    }
+
+    // Never outlive the provider's own hold
+    const now = Date.now();
+    const expiresAt = Math.min(now + this.ttlSeconds * 1000, new Date(providerHold.data.expires_at).getTime());
+
+    const hold: SlotHold = {
+      holdToken: randomUUID(),
+      restaurantId: business.id,
+      date: slot.date,
+      time: slot.time,
+      partySize: slot.partySize,
+      status: 'held',
+      expiresAt: new Date(expiresAt).toISOString(),
+      business,
+      providerHoldId: providerHold.data.hold_id,
+      createdAt: new Date(now).toISOString(),
+    };
+
+    this.holds.set(hold.holdToken, hold);
+    this.scheduleExpiry(hold.holdToken, expiresAt - now);
+
+    console.log(`Held ${slot.time} on ${slot.date} at ${business.name} until ${hold.expiresAt}`);
+    return { success: true, data: hold };
+  }
+
+  // Returns the hold while it is still active; expired holds are released on access
+  async getHold(holdToken: string): Promise<SlotHold | null> {
+    const hold = this.holds.get(holdToken);
+    if (!hold) {
+      return null;
+    }
+
+    if (new Date(hold.expiresAt).getTime() <= Date.now()) {
+      await this.releaseHold(holdToken, 'expired');
+      return null;
+    }
+
+    return hold;
+  }
+
+  // Removes the hold locally once the provider has turned it into a reservation
+  consumeHold(holdToken: string): void {
+    this.forget(holdToken);
+  }
+
+  async releaseHold(holdToken: string, reason: SlotHoldReleaseReason = 'released'): Promise<boolean> {
+    const hold = this.holds.get(holdToken);
+    if (!hold) {
+      return false;
+    }
+
+    this.forget(holdToken);
+
+    const result = await this.getProvider().releaseHold(hold.restaurantId, hold.providerHoldId);
+    if (!result.success && result.error.code !== 'HOLD_EXPIRED') {
+      console.error(`Failed to release hold ${holdToken}:`, result.error);
+    }
+
+    console.log(`Hold ${holdToken} for ${hold.business.name} ${reason}`);
+    return true;
+  }
+
+  getTtlSeconds(): number {
+    return this.ttlSeconds;
+  }
+
+  private scheduleExpiry(holdToken: string, delayMs: number): void {
+    const timer = setTimeout(() => {
+      this.releaseHold(holdToken, 'expired').catch(error => {
+        console.error(`Failed to expire hold ${holdToken}:`, error);
+      });
+    }, Math.max(delayMs, 0));
+
+    // Pending expiries must not keep the server process alive
+    if (typeof timer === 'object' && 'unref' in timer) {
+      timer.unref();
+    }
+
+    this.timers.set(holdToken, timer);
+  }
+
+  private forget(holdToken: string): void {
+    const timer = this.timers.get(holdToken);
+    if (timer) {
+      clearTimeout(timer);
+      this.timers.delete(holdToken);
+    }
+    this.holds.delete(holdToken);
+  }
+
+  private getProvider(): ReservationProvider {
+    return this.provider || getReservationProvider();
+  }
+}
+
+// =============================================================================
+// SINGLETON INSTANCE
+// =============================================================================
+
+let slotHoldManagerInstance: SlotHoldManager | null = null;
+
+export function getSlotHoldManager(): SlotHoldManager {
+  if (!slotHoldManagerInstance) {
+    slotHoldManagerInstance = new SlotHoldManager();
+  }
+  return slotHoldManagerInstance;
+}
+
+export function setSlotHoldManager(manager: SlotHoldManager): void {
+  slotHoldManagerInstance = manager;
+}
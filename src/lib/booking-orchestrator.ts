@@ -3,15 +3,35 @@
 
 import { 
   Business, 
-  BookingRequest, 
-  BookingResponse, 
   BookingInfo, 
   ContactInfo,
   Location,
   TravelContext,
+  TravelItinerary,
+  PlannedActivity,
+  TransportationPlan,
   ApiResponse
 } from './types';
 import { getYelpClient } from './yelp-client';
+import { getClosedReason } from './business-hours';
+import { parseBookingDate, validateStayDates } from './booking-dates';
+import { 
+  AvailabilityCategory, 
+  AvailabilityProvider, 
+  AvailabilityProviders, 
+  createLocalAvailabilityProviders 
+} from './availability';
+import { 
+  BookingRecord, 
+  BookingStore, 
+  createBookingRecord, 
+  getBookingStore, 
+  isBookingContact,
+  transitionBookingRecord 
+} from './booking-store';
+import { isQuotableCategory, quoteBooking } from './pricing';
+import { supportsOnlineReservations } from './reservation-provider';
+import { ConvertedPriceQuote, convertQuote } from './currency';
 
 // =============================================================================
 // TRAVEL BOOKING TYPES
@@ -70,13 +90,81 @@ export interface TravelBookingConfirmation {
   category: string;
   businessName: string;
   businessId: string;
-  status: 'confirmed' | 'pending' | 'requires_confirmation';
+  status: 'confirmed' | 'pending' | 'requires_confirmation' | 'cancelled';
   details: BookingDetails;
   userContact: ContactInfo;
   totalCost?: number;
   currency?: string;
+  priceQuote?: ConvertedPriceQuote;
   cancellationPolicy?: string;
+  cancellationWindowHours?: number;
   confirmationEmail?: boolean;
+  // The restaurant's reservation once a change has replaced the one the booking ID came from
+  providerReservationId?: string;
+}
+
+export type BookingModification = Partial<Pick<BookingDetails,
+  | 'date'
+  | 'partySize'
+  | 'preferredTime'
+  | 'checkInDate'
+  | 'checkOutDate'
+  | 'roomType'
+  | 'numberOfRooms'
+  | 'visitTime'
+  | 'ticketType'
+  | 'numberOfTickets'
+  | 'departureTime'
+  | 'arrivalTime'
+  | 'specialRequests'
+>>;
+
+export interface BookingChangeOptions {
+  category?: TravelBookingRequest['category'];
+  // Set by the API routes: the change only goes ahead for the email the booking was made with
+  contactEmail?: string;
+  reason?: string;
+  skipPolicyCheck?: boolean;
+}
+
+export interface ItineraryBookingOptions {
+  partySize?: number;
+  travelContext?: TravelContext;
+}
+
+export type ItineraryLegStatus = 
+  | 'confirmed' 
+  | 'failed' 
+  | 'requires_manual_booking' 
+  | 'skipped' 
+  | 'cancelled' 
+  | 'not_attempted';
+
+export interface ItineraryLegResult {
+  legId: string;
+  dayIndex: number;
+  category: TravelBookingRequest['category'];
+  businessName: string;
+  status: ItineraryLegStatus;
+  bookingId?: string;
+  error?: BookingError;
+  compensationError?: BookingError;
+}
+
+export interface ItineraryBookingResult {
+  success: boolean;
+  itineraryId: string;
+  legs: ItineraryLegResult[];
+  compensated: boolean;
+  itinerary: TravelItinerary;
+  error?: BookingError;
+}
+
+interface ItineraryLeg {
+  result: ItineraryLegResult;
+  request: TravelBookingRequest | null;
+  sortKey: string;
+  activity?: PlannedActivity;
 }
 
 export interface AlternativeBookingOption {
@@ -94,12 +182,40 @@ export interface BookingError {
   category?: string;
 }
 
+// =============================================================================
+// CANCELLATION POLICIES
+// =============================================================================
+
+export const CANCELLATION_POLICIES: Record<TravelBookingRequest['category'], { windowHours: number; description: string }> = {
+  dining: { windowHours: 2, description: 'Free cancellation up to 2 hours before the reservation' },
+  accommodation: { windowHours: 24, description: 'Free cancellation up to 24 hours before check-in' },
+  attraction: { windowHours: 24, description: 'Free cancellation up to 24 hours before the visit' },
+  transportation: { windowHours: 24, description: 'Free cancellation up to 24 hours before departure' },
+  entertainment: { windowHours: 48, description: 'Free cancellation up to 48 hours before the event' }
+};
+
+export interface BookingOrchestratorOptions {
+  store?: BookingStore;
+  availabilityProviders?: Partial<AvailabilityProviders>;
+}
+
 // =============================================================================
 // BOOKING ORCHESTRATOR CLASS
 // =============================================================================
 
 export class BookingOrchestrator {
   private yelpClient = getYelpClient();
+  private store: BookingStore;
+  private availabilityProviders: AvailabilityProviders;
+  private inventoryRestored: Promise<void> | null = null;
+  
+  constructor(options: BookingOrchestratorOptions = {}) {
+    this.store = options.store ?? getBookingStore();
+    this.availabilityProviders = {
+      ...createLocalAvailabilityProviders(),
+      ...options.availabilityProviders
+    };
+  }
   
   // =============================================================================
   // MAIN BOOKING COORDINATION
@@ -124,30 +240,15 @@ export class BookingOrchestrator {
         };
       }
       
-      // Route to appropriate booking handler based on category
-      switch (request.category) {
-        case 'dining':
-          return await this.handleRestaurantBooking(request);
-        case 'accommodation':
-          return await this.handleAccommodationBooking(request);
-        case 'attraction':
-          return await this.handleAttractionBooking(request);
-        case 'transportation':
-          return await this.handleTransportationBooking(request);
-        case 'entertainment':
-          return await this.handleEntertainmentBooking(request);
-        default:
-          return {
-            success: false,
-            error: {
-              code: 'UNSUPPORTED_CATEGORY',
-              message: `Booking category '${request.category}' is not supported`,
-              retryable: false,
-              category: request.category
-            }
-          };
+      const response = await this.dispatchBooking(request);
+      
+      // Record every confirmation in the booking ledger
+      if (response.success && response.confirmationDetails) {
+        await this.recordConfirmation(response.confirmationDetails, request.business);
       }
       
+      return response;
+      
     } catch (error) {
       console.error('Booking orchestration error:', error);
       return {
@@ -163,65 +264,696 @@ export class BookingOrchestrator {
     }
   }
   
+  private async dispatchBooking(request: TravelBookingRequest): Promise<TravelBookingResponse> {
+    // Route to appropriate booking handler based on category
+    switch (request.category) {
+      case 'dining':
+        return await this.handleRestaurantBooking(request);
+      case 'accommodation':
+        return await this.handleAccommodationBooking(request);
+      case 'attraction':
+        return await this.handleAttractionBooking(request);
+      case 'transportation':
+        return await this.handleTransportationBooking(request);
+      case 'entertainment':
+        return await this.handleEntertainmentBooking(request);
+      default:
+        return {
+          success: false,
+          error: {
+            code: 'UNSUPPORTED_CATEGORY',
+            message: `Booking category '${request.category}' is not supported`,
+            retryable: false,
+            category: request.category
+          }
+        };
+    }
+  }
+  
   // =============================================================================
-  // CATEGORY-SPECIFIC BOOKING HANDLERS
+  // BOOKING LEDGER
   // =============================================================================
   
-  private async handleRestaurantBooking(request: TravelBookingRequest): Promise<TravelBookingResponse> {
-    try {
-      // Convert to existing restaurant booking format
-      const restaurantBookingRequest: BookingRequest = {
-        business: request.business,
-        partySize: request.bookingDetails.partySize,
-        preferredTime: request.bookingDetails.preferredTime || '19:00',
-        preferredDate: request.bookingDetails.date,
-        userContact: request.userContact,
-        specialRequests: request.bookingDetails.specialRequests
+  async getBooking(bookingId: string): Promise<BookingRecord | null> {
+    return await this.store.get(bookingId);
+  }
+  
+  private async recordConfirmation(confirmation: TravelBookingConfirmation, business: Business): Promise<void> {
+    // Never overwrite a booking that is already in the ledger
+    const existing = await this.store.get(confirmation.bookingId);
+    if (existing) {
+      return;
+    }
+    
+    await this.store.save(createBookingRecord(confirmation, { business }));
+  }
+  
+  // =============================================================================
+  // CANCELLATION AND MODIFICATION
+  // =============================================================================
+  
+  async cancelBooking(bookingId: string, options: BookingChangeOptions = {}): Promise<TravelBookingResponse> {
+    const lookup = await this.findActiveBooking(bookingId, options.category, options.contactEmail);
+    if ('error' in lookup) {
+      return { success: false, error: lookup.error };
+    }
+    
+    const { record } = lookup;
+    const policyError = options.skipPolicyCheck ? null : this.checkCancellationPolicy(record, 'cancel');
+    if (policyError) {
+      return { success: false, error: policyError };
+    }
+    
+    if (record.category === 'dining') {
+      const cancellation = await this.cancelRestaurantReservation(record);
+      if (cancellation) {
+        return { success: false, error: cancellation };
+      }
+    }
+    
+    const cancelled = transitionBookingRecord(record, 'cancelled', options.reason || 'Cancelled by customer');
+    await this.store.save(cancelled);
+    
+    if (record.business) {
+      await this.releaseInventory(record.category, record.business, record.details);
+    }
+    
+    console.log(`Cancelled ${record.category} booking ${bookingId} at ${record.businessName}`);
+    
+    return {
+      success: true,
+      bookingId,
+      confirmationDetails: cancelled.confirmation
+    };
+  }
+  
+  async modifyBooking(
+    bookingId: string, 
+    modification: BookingModification, 
+    options: BookingChangeOptions = {}
+  ): Promise<TravelBookingResponse> {
+    const lookup = await this.findActiveBooking(bookingId, options.category, options.contactEmail);
+    if ('error' in lookup) {
+      return { success: false, error: lookup.error };
+    }
+    
+    const { record } = lookup;
+    const category = record.category as TravelBookingRequest['category'];
+    const policyError = this.checkCancellationPolicy(record, 'modify');
+    if (policyError) {
+      return { success: false, error: policyError };
+    }
+    
+    const changes = Object.fromEntries(
+      Object.entries(modification).filter(([, value]) => value !== undefined)
+    ) as BookingModification;
+    const updatedDetails: BookingDetails = { ...record.details, ...changes };
+    
+    // Hotel stays are keyed on check-in, so keep the common date in sync
+    if (category === 'accommodation' && changes.checkInDate) {
+      updatedDetails.date = changes.checkInDate;
+    }
+    
+    const errors = this.validateBookingDetails(category, updatedDetails, record.business);
+    if (errors.length > 0) {
+      return {
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid booking modification',
+          details: errors.join(', '),
+          retryable: false,
+          category
+        }
+      };
+    }
+    
+    if (!record.business) {
+      return {
+        success: false,
+        error: {
+          code: 'MODIFICATION_UNSUPPORTED',
+          message: 'This booking cannot be modified online',
+          details: 'Business information for this booking is unavailable',
+          retryable: false,
+          category
+        }
+      };
+    }
+    
+    // Free the current slot so the booking does not count against its own change
+    await this.releaseInventory(category, record.business, record.details);
+    
+    // Re-run the category availability check against the new details
+    const availability = await this.checkAvailability(record.business, category, updatedDetails);
+    if (!availability.success) {
+      await this.reserveInventory(category, record.business, record.details);
+      return {
+        success: false,
+        error: {
+          code: availability.error.code || 'AVAILABILITY_CHECK_ERROR',
+          message: availability.error.message,
+          retryable: true,
+          category
+        }
+      };
+    }
+    
+    const reservationFailure = availability.data.available 
+      ? await this.reserveInventory(category, record.business, updatedDetails) 
+      : null;
+    
+    if (!availability.data.available || reservationFailure) {
+      await this.reserveInventory(category, record.business, record.details);
+      return {
+        success: false,
+        error: {
+          code: 'MODIFICATION_UNAVAILABLE',
+          message: 'The requested changes are not available',
+          details: 'Alternative options are suggested',
+          retryable: true,
+          category
+        },
+        alternativeOptions: reservationFailure?.alternativeOptions ?? (availability.data.alternatives ? [{
+          business: record.business,
+          availableSlots: availability.data.alternatives,
+          reason: 'Alternative availability for the requested change'
+        }] : undefined)
+      };
+    }
+    
+    // Restaurants hold the table themselves: book the new one before giving up the old one
+    let providerReservationId = record.confirmation.providerReservationId;
+    if (category === 'dining') {
+      const rebooking = await this.rebookRestaurantReservation(record, updatedDetails);
+      if ('error' in rebooking) {
+        // Undo the inventory swap so the guest keeps their original slot
+        await this.releaseInventory(category, record.business, updatedDetails);
+        await this.reserveInventory(category, record.business, record.details);
+        return { success: false, error: rebooking.error };
+      }
+      providerReservationId = rebooking.reservationId;
+    }
+    
+    const modified = transitionBookingRecord(
+      record, 
+      record.status, 
+      options.reason || `Modified ${Object.keys(changes).join(', ')}`,
+      {
+        details: updatedDetails,
+        providerReservationId,
+        ...this.quoteCost(category, record.business, updatedDetails, record.confirmation.currency)
+      }
+    );
+    await this.store.save(modified);
+    
+    console.log(`Modified ${category} booking ${bookingId} at ${record.businessName}`);
+    
+    return {
+      success: true,
+      bookingId,
+      confirmationDetails: modified.confirmation
+    };
+  }
+  
+  private async cancelRestaurantReservation(record: BookingRecord): Promise<BookingError | null> {
+    const reservationId = record.confirmation.providerReservationId ?? record.bookingId;
+    const cancellation = await this.yelpClient.cancelReservation(reservationId);
+    if (cancellation.success) {
+      return null;
+    }
+    
+    return {
+      code: cancellation.error.code || 'CANCELLATION_FAILED',
+      message: `The reservation at ${record.businessName} could not be cancelled`,
+      details: cancellation.error.message,
+      retryable: true,
+      category: record.category
+    };
+  }
+  
+  private async rebookRestaurantReservation(
+    record: BookingRecord, 
+    details: BookingDetails
+  ): Promise<{ reservationId: string } | { error: BookingError }> {
+    const contact = record.confirmation.userContact;
+    const reservation = await this.yelpClient.makeReservation({
+      businessId: record.businessId,
+      date: details.date,
+      time: details.preferredTime || '19:00',
+      partySize: details.partySize,
+      customerName: contact.name,
+      customerPhone: contact.phone,
+      customerEmail: contact.email,
+      specialRequests: details.specialRequests
+    });
+    
+    if (!reservation.success) {
+      return {
+        error: {
+          code: 'MODIFICATION_UNAVAILABLE',
+          message: 'The requested changes are not available',
+          details: reservation.error.message,
+          retryable: true,
+          category: record.category
+        }
+      };
+    }
+    
+    const cancellation = await this.cancelRestaurantReservation(record);
+    if (cancellation) {
+      // Keep the guest on their original table rather than holding two
+      await this.yelpClient.cancelReservation(reservation.data.confirmation_id);
+      return { error: cancellation };
+    }
+    
+    return { reservationId: reservation.data.confirmation_id };
+  }
+  
+  private async findActiveBooking(
+    bookingId: string, 
+    category?: string,
+    contactEmail?: string
+  ): Promise<{ record: BookingRecord } | { error: BookingError }> {
+    const record = await this.store.get(bookingId);
+    
+    if (!record || (category && record.category !== category)) {
+      return {
+        error: {
+          code: 'BOOKING_NOT_FOUND',
+          message: `No booking found with ID ${bookingId}`,
+          retryable: false,
+          category
+        }
+      };
+    }
+    
+    if (contactEmail !== undefined && !isBookingContact(record, contactEmail)) {
+      return {
+        error: {
+          code: 'FORBIDDEN',
+          message: 'The contact email does not match this booking',
+          retryable: false,
+          category: record.category
+        }
       };
+    }
+    
+    if (record.status === 'cancelled') {
+      return {
+        error: {
+          code: 'BOOKING_CANCELLED',
+          message: 'This booking has already been cancelled',
+          retryable: false,
+          category: record.category
+        }
+      };
+    }
+    
+    return { record };
+  }
+  
+  private checkCancellationPolicy(record: BookingRecord, action: 'cancel' | 'modify'): BookingError | null {
+    const windowHours = record.confirmation.cancellationWindowHours;
+    if (windowHours === undefined) {
+      return null;
+    }
+    
+    const startsAt = this.getBookingStartTime(record.category, record.details);
+    if (!startsAt) {
+      return null;
+    }
+    
+    const deadline = startsAt.getTime() - windowHours * 60 * 60 * 1000;
+    if (Date.now() <= deadline) {
+      return null;
+    }
+    
+    return {
+      code: 'CANCELLATION_WINDOW_CLOSED',
+      message: action === 'cancel' 
+        ? 'This booking can no longer be cancelled online' 
+        : 'This booking can no longer be modified online',
+      details: record.confirmation.cancellationPolicy,
+      retryable: false,
+      category: record.category
+    };
+  }
+  
+  private getBookingStartTime(category: string, details: BookingDetails): Date | null {
+    let date = details.date;
+    let time: string | undefined;
+    
+    switch (category) {
+      case 'accommodation':
+        date = details.checkInDate || details.date;
+        time = '15:00'; // Standard check-in time
+        break;
+      case 'attraction':
+        time = details.visitTime;
+        break;
+      case 'transportation':
+        time = details.departureTime;
+        break;
+      default:
+        time = details.preferredTime;
+    }
+    
+    const startsAt = new Date(`${date}T${time || '00:00'}:00`);
+    return isNaN(startsAt.getTime()) ? null : startsAt;
+  }
+  
+  // =============================================================================
+  // ITINERARY BOOKING
+  // =============================================================================
+  
+  async bookItinerary(
+    itinerary: TravelItinerary, 
+    userContact: ContactInfo, 
+    options: ItineraryBookingOptions = {}
+  ): Promise<ItineraryBookingResult> {
+    const partySize = options.partySize || options.travelContext?.groupSize || 1;
+    // Work on a copy so the caller's itinerary is never mutated
+    const bookedItinerary = this.cloneItinerary(itinerary);
+    const legs = this.planItineraryLegs(bookedItinerary, userContact, partySize, options.travelContext);
+    const confirmedLegs: ItineraryLeg[] = [];
+    let failedLeg: ItineraryLeg | null = null;
+    
+    console.log(`Booking itinerary ${itinerary.id} with ${legs.length} legs`);
+    
+    for (const leg of legs) {
+      if (!leg.request) {
+        continue;
+      }
+      
+      const response = await this.coordinateBooking(leg.request);
+      
+      if (response.success && response.bookingId) {
+        leg.result.status = 'confirmed';
+        leg.result.bookingId = response.bookingId;
+        confirmedLegs.push(leg);
+      } else if (response.requiresManualBooking) {
+        // Manual bookings are reported back to the traveller rather than treated as failures
+        leg.result.status = 'requires_manual_booking';
+        leg.result.error = response.error;
+      } else {
+        leg.result.status = 'failed';
+        leg.result.error = response.error;
+        failedLeg = leg;
+        break;
+      }
+    }
+    
+    if (failedLeg) {
+      // Saga-style compensation: undo confirmed legs in reverse order
+      for (const leg of [...confirmedLegs].reverse()) {
+        const cancellation = await this.cancelBooking(leg.result.bookingId!, {
+          reason: `Itinerary ${itinerary.id} rolled back after ${failedLeg.result.legId} failed`,
+          skipPolicyCheck: true
+        });
+        
+        if (cancellation.success) {
+          leg.result.status = 'cancelled';
+        } else {
+          leg.result.compensationError = cancellation.error;
+        }
+      }
+      
+      legs
+        .filter(leg => leg.request && leg.result.status === 'skipped')
+        .forEach(leg => { leg.result.status = 'not_attempted'; });
+    }
+    
+    // Reflect the outcome on each planned activity
+    legs.forEach(leg => {
+      if (!leg.activity) return;
+      if (leg.result.status === 'confirmed') {
+        leg.activity.bookingStatus = 'confirmed';
+      } else if (leg.result.status === 'failed') {
+        leg.activity.bookingStatus = 'failed';
+      } else {
+        leg.activity.bookingStatus = 'pending';
+      }
+    });
+    
+    return {
+      success: !failedLeg,
+      itineraryId: itinerary.id,
+      legs: legs.map(leg => leg.result),
+      compensated: !!failedLeg && confirmedLegs.length > 0,
+      itinerary: bookedItinerary,
+      error: failedLeg ? {
+        code: 'ITINERARY_BOOKING_FAILED',
+        message: `Could not book ${failedLeg.result.businessName}; confirmed legs were cancelled`,
+        details: failedLeg.result.error?.message,
+        retryable: failedLeg.result.error?.retryable ?? false
+      } : undefined
+    };
+  }
+  
+  private planItineraryLegs(
+    itinerary: TravelItinerary, 
+    userContact: ContactInfo, 
+    partySize: number, 
+    travelContext?: TravelContext
+  ): ItineraryLeg[] {
+    const legs: ItineraryLeg[] = [];
+    
+    itinerary.days.forEach((day, dayIndex) => {
+      const date = this.formatDate(day.date);
+      const dayLegs: ItineraryLeg[] = [];
       
-      // Use existing restaurant booking logic
-      const response = await fetch('/api/booking', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(restaurantBookingRequest)
+      // One accommodation leg per consecutive stay at the same business
+      const previousStay = dayIndex > 0 ? itinerary.days[dayIndex - 1].accommodation : undefined;
+      if (day.accommodation && day.accommodation.id !== previousStay?.id) {
+        let lastNight = dayIndex;
+        while (itinerary.days[lastNight + 1]?.accommodation?.id === day.accommodation.id) {
+          lastNight++;
+        }
+        
+        dayLegs.push(this.createItineraryLeg(`day${dayIndex + 1}-accommodation`, dayIndex, '15:00', {
+          category: 'accommodation',
+          business: day.accommodation,
+          bookingDetails: {
+            date,
+            partySize,
+            checkInDate: date,
+            checkOutDate: this.addDays(itinerary.days[lastNight].date, 1),
+            numberOfRooms: 1
+          },
+          userContact,
+          travelContext
+        }));
+      }
+      
+      day.activities.forEach((activity, activityIndex) => {
+        const legId = `day${dayIndex + 1}-activity${activityIndex + 1}`;
+        
+        if (!activity.bookingRequired) {
+          return;
+        }
+        
+        const leg = this.createItineraryLeg(legId, dayIndex, activity.time, {
+          category: activity.category,
+          business: activity.activity,
+          bookingDetails: this.getActivityBookingDetails(activity, date, partySize),
+          userContact,
+          travelContext
+        });
+        leg.activity = activity;
+        dayLegs.push(leg);
+      });
+      
+      (day.transportation || []).forEach((plan, planIndex) => {
+        const legId = `day${dayIndex + 1}-transport${planIndex + 1}`;
+        
+        // Walking needs no booking
+        if (plan.type === 'walking') {
+          const leg = this.createItineraryLeg(legId, dayIndex, plan.departureTime, null);
+          leg.result.category = 'transportation';
+          leg.result.businessName = `Walk from ${plan.from.address} to ${plan.to.address}`;
+          dayLegs.push(leg);
+          return;
+        }
+        
+        dayLegs.push(this.createItineraryLeg(legId, dayIndex, plan.departureTime, {
+          category: 'transportation',
+          business: this.createTransportationBusiness(plan),
+          bookingDetails: {
+            date,
+            partySize,
+            departureTime: plan.departureTime,
+            arrivalTime: plan.arrivalTime,
+            transportationType: plan.type === 'car' ? 'car_rental' : plan.type
+          },
+          userContact,
+          travelContext
+        }));
       });
       
-      const bookingResponse: BookingResponse = await response.json();
+      legs.push(...dayLegs.sort((a, b) => a.sortKey.localeCompare(b.sortKey)));
+    });
+    
+    return legs;
+  }
+  
+  private createItineraryLeg(
+    legId: string, 
+    dayIndex: number, 
+    time: string, 
+    request: TravelBookingRequest | null
+  ): ItineraryLeg {
+    return {
+      request,
+      sortKey: time.padStart(5, '0'),
+      result: {
+        legId,
+        dayIndex,
+        category: request?.category || 'transportation',
+        businessName: request?.business.name || '',
+        status: 'skipped'
+      }
+    };
+  }
+  
+  private getActivityBookingDetails(activity: PlannedActivity, date: string, partySize: number): BookingDetails {
+    switch (activity.category) {
+      case 'accommodation':
+        return { date, partySize, checkInDate: date, checkOutDate: this.addDays(date, 1), numberOfRooms: 1 };
+      case 'attraction':
+        return { date, partySize, visitTime: activity.time, numberOfTickets: partySize };
+      case 'transportation':
+        return { date, partySize, departureTime: activity.time };
+      case 'entertainment':
+        return { date, partySize, preferredTime: activity.time, numberOfTickets: partySize };
+      default:
+        return { date, partySize, preferredTime: activity.time };
+    }
+  }
+  
+  private createTransportationBusiness(plan: TransportationPlan): Business {
+    return {
+      id: `transport_${plan.type}_${plan.from.city}_${plan.to.city}`.toLowerCase().replace(/\s+/g, '-'),
+      name: `${plan.type} from ${plan.from.city || plan.from.address} to ${plan.to.city || plan.to.address}`,
+      rating: 0,
+      review_count: 0,
+      price: '',
+      categories: [{ alias: 'transport', title: 'Transportation' }],
+      location: {
+        address1: plan.from.address,
+        city: plan.from.city,
+        state: plan.from.state,
+        zip_code: plan.from.zipCode || '',
+        country: plan.from.country || '',
+        display_address: [plan.from.address]
+      },
+      coordinates: { latitude: plan.from.latitude, longitude: plan.from.longitude },
+      photos: [],
+      phone: '',
+      display_phone: '',
+      url: '',
+      image_url: '',
+      is_closed: false,
+      transactions: []
+    };
+  }
+  
+  private cloneItinerary(itinerary: TravelItinerary): TravelItinerary {
+    return {
+      ...itinerary,
+      days: itinerary.days.map(day => ({
+        ...day,
+        activities: day.activities.map(activity => ({ ...activity }))
+      }))
+    };
+  }
+  
+  // =============================================================================
+  // CATEGORY-SPECIFIC BOOKING HANDLERS
+  // =============================================================================
+  
+  private async handleRestaurantBooking(request: TravelBookingRequest): Promise<TravelBookingResponse> {
+    try {
+      const { business, bookingDetails, userContact } = request;
+      const time = bookingDetails.preferredTime || '19:00';
       
-      if (bookingResponse.success && bookingResponse.bookingDetails) {
+      if (!supportsOnlineReservations(business)) {
         return {
-          success: true,
-          bookingId: bookingResponse.confirmationId,
-          confirmationDetails: {
-            bookingId: bookingResponse.confirmationId!,
-            category: 'dining',
-            businessName: request.business.name,
-            businessId: request.business.id,
-            status: 'confirmed',
-            details: request.bookingDetails,
-            userContact: request.userContact,
-            confirmationEmail: true
-          }
+          success: false,
+          error: {
+            code: 'NO_ONLINE_RESERVATIONS',
+            message: 'This restaurant requires phone reservations',
+            retryable: false,
+            category: 'dining'
+          },
+          requiresManualBooking: true,
+          contactInfo: { phone: business.display_phone || business.phone }
         };
-      } else {
+      }
+      
+      // Book through the reservation provider directly; /api/booking is not reachable by URL from the server
+      const availability = await this.checkRestaurantAvailability(business, bookingDetails);
+      if (!availability.success || !availability.data.available) {
         return {
           success: false,
           error: {
-            code: bookingResponse.error?.code || 'RESTAURANT_BOOKING_FAILED',
-            message: bookingResponse.error?.message || 'Restaurant booking failed',
-            retryable: bookingResponse.error?.retryable || true,
+            code: availability.success ? 'TIME_UNAVAILABLE' : availability.error.code || 'AVAILABILITY_CHECK_ERROR',
+            message: availability.success 
+              ? `The requested time ${time} is not available` 
+              : availability.error.message,
+            retryable: true,
             category: 'dining'
           },
-          alternativeOptions: bookingResponse.alternativeTimes ? [{
-            business: request.business,
-            availableSlots: bookingResponse.alternativeTimes,
+          alternativeOptions: availability.success && availability.data.alternatives?.length ? [{
+            business,
+            availableSlots: availability.data.alternatives,
             reason: 'Alternative times available'
-          }] : undefined,
-          requiresManualBooking: bookingResponse.requiresPhoneCall,
-          contactInfo: bookingResponse.phoneNumber ? { phone: bookingResponse.phoneNumber } : undefined
+          }] : undefined
+        };
+      }
+      
+      const reservation = await this.yelpClient.makeReservation({
+        businessId: business.id,
+        date: bookingDetails.date,
+        time,
+        partySize: bookingDetails.partySize,
+        customerName: userContact.name,
+        customerPhone: userContact.phone,
+        customerEmail: userContact.email,
+        specialRequests: bookingDetails.specialRequests
+      });
+      
+      if (!reservation.success) {
+        return {
+          success: false,
+          error: {
+            code: reservation.error.code || 'RESTAURANT_BOOKING_FAILED',
+            message: reservation.error.message || 'Restaurant booking failed',
+            retryable: true,
+            category: 'dining'
+          },
+          contactInfo: { phone: business.display_phone || business.phone }
         };
       }
       
+      const bookingId = reservation.data.confirmation_id;
+      return {
+        success: true,
+        bookingId,
+        confirmationDetails: {
+          bookingId,
+          category: 'dining',
+          businessName: business.name,
+          businessId: business.id,
+          status: reservation.data.status,
+          details: { ...bookingDetails, preferredTime: time },
+          userContact,
+          cancellationPolicy: CANCELLATION_POLICIES.dining.description,
+          cancellationWindowHours: CANCELLATION_POLICIES.dining.windowHours,
+          confirmationEmail: true
+        }
+      };
+      
     } catch (error) {
       console.error('Restaurant booking error:', error);
       return {
@@ -261,6 +993,12 @@ export class BookingOrchestrator {
         };
       }
       
+      // Hold inventory before issuing the booking
+      const reservationFailure = await this.reserveInventory('accommodation', request.business, request.bookingDetails);
+      if (reservationFailure) {
+        return reservationFailure;
+      }
+      
       // Simulate accommodation booking (in real implementation, integrate with hotel booking APIs)
       const bookingId = this.generateBookingId('HOTEL');
       
@@ -275,9 +1013,9 @@ export class BookingOrchestrator {
           status: 'confirmed',
           details: request.bookingDetails,
           userContact: request.userContact,
-          totalCost: this.estimateAccommodationCost(request.bookingDetails),
-          currency: 'USD',
-          cancellationPolicy: 'Free cancellation up to 24 hours before check-in',
+          ...this.quoteCost('accommodation', request.business, request.bookingDetails, request.travelContext?.budget?.currency),
+          cancellationPolicy: CANCELLATION_POLICIES.accommodation.description,
+          cancellationWindowHours: CANCELLATION_POLICIES.accommodation.windowHours,
           confirmationEmail: true
         }
       };
@@ -321,6 +1059,12 @@ export class BookingOrchestrator {
         };
       }
       
+      // Hold inventory before issuing the booking
+      const reservationFailure = await this.reserveInventory('attraction', request.business, request.bookingDetails);
+      if (reservationFailure) {
+        return reservationFailure;
+      }
+      
       // Simulate attraction booking
       const bookingId = this.generateBookingId('TICKET');
       
@@ -335,8 +1079,9 @@ export class BookingOrchestrator {
           status: 'confirmed',
           details: request.bookingDetails,
           userContact: request.userContact,
-          totalCost: this.estimateAttractionCost(request.bookingDetails),
-          currency: 'USD',
+          ...this.quoteCost('attraction', request.business, request.bookingDetails, request.travelContext?.budget?.currency),
+          cancellationPolicy: CANCELLATION_POLICIES.attraction.description,
+          cancellationWindowHours: CANCELLATION_POLICIES.attraction.windowHours,
           confirmationEmail: true
         }
       };
@@ -411,6 +1156,12 @@ export class BookingOrchestrator {
         };
       }
       
+      // Hold inventory before issuing the booking
+      const reservationFailure = await this.reserveInventory('entertainment', request.business, request.bookingDetails);
+      if (reservationFailure) {
+        return reservationFailure;
+      }
+      
       // Simulate entertainment booking
       const bookingId = this.generateBookingId('EVENT');
       
@@ -425,8 +1176,9 @@ export class BookingOrchestrator {
           status: 'confirmed',
           details: request.bookingDetails,
           userContact: request.userContact,
-          totalCost: this.estimateEntertainmentCost(request.bookingDetails),
-          currency: 'USD',
+          ...this.quoteCost('entertainment', request.business, request.bookingDetails, request.travelContext?.budget?.currency),
+          cancellationPolicy: CANCELLATION_POLICIES.entertainment.description,
+          cancellationWindowHours: CANCELLATION_POLICIES.entertainment.windowHours,
           confirmationEmail: true
         }
       };
@@ -455,17 +1207,18 @@ export class BookingOrchestrator {
     details: BookingDetails
   ): Promise<ApiResponse<{ available: boolean; alternatives?: string[] }>> {
     try {
+      await this.restoreInventory();
       switch (category) {
         case 'dining':
           return await this.checkRestaurantAvailability(business, details);
         case 'accommodation':
-          return await this.checkAccommodationAvailability(business, details);
+          return await this.availabilityProviders.accommodation.checkAvailability(business, details);
         case 'attraction':
-          return await this.checkAttractionAvailability(business, details);
+          return await this.availabilityProviders.attraction.checkAvailability(business, details);
         case 'transportation':
-          return await this.checkTransportationAvailability(business, details);
+          return await this.availabilityProviders.transportation.checkAvailability(business, details);
         case 'entertainment':
-          return await this.checkEntertainmentAvailability(business, details);
+          return await this.availabilityProviders.entertainment.checkAvailability(business, details);
         default:
           return {
             success: false,
@@ -514,68 +1267,81 @@ export class BookingOrchestrator {
     return availabilityResult;
   }
   
-  private async checkAccommodationAvailability(
-    business: Business, 
-    details: BookingDetails
-  ): Promise<ApiResponse<{ available: boolean; alternatives?: string[] }>> {
-    // Simulate accommodation availability check
-    const isAvailable = Math.random() > 0.3; // 70% availability rate
-    
-    return {
-      success: true,
-      data: {
-        available: isAvailable,
-        alternatives: isAvailable ? undefined : this.generateAlternativeDates(details.date)
-      }
-    };
+  /**
+   * Inventory counters live in memory, so the first availability call after a restart
+   * rebuilds them from the bookings still active in the ledger
+   */
+  private restoreInventory(): Promise<void> {
+    if (!this.inventoryRestored) {
+      this.inventoryRestored = this.store.list().then(records => {
+        records.forEach(record => {
+          const provider = this.getAvailabilityProvider(record.category);
+          if (provider && record.business && record.status !== 'cancelled') {
+            provider.restore(record.business, record.details);
+          }
+        });
+      }).catch(error => {
+        console.error('Failed to restore inventory from the booking ledger:', error);
+        this.inventoryRestored = null;
+      });
+    }
+    return this.inventoryRestored;
   }
   
-  private async checkAttractionAvailability(
-    business: Business, 
-    details: BookingDetails
-  ): Promise<ApiResponse<{ available: boolean; alternatives?: string[] }>> {
-    // Most attractions have good availability
-    const isAvailable = Math.random() > 0.1; // 90% availability rate
-    
-    return {
-      success: true,
-      data: {
-        available: isAvailable,
-        alternatives: isAvailable ? undefined : this.generateAlternativeTimes(details.visitTime || '10:00')
-      }
-    };
+  private getAvailabilityProvider(category: string): AvailabilityProvider | undefined {
+    return category in this.availabilityProviders 
+      ? this.availabilityProviders[category as AvailabilityCategory] 
+      : undefined;
   }
   
-  private async checkTransportationAvailability(
+  private async reserveInventory(
+    category: string, 
     business: Business, 
     details: BookingDetails
-  ): Promise<ApiResponse<{ available: boolean; alternatives?: string[] }>> {
-    // Transportation availability varies by type
-    const isAvailable = Math.random() > 0.4; // 60% availability rate
+  ): Promise<TravelBookingResponse | null> {
+    const provider = this.getAvailabilityProvider(category);
+    if (!provider) {
+      return null;
+    }
     
-    return {
-      success: true,
-      data: {
-        available: isAvailable,
-        alternatives: isAvailable ? undefined : this.generateAlternativeTimes(details.departureTime || '09:00')
-      }
-    };
+    await this.restoreInventory();
+    const reservation = await provider.reserve(business, details);
+    if (!reservation.success) {
+      return {
+        success: false,
+        error: {
+          code: reservation.error.code || 'AVAILABILITY_CHECK_ERROR',
+          message: reservation.error.message,
+          retryable: true,
+          category
+        }
+      };
+    }
+    
+    if (!reservation.data.available) {
+      return {
+        success: false,
+        error: {
+          code: 'NO_AVAILABILITY',
+          message: `${business.name} has no availability for the requested ${category === 'accommodation' ? 'dates' : 'time'}`,
+          details: 'Alternative options are suggested',
+          retryable: true,
+          category
+        },
+        alternativeOptions: reservation.data.alternatives ? [{
+          business,
+          availableSlots: reservation.data.alternatives,
+          reason: 'Alternative availability'
+        }] : undefined
+      };
+    }
+    
+    return null;
   }
   
-  private async checkEntertainmentAvailability(
-    business: Business, 
-    details: BookingDetails
-  ): Promise<ApiResponse<{ available: boolean; alternatives?: string[] }>> {
-    // Entertainment events have limited availability
-    const isAvailable = Math.random() > 0.5; // 50% availability rate
-    
-    return {
-      success: true,
-      data: {
-        available: isAvailable,
-        alternatives: isAvailable ? undefined : this.generateAlternativeDates(details.date)
-      }
-    };
+  private async releaseInventory(category: string, business: Business, details: BookingDetails): Promise<void> {
+    await this.restoreInventory();
+    await this.getAvailabilityProvider(category)?.release(business, details);
   }
   
   // =============================================================================
@@ -594,32 +1360,7 @@ export class BookingOrchestrator {
     if (!request.bookingDetails) {
       errors.push('Booking details are required');
     } else {
-      if (!request.bookingDetails.date) {
-        errors.push('Booking date is required');
-      }
-      
-      if (!request.bookingDetails.partySize || request.bookingDetails.partySize < 1) {
-        errors.push('Valid party size is required');
-      }
-      
-      // Category-specific validation
-      switch (request.category) {
-        case 'accommodation':
-          if (!request.bookingDetails.checkInDate || !request.bookingDetails.checkOutDate) {
-            errors.push('Check-in and check-out dates are required for accommodation');
-          }
-          break;
-        case 'transportation':
-          if (!request.bookingDetails.departureTime) {
-            errors.push('Departure time is required for transportation');
-          }
-          break;
-        case 'dining':
-          if (!request.bookingDetails.preferredTime) {
-            errors.push('Preferred time is required for dining reservations');
-          }
-          break;
-      }
+      errors.push(...this.validateBookingDetails(request.category, request.bookingDetails, request.business));
     }
     
     // Validate contact info
@@ -633,64 +1374,101 @@ export class BookingOrchestrator {
     };
   }
   
+  private validateBookingDetails(category: string, details: BookingDetails, business?: Business): string[] {
+    const errors: string[] = [];
+    
+    if (!details.date) {
+      errors.push('Booking date is required');
+    } else if (!parseBookingDate(details.date)) {
+      errors.push('Booking date must be a valid date in YYYY-MM-DD format');
+    }
+    
+    if (!details.partySize || details.partySize < 1) {
+      errors.push('Valid party size is required');
+    }
+    
+    // Category-specific validation
+    switch (category) {
+      case 'accommodation':
+        if (!details.checkInDate || !details.checkOutDate) {
+          errors.push('Check-in and check-out dates are required for accommodation');
+        } else {
+          errors.push(...validateStayDates(details.checkInDate, details.checkOutDate));
+        }
+        break;
+      case 'transportation':
+        if (!details.departureTime) {
+          errors.push('Departure time is required for transportation');
+        }
+        break;
+      case 'dining':
+        if (!details.preferredTime) {
+          errors.push('Preferred time is required for dining reservations');
+        }
+        break;
+    }
+    
+    // Timed visits must fall within the venue's opening hours
+    const visitTime = category === 'attraction' ? details.visitTime : details.preferredTime || details.visitTime;
+    if (business && details.date && visitTime && category !== 'accommodation' && category !== 'transportation') {
+      const closedReason = getClosedReason(business, details.date, visitTime);
+      if (closedReason) {
+        errors.push(closedReason);
+      }
+    }
+    
+    return errors;
+  }
+  
   // =============================================================================
   // UTILITY HELPERS
   // =============================================================================
   
-  private generateBookingId(prefix: string): string {
-    const timestamp = Date.now();
-    const random = Math.random().toString(36).substring(2, 8);
-    return `${prefix}_${timestamp}_${random}`.toUpperCase();
-  }
-  
-  private estimateAccommodationCost(details: BookingDetails): number {
-    const baseRate = 150; // Base rate per night
-    const nights = details.checkInDate && details.checkOutDate 
-      ? Math.ceil((new Date(details.checkOutDate).getTime() - new Date(details.checkInDate).getTime()) / (1000 * 60 * 60 * 24))
-      : 1;
-    const rooms = details.numberOfRooms || 1;
-    
-    return baseRate * nights * rooms;
+  private toLocalDate(date: Date | string): Date {
+    // Plain YYYY-MM-DD strings are calendar dates, not UTC instants
+    if (typeof date === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      const [year, month, day] = date.split('-').map(Number);
+      return new Date(year, month - 1, day);
+    }
+    return new Date(date);
   }
   
-  private estimateAttractionCost(details: BookingDetails): number {
-    const baseTicketPrice = 25;
-    const tickets = details.numberOfTickets || details.partySize;
-    
-    return baseTicketPrice * tickets;
+  private formatDate(date: Date | string): string {
+    const local = this.toLocalDate(date);
+    const month = (local.getMonth() + 1).toString().padStart(2, '0');
+    const day = local.getDate().toString().padStart(2, '0');
+    return `${local.getFullYear()}-${month}-${day}`;
   }
   
-  private estimateEntertainmentCost(details: BookingDetails): number {
-    const baseTicketPrice = 45;
-    const tickets = details.numberOfTickets || details.partySize;
-    
-    return baseTicketPrice * tickets;
+  private addDays(date: Date | string, days: number): string {
+    const result = this.toLocalDate(date);
+    result.setDate(result.getDate() + days);
+    return this.formatDate(result);
   }
   
-  private generateAlternativeDates(originalDate: string, count: number = 3): string[] {
-    const baseDate = new Date(originalDate);
-    const alternatives: string[] = [];
-    
-    for (let i = 1; i <= count; i++) {
-      const altDate = new Date(baseDate);
-      altDate.setDate(altDate.getDate() + i);
-      alternatives.push(altDate.toISOString().split('T')[0]);
-    }
-    
-    return alternatives;
+  private generateBookingId(prefix: string): string {
+    const timestamp = Date.now();
+    const random = Math.random().toString(36).substring(2, 8);
+    return `${prefix}_${timestamp}_${random}`.toUpperCase();
   }
   
-  private generateAlternativeTimes(originalTime: string, count: number = 3): string[] {
-    const [hours, minutes] = originalTime.split(':').map(Number);
-    const alternatives: string[] = [];
-    
-    for (let i = 1; i <= count; i++) {
-      const newHours = (hours + i) % 24;
-      const timeString = `${newHours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}`;
-      alternatives.push(timeString);
+  private quoteCost(
+    category: string, 
+    business: Business, 
+    details: BookingDetails,
+    currency?: string
+  ): Pick<TravelBookingConfirmation, 'totalCost' | 'currency' | 'priceQuote'> {
+    if (!isQuotableCategory(category)) {
+      return {};
     }
     
-    return alternatives;
+    // Quotes are priced in USD and shown in the traveller's budget currency when we have a rate for it
+    const priceQuote = convertQuote(quoteBooking(category, business, details), currency);
+    return {
+      totalCost: priceQuote.total,
+      currency: priceQuote.currency,
+      priceQuote
+    };
   }
   
   private getTransportationBookingUrl(type?: string): string {
@@ -738,4 +1516,52 @@ export async function checkTravelAvailability(
 ): Promise<ApiResponse<{ available: boolean; alternatives?: string[] }>> {
   const orchestrator = getBookingOrchestrator();
   return await orchestrator.checkAvailability(business, category, details);
-}
\ No newline at end of file
+}
+
+export async function getTravelBooking(bookingId: string): Promise<BookingRecord | null> {
+  const orchestrator = getBookingOrchestrator();
+  return await orchestrator.getBooking(bookingId);
+}
+
+
+export async function cancelTravelBooking(
+  bookingId: string, 
+  options?: BookingChangeOptions
+): Promise<TravelBookingResponse> {
+  const orchestrator = getBookingOrchestrator();
+  return await orchestrator.cancelBooking(bookingId, options);
+}
+
+export async function modifyTravelBooking(
+  bookingId: string, 
+  modification: BookingModification, 
+  options?: BookingChangeOptions
+): Promise<TravelBookingResponse> {
+  const orchestrator = getBookingOrchestrator();
+  return await orchestrator.modifyBooking(bookingId, modification, options);
+}
+
+export function getBookingErrorStatus(error?: BookingError): number {
+  switch (error?.code) {
+    case 'BOOKING_NOT_FOUND':
+      return 404;
+    case 'FORBIDDEN':
+      return 403;
+    case 'BOOKING_CANCELLED':
+    case 'CANCELLATION_WINDOW_CLOSED':
+    case 'MODIFICATION_UNAVAILABLE':
+    case 'ITINERARY_BOOKING_FAILED':
+      return 409;
+    default:
+      return error?.retryable ? 503 : 400;
+  }
+}
+
+export async function bookTravelItinerary(
+  itinerary: TravelItinerary, 
+  userContact: ContactInfo, 
+  options?: ItineraryBookingOptions
+): Promise<ItineraryBookingResult> {
+  const orchestrator = getBookingOrchestrator();
+  return await orchestrator.bookItinerary(itinerary, userContact, options);
+}
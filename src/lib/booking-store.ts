@@ -0,0 +1,207 @@
+// Booking ledger for travel bookings
+// Persists every confirmation issued by the BookingOrchestrator with its status history
+
+import path from 'path';
+import type { Business, ContactInfo } from './types';
+import type { BookingDetails, TravelBookingConfirmation, TravelBookingResponse } from './booking-orchestrator';
+import { JsonFileStore } from './json-file-store';
+
+// =============================================================================
+// BOOKING RECORD TYPES
+// =============================================================================
+
+export type BookingRecordStatus = TravelBookingConfirmation['status'];
+
+export interface BookingStatusTransition {
+  status: BookingRecordStatus;
+  timestamp: string;
+  reason?: string;
+}
+
+export interface BookingRecord {
+  bookingId: string;
+  category: string;
+  businessId: string;
+  businessName: string;
+  status: BookingRecordStatus;
+  details: BookingDetails;
+  confirmation: TravelBookingConfirmation;
+  business?: Business;
+  statusHistory: BookingStatusTransition[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface BookingRecordFilter {
+  category?: string;
+  businessId?: string;
+  status?: BookingRecordStatus;
+}
+
+// =============================================================================
+// BOOKING STORE INTERFACE
+// =============================================================================
+
+export interface BookingStore {
+  get(bookingId: string): Promise<BookingRecord | null>;
+  save(record: BookingRecord): Promise<void>;
+  list(filter?: BookingRecordFilter): Promise<BookingRecord[]>;
+}
+
+// =============================================================================
+// RECORD HELPERS
+// =============================================================================
+
+export function createBookingRecord(
+  confirmation: TravelBookingConfirmation,
+  options: { business?: Business; reason?: string } = {}
+): BookingRecord {
+  const now = new Date().toISOString();
+
+  return {
+    bookingId: confirmation.bookingId,
+    category: confirmation.category,
+    businessId: confirmation.businessId,
+    businessName: confirmation.businessName,
+    status: confirmation.status,
+    details: confirmation.details,
+    confirmation,
+    business: options.business,
+    statusHistory: [{ status: confirmation.status, timestamp: now, reason: options.reason ?? 'Booking created' }],
+    createdAt: now,
+    updatedAt: now
+  };
+}
+
+export function transitionBookingRecord(
+  record: BookingRecord,
+  status: BookingRecordStatus,
+  reason?: string,
+  changes: Partial<TravelBookingConfirmation> = {}
+): BookingRecord {
+  const now = new Date().toISOString();
+  const confirmation = { ...record.confirmation, ...changes, status };
+
+  return {
+    ...record,
+    status,
+    details: confirmation.details,
+    confirmation,
+    statusHistory: [...record.statusHistory, { status, timestamp: now, reason }],
+    updatedAt: now
+  };
+}
+
+function maskContact(contact: ContactInfo): ContactInfo {
+  const [localPart = '', domain = ''] = (contact.email || '').split('@');
+  const digits = (contact.phone || '').replace(/\D/g, '');
+
+  return {
+    name: (contact.name || '').trim().split(/\s+/).map(part => part ? `${part[0]}.` : '').join(' '),
+    email: localPart ? `${localPart[0]}***@${domain}` : '',
+    phone: digits.length > 4 ? `***${digits.slice(-4)}` : ''
+  };
+}
+
+function redactConfirmation(confirmation: TravelBookingConfirmation): TravelBookingConfirmation {
+  return { ...confirmation, userContact: maskContact(confirmation.userContact) };
+}
+
+/**
+ * The view returned by status lookups: anyone holding a booking ID can read it, so the guest's
+ * contact details are masked down to what is needed to recognise the booking
+ */
+export function redactBookingRecord(record: BookingRecord): BookingRecord {
+  return {
+    ...record,
+    confirmation: redactConfirmation(record.confirmation)
+  };
+}
+
+// Change and cancellation responses get the same masking as status lookups
+export function redactBookingResponse(response: TravelBookingResponse): TravelBookingResponse {
+  return response.confirmationDetails
+    ? { ...response, confirmationDetails: redactConfirmation(response.confirmationDetails) }
+    : response;
+}
+
+// Proof of ownership for changes: the email the booking was made with, compared case-insensitively
+export function isBookingContact(record: BookingRecord, email: string): boolean {
+  const expected = (record.confirmation.userContact.email || '').trim().toLowerCase();
+  return expected !== '' && expected === email.trim().toLowerCase();
+}
+
+function matchesFilter(record: BookingRecord, filter?: BookingRecordFilter): boolean {
+  if (!filter) return true;
+  if (filter.category && record.category !== filter.category) return false;
+  if (filter.businessId && record.businessId !== filter.businessId) return false;
+  if (filter.status && record.status !== filter.status) return false;
+  return true;
+}
+
+// =============================================================================
+// IN-MEMORY STORE
+// =============================================================================
+
+export class InMemoryBookingStore implements BookingStore {
+  private records = new Map<string, BookingRecord>();
+
+  async get(bookingId: string): Promise<BookingRecord | null> {
+    return this.records.get(bookingId) ?? null;
+  }
+
+  async save(record: BookingRecord): Promise<void> {
+    this.records.set(record.bookingId, record);
+  }
+
+  async list(filter?: BookingRecordFilter): Promise<BookingRecord[]> {
+    return Array.from(this.records.values()).filter(record => matchesFilter(record, filter));
+  }
+
+  clear(): void {
+    this.records.clear();
+  }
+}
+
+// =============================================================================
+// FILE-BACKED STORE
+// =============================================================================
+
+export class FileBookingStore implements BookingStore {
+  private readonly file: JsonFileStore<BookingRecord>;
+
+  constructor(filePath: string) {
+    this.file = new JsonFileStore(filePath, record => record.bookingId, 'booking store');
+  }
+
+  get(bookingId: string): Promise<BookingRecord | null> {
+    return this.file.get(bookingId);
+  }
+
+  save(record: BookingRecord): Promise<void> {
+    return this.file.set(record);
+  }
+
+  async list(filter?: BookingRecordFilter): Promise<BookingRecord[]> {
+    const records = await this.file.values();
+    return records.filter(record => matchesFilter(record, filter));
+  }
+}
+
+// =============================================================================
+// SINGLETON INSTANCE
+// =============================================================================
+
+let bookingStoreInstance: BookingStore | null = null;
+
+export function getBookingStore(): BookingStore {
+  if (!bookingStoreInstance) {
+    const filePath = process.env.BOOKING_STORE_PATH || path.join(process.cwd(), '.data', 'bookings.json');
+    bookingStoreInstance = new FileBookingStore(filePath);
+  }
+  return bookingStoreInstance;
+}
+
+export function setBookingStore(store: BookingStore): void {
+  bookingStoreInstance = store;
+}
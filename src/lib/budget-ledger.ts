@@ -0,0 +1,299 @@
+// Trip budget ledger
+// Adds up what an itinerary will cost per day and overall, and checks new picks against what is left
+
+import type { Business, TravelContext, TravelItinerary } from './types';
+import type { TravelCategory } from './decision-engine';
+import { quoteBooking } from './pricing';
+import { BASE_CURRENCY, convertAmount, estimatePerPersonSpend, formatCurrency, isSupportedCurrency } from './currency';
+import { addDays } from './calendar';
+import { toItineraryDate } from './itinerary-export';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type LedgerCategory = 'accommodation' | 'activities' | 'meals' | 'transportation';
+
+export interface LedgerEntry {
+  date: string;
+  category: LedgerCategory;
+  description: string;
+  amount: number;
+  businessId?: string;
+}
+
+export interface DayLedger {
+  date: string;
+  total: number;
+  byCategory: Record<LedgerCategory, number>;
+}
+
+export interface BudgetLedger {
+  currency: string;
+  entries: LedgerEntry[];
+  days: DayLedger[];
+  byCategory: Record<LedgerCategory, number>;
+  total: number;
+  budget?: { min: number; max: number };
+  remaining?: number; // Negative once the plan is over budget
+  overBudget: boolean;
+}
+
+// What is left to spend, in the budget's currency
+export interface BudgetAllowance {
+  currency: string;
+  max: number;
+  spent: number;
+  remaining: number;
+}
+
+export interface BudgetCheck {
+  cost: number;
+  remaining: number;
+  currency: string;
+  exceeds: boolean;
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+const LEDGER_CATEGORIES: LedgerCategory[] = ['accommodation', 'activities', 'meals', 'transportation'];
+
+const roundAmount = (amount: number): number => Math.round(amount * 100) / 100;
+
+function emptyTotals(): Record<LedgerCategory, number> {
+  return { accommodation: 0, activities: 0, meals: 0, transportation: 0 };
+}
+
+// Budgets in a currency we have no rate for can't be compared against USD quotes
+function resolveBudget(travelContext?: Pick<TravelContext, 'budget'>): TravelContext['budget'] | undefined {
+  const budget = travelContext?.budget;
+  if (!budget || typeof budget.max !== 'number') return undefined;
+  return isSupportedCurrency(budget.currency || BASE_CURRENCY) ? budget : undefined;
+}
+
+function roomsFor(groupSize: number): number {
+  return Math.ceil(groupSize / 2);
+}
+
+// =============================================================================
+// LEDGER
+// =============================================================================
+
+/**
+ * Every cost in the itinerary, in USD: each hotel stay spread over its nights, ticketed
+ * activities, typical meal spend and transport fares
+ */
+function collectEntries(itinerary: TravelItinerary, groupSize: number): LedgerEntry[] {
+  const entries: LedgerEntry[] = [];
+
+  itinerary.days.forEach((day, dayIndex) => {
+    const date = toItineraryDate(day.date);
+
+    // One quote per consecutive stay so weekend and season rates match what booking would charge
+    const previousStay = dayIndex > 0 ? itinerary.days[dayIndex - 1].accommodation : undefined;
+    if (day.accommodation && day.accommodation.id !== previousStay?.id) {
+      let lastNight = dayIndex;
+      while (itinerary.days[lastNight + 1]?.accommodation?.id === day.accommodation.id) {
+        lastNight++;
+      }
+
+      const nights = lastNight - dayIndex + 1;
+      const quote = quoteBooking('accommodation', day.accommodation, {
+        date,
+        partySize: groupSize,
+        checkInDate: date,
+        checkOutDate: addDays(toItineraryDate(itinerary.days[lastNight].date), 1),
+        numberOfRooms: roomsFor(groupSize)
+      });
+
+      for (let night = dayIndex; night <= lastNight; night++) {
+        entries.push({
+          date: toItineraryDate(itinerary.days[night].date),
+          category: 'accommodation',
+          description: `${day.accommodation.name} (night ${night - dayIndex + 1} of ${nights})`,
+          amount: quote.total / nights,
+          businessId: day.accommodation.id
+        });
+      }
+    }
+
+    day.activities.forEach(activity => {
+      if (activity.category === 'dining') {
+        entries.push({
+          date,
+          category: 'meals',
+          description: `${activity.activity.name} at ${activity.time}`,
+          amount: estimatePerPersonSpend(activity.activity.price) * groupSize,
+          businessId: activity.activity.id
+        });
+      } else if ((activity.category === 'attraction' || activity.category === 'entertainment') && activity.bookingRequired) {
+        entries.push({
+          date,
+          category: 'activities',
+          description: `${activity.activity.name} at ${activity.time}`,
+          amount: quoteBooking(activity.category, activity.activity, {
+            date,
+            partySize: groupSize,
+            visitTime: activity.time,
+            numberOfTickets: groupSize
+          }).total,
+          businessId: activity.activity.id
+        });
+      }
+    });
+
+    // Fares are entered in USD like every other quote
+    (day.transportation || []).forEach(plan => {
+      if (typeof plan.cost === 'number' && plan.cost > 0) {
+        entries.push({
+          date,
+          category: 'transportation',
+          description: `${plan.type} at ${plan.departureTime}`,
+          amount: plan.cost
+        });
+      }
+    });
+  });
+
+  return entries;
+}
+
+/**
+ * Per-day and trip totals in the traveller's budget currency (USD when none is set)
+ */
+export function buildBudgetLedger(
+  itinerary: TravelItinerary,
+  travelContext: Pick<TravelContext, 'budget' | 'groupSize'> = {}
+): BudgetLedger {
+  const budget = resolveBudget(travelContext);
+  const currency = (budget?.currency || BASE_CURRENCY).toUpperCase();
+  const entries = collectEntries(itinerary, travelContext.groupSize || 1).map(entry => ({
+    ...entry,
+    amount: roundAmount(convertAmount(entry.amount, BASE_CURRENCY, currency))
+  }));
+
+  const days: DayLedger[] = itinerary.days.map(day => {
+    const date = toItineraryDate(day.date);
+    const byCategory = emptyTotals();
+    entries
+      .filter(entry => entry.date === date)
+      .forEach(entry => { byCategory[entry.category] += entry.amount; });
+    LEDGER_CATEGORIES.forEach(category => { byCategory[category] = roundAmount(byCategory[category]); });
+
+    return {
+      date,
+      total: roundAmount(LEDGER_CATEGORIES.reduce((sum, category) => sum + byCategory[category], 0)),
+      byCategory
+    };
+  });
+
+  const byCategory = emptyTotals();
+  entries.forEach(entry => { byCategory[entry.category] += entry.amount; });
+  LEDGER_CATEGORIES.forEach(category => { byCategory[category] = roundAmount(byCategory[category]); });
+  const total = roundAmount(entries.reduce((sum, entry) => sum + entry.amount, 0));
+
+  return {
+    currency,
+    entries,
+    days,
+    byCategory,
+    total,
+    budget: budget ? { min: budget.min, max: budget.max } : undefined,
+    remaining: budget ? roundAmount(budget.max - total) : undefined,
+    overBudget: budget ? total > budget.max : false
+  };
+}
+
+// =============================================================================
+// ENFORCEMENT
+// =============================================================================
+
+/**
+ * How much of the trip budget the current itinerary leaves; null when no usable budget is set
+ */
+export function getBudgetAllowance(travelContext?: TravelContext): BudgetAllowance | null {
+  const budget = resolveBudget(travelContext);
+  if (!budget || !travelContext) return null;
+
+  const currency = (budget.currency || BASE_CURRENCY).toUpperCase();
+  const spent = travelContext.currentItinerary
+    ? buildBudgetLedger(travelContext.currentItinerary, travelContext).total
+    : 0;
+
+  return { currency, max: budget.max, spent, remaining: roundAmount(budget.max - spent) };
+}
+
+/**
+ * Estimated cost of adding one pick to the trip, in USD; null for categories we can't price
+ */
+export function estimatePickCost(
+  category: TravelCategory,
+  business: Business,
+  travelContext: TravelContext = {},
+  date?: string
+): number | null {
+  const groupSize = travelContext.groupSize || 1;
+  const tripStart = travelContext.travelDates ? toItineraryDate(travelContext.travelDates.startDate) : undefined;
+  const visitDate = date || tripStart || toItineraryDate(new Date());
+
+  switch (category) {
+    case 'dining':
+      return estimatePerPersonSpend(business.price) * groupSize;
+    case 'accommodation': {
+      // The whole stay, since a hotel pick covers every night of the trip
+      const checkOutDate = travelContext.travelDates
+        ? toItineraryDate(travelContext.travelDates.endDate)
+        : addDays(visitDate, 1);
+      return quoteBooking('accommodation', business, {
+        date: visitDate,
+        partySize: groupSize,
+        checkInDate: visitDate,
+        checkOutDate: checkOutDate > visitDate ? checkOutDate : addDays(visitDate, 1),
+        numberOfRooms: roomsFor(groupSize)
+      }).total;
+    }
+    case 'attractions':
+    case 'entertainment':
+      return quoteBooking(category === 'attractions' ? 'attraction' : 'entertainment', business, {
+        date: visitDate,
+        partySize: groupSize,
+        numberOfTickets: groupSize
+      }).total;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Compare a pick's estimated cost with the remaining budget
+ */
+export function checkPickAgainstBudget(
+  category: TravelCategory,
+  business: Business,
+  allowance: BudgetAllowance,
+  travelContext?: TravelContext,
+  date?: string
+): BudgetCheck | null {
+  const costUsd = estimatePickCost(category, business, travelContext, date);
+  if (costUsd === null) return null;
+
+  const cost = roundAmount(convertAmount(costUsd, BASE_CURRENCY, allowance.currency));
+  return { cost, remaining: allowance.remaining, currency: allowance.currency, exceeds: cost > allowance.remaining };
+}
+
+/**
+ * Chat-ready warning for a pick that costs more than the budget has left
+ */
+export function describeBudgetWarning(business: Business, check: BudgetCheck, allowance: BudgetAllowance): string {
+  const format = (amount: number) => formatCurrency(amount, check.currency, undefined, { fractionDigits: 0 });
+
+  if (check.remaining <= 0) {
+    return `Heads up: your trip is already ${format(-check.remaining)} over its ${format(allowance.max)} budget, and ${business.name} adds about ${format(check.cost)}.`;
+  }
+  if (allowance.spent <= 0) {
+    return `Heads up: ${business.name} comes to about ${format(check.cost)}, more than your whole ${format(allowance.max)} budget.`;
+  }
+  return `Heads up: ${business.name} comes to about ${format(check.cost)}, but only ${format(check.remaining)} of your ${format(allowance.max)} budget is left.`;
+}
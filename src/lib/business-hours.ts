@@ -0,0 +1,161 @@
+// Opening hours queries over Yelp BusinessHours
+// Answers "is this place open at time T on date D", including spans that run past midnight
+
+import type { Business, BusinessHours } from './types';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface OpenInterval {
+  // Minutes relative to midnight at the start of the queried date; may be negative or exceed 1440
+  start: number;
+  end: number;
+}
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+const MINUTES_PER_DAY = 24 * 60;
+
+// Yelp numbers days from Monday (0) to Sunday (6)
+const YELP_DAY_NAMES = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function parseDate(date: string): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+// Accepts both 'HH:MM' request times and Yelp's 'HHMM'
+function toMinutes(time: string): number {
+  const digits = time.replace(':', '').padStart(4, '0');
+  return Number(digits.slice(0, 2)) * 60 + Number(digits.slice(2, 4));
+}
+
+export function formatMinutes(minutes: number): string {
+  const normalized = ((minutes % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  const hours = Math.floor(normalized / 60).toString().padStart(2, '0');
+  const mins = (normalized % 60).toString().padStart(2, '0');
+  return `${hours}:${mins}`;
+}
+
+export function formatLocalDate(date: Date): string {
+  const month = (date.getMonth() + 1).toString().padStart(2, '0');
+  const day = date.getDate().toString().padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+export function getYelpDay(date: string): number {
+  return (parseDate(date).getDay() + 6) % 7;
+}
+
+function getRegularHours(business: Pick<Business, 'hours'>): BusinessHours | undefined {
+  return business.hours?.find(hours => hours.hours_type === 'REGULAR') ?? business.hours?.[0];
+}
+
+export function hasKnownHours(business: Pick<Business, 'hours'>): boolean {
+  return (getRegularHours(business)?.open.length ?? 0) > 0;
+}
+
+/**
+ * Open intervals touching the given date: the previous day's overnight spans, the day itself and the next morning.
+ * Back-to-back spans (e.g. 1800-0000 followed by 0000-0200) are merged so closing times are never cut short.
+ */
+export function getOpenIntervals(business: Pick<Business, 'hours'>, date: string): OpenInterval[] {
+  const hours = getRegularHours(business);
+  if (!hours) return [];
+
+  const day = getYelpDay(date);
+  const intervals: OpenInterval[] = [];
+
+  [-1, 0, 1].forEach(offset => {
+    const yelpDay = (day + offset + 7) % 7;
+    hours.open
+      .filter(span => span.day === yelpDay)
+      .forEach(span => {
+        const start = toMinutes(span.start);
+        let end = toMinutes(span.end);
+        if (span.is_overnight || end <= start) {
+          end += MINUTES_PER_DAY;
+        }
+        intervals.push({
+          start: start + offset * MINUTES_PER_DAY,
+          end: end + offset * MINUTES_PER_DAY
+        });
+      });
+  });
+
+  intervals.sort((a, b) => a.start - b.start);
+
+  return intervals.reduce<OpenInterval[]>((merged, interval) => {
+    const last = merged[merged.length - 1];
+    if (last && interval.start <= last.end) {
+      last.end = Math.max(last.end, interval.end);
+    } else {
+      merged.push({ ...interval });
+    }
+    return merged;
+  }, []);
+}
+
+// =============================================================================
+// QUERIES
+// =============================================================================
+
+/**
+ * Whether the business is open at `time` on `date`; null when its hours are unknown
+ */
+export function isOpenAt(business: Pick<Business, 'hours'>, date: string, time: string): boolean | null {
+  if (!hasKnownHours(business)) return null;
+
+  const minute = toMinutes(time);
+  return getOpenIntervals(business, date).some(interval => minute >= interval.start && minute < interval.end);
+}
+
+/**
+ * Minutes between `time` and closing; null when closed or the hours are unknown
+ */
+export function getMinutesUntilClose(business: Pick<Business, 'hours'>, date: string, time: string): number | null {
+  const minute = toMinutes(time);
+  const interval = getOpenIntervals(business, date).find(span => minute >= span.start && minute < span.end);
+  return interval ? interval.end - minute : null;
+}
+
+/**
+ * Human-readable opening hours for a date, e.g. "11:00–14:30, 17:00–02:00"
+ */
+export function describeHoursOn(business: Pick<Business, 'hours'>, date: string): string {
+  const intervals = getOpenIntervals(business, date)
+    .filter(interval => interval.start >= 0 && interval.start < MINUTES_PER_DAY);
+
+  if (intervals.length === 0) {
+    return `closed on ${YELP_DAY_NAMES[getYelpDay(date)]}`;
+  }
+
+  return intervals.map(interval => `${formatMinutes(interval.start)}–${formatMinutes(interval.end)}`).join(', ');
+}
+
+/**
+ * Validation message when the business is closed at the requested time; null when open or unknown
+ */
+export function getClosedReason(business: Business, date: string, time: string): string | null {
+  if (isOpenAt(business, date, time) !== false) return null;
+
+  const hours = describeHoursOn(business, date);
+  return hours.startsWith('closed')
+    ? `${business.name} is ${hours}`
+    : `${business.name} is closed at ${time} on ${date} (open ${hours})`;
+}
+
+/**
+ * Yelp's live "open now" flag; null when not reported
+ */
+export function isOpenNow(business: Pick<Business, 'hours'>): boolean | null {
+  const hours = getRegularHours(business);
+  return hours && typeof hours.is_open_now === 'boolean' ? hours.is_open_now : null;
+}
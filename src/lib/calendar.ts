@@ -0,0 +1,282 @@
+// iCalendar (RFC 5545) export for bookings
+// Turns booking ledger records into calendar events users can import
+
+import type { BusinessLocation } from './types';
+import type { BookingRecord } from './booking-store';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface CalendarEvent {
+  uid: string;
+  summary: string;
+  description?: string;
+  location?: string;
+  status?: 'CONFIRMED' | 'TENTATIVE' | 'CANCELLED';
+  // All-day events use 'YYYY-MM-DD' with an exclusive end date; timed events use 'YYYY-MM-DDTHH:MM'
+  start: string;
+  end: string;
+  allDay?: boolean;
+  url?: string;
+}
+
+export interface CalendarOptions {
+  name?: string;
+}
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+const CALENDAR_PRODUCT_ID = '-//Pick For Me//Travel Bookings//EN';
+export const CALENDAR_UID_DOMAIN = 'pickforme.app';
+const MAX_LINE_OCTETS = 75;
+
+// Default event lengths when a booking has no explicit end time
+const EVENT_DURATION_MINUTES: Record<string, number> = {
+  dining: 120,
+  attraction: 120,
+  entertainment: 180,
+  transportation: 60
+};
+
+// =============================================================================
+// DATE HELPERS
+// =============================================================================
+
+function parseLocalDateTime(value: string): Date {
+  const [date, time = '00:00'] = value.split('T');
+  const [year, month, day] = date.split('-').map(Number);
+  const [hours, minutes] = time.split(':').map(Number);
+  return new Date(year, month - 1, day, hours, minutes);
+}
+
+function pad(value: number): string {
+  return value.toString().padStart(2, '0');
+}
+
+function toLocalDateTimeString(date: Date): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+export function addMinutes(dateTime: string, minutes: number): string {
+  const result = parseLocalDateTime(dateTime);
+  result.setMinutes(result.getMinutes() + minutes);
+  return toLocalDateTimeString(result);
+}
+
+export function addDays(date: string, days: number): string {
+  return addMinutes(`${date}T00:00`, days * 24 * 60).split('T')[0];
+}
+
+// Floating local time: the venue's wall-clock time, whatever the viewer's time zone
+function formatDateTimeValue(dateTime: string): string {
+  const date = parseLocalDateTime(dateTime);
+  return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}T${pad(date.getHours())}${pad(date.getMinutes())}00`;
+}
+
+function formatDateValue(date: string): string {
+  return date.replace(/-/g, '');
+}
+
+function formatTimestamp(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+// =============================================================================
+// SERIALIZATION
+// =============================================================================
+
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r\n|\r|\n/g, '\\n');
+}
+
+// URL values are written raw, so only well-formed http(s) links with no line breaks are kept
+export function formatUrlValue(value: string): string | null {
+  try {
+    const url = new URL(value.replace(/[\r\n]/g, ''));
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.toString() : null;
+  } catch {
+    return null;
+  }
+}
+
+// Lines longer than 75 octets are folded with CRLF + space, never splitting a UTF-8 sequence
+export function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+
+  for (const char of line) {
+    const octets = encoder.encode(char).length;
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (currentOctets + octets > limit) {
+      parts.push(current);
+      current = '';
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+}
+
+function serializeEvent(event: CalendarEvent, stamp: string): string[] {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${stamp}`,
+    event.allDay
+      ? `DTSTART;VALUE=DATE:${formatDateValue(event.start)}`
+      : `DTSTART:${formatDateTimeValue(event.start)}`,
+    event.allDay
+      ? `DTEND;VALUE=DATE:${formatDateValue(event.end)}`
+      : `DTEND:${formatDateTimeValue(event.end)}`,
+    `SUMMARY:${escapeText(event.summary)}`
+  ];
+
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  const url = event.url ? formatUrlValue(event.url) : null;
+  if (url) lines.push(`URL:${url}`);
+  if (event.status) lines.push(`STATUS:${event.status}`);
+  if (event.allDay) lines.push('TRANSP:TRANSPARENT');
+
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+export function serializeCalendar(events: CalendarEvent[], options: CalendarOptions = {}): string {
+  const stamp = formatTimestamp(new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${CALENDAR_PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH'
+  ];
+
+  if (options.name) {
+    lines.push(`X-WR-CALNAME:${escapeText(options.name)}`);
+  }
+
+  events.forEach(event => lines.push(...serializeEvent(event, stamp)));
+  lines.push('END:VCALENDAR');
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+// =============================================================================
+// BOOKING EVENTS
+// =============================================================================
+
+export function formatBusinessAddress(location?: Partial<BusinessLocation>): string | undefined {
+  if (!location) return undefined;
+  if (location.display_address && location.display_address.length > 0) {
+    return location.display_address.join(', ');
+  }
+
+  const parts = [location.address1, location.city, location.state, location.zip_code, location.country];
+  const address = parts.filter(Boolean).join(', ');
+  return address || undefined;
+}
+
+function toEventStatus(status: BookingRecord['status']): CalendarEvent['status'] {
+  switch (status) {
+    case 'cancelled':
+      return 'CANCELLED';
+    case 'confirmed':
+      return 'CONFIRMED';
+    default:
+      return 'TENTATIVE';
+  }
+}
+
+export function createBookingEvent(record: BookingRecord): CalendarEvent {
+  const { details } = record;
+  const descriptionLines = [`Confirmation ID: ${record.bookingId}`];
+  let summary: string;
+  let start: string;
+  let end: string;
+  let allDay = false;
+
+  switch (record.category) {
+    case 'accommodation': {
+      // All-day span covering check-in through check-out day
+      const checkIn = details.checkInDate || details.date;
+      const checkOut = details.checkOutDate || addDays(checkIn, 1);
+      summary = `Hotel stay: ${record.businessName}`;
+      start = checkIn;
+      end = addDays(checkOut, 1);
+      allDay = true;
+      descriptionLines.push(`Check-in: ${checkIn}`, `Check-out: ${checkOut}`);
+      if (details.roomType) descriptionLines.push(`Room: ${details.roomType}`);
+      if (details.numberOfRooms) descriptionLines.push(`Rooms: ${details.numberOfRooms}`);
+      break;
+    }
+    case 'transportation': {
+      const departure = `${details.date}T${details.departureTime || '09:00'}`;
+      const type = details.transportationType ? details.transportationType.replace('_', ' ') : 'transport';
+      summary = `Departure (${type}): ${record.businessName}`;
+      start = departure;
+      end = details.arrivalTime && details.arrivalTime > (details.departureTime || '09:00')
+        ? `${details.date}T${details.arrivalTime}`
+        : addMinutes(departure, EVENT_DURATION_MINUTES.transportation);
+      if (details.arrivalTime) descriptionLines.push(`Arrival: ${details.arrivalTime}`);
+      break;
+    }
+    case 'attraction': {
+      start = `${details.date}T${details.visitTime || '10:00'}`;
+      end = addMinutes(start, EVENT_DURATION_MINUTES.attraction);
+      summary = `Visit: ${record.businessName}`;
+      if (details.ticketType) descriptionLines.push(`Ticket: ${details.ticketType}`);
+      break;
+    }
+    case 'entertainment': {
+      start = `${details.date}T${details.preferredTime || details.visitTime || '19:00'}`;
+      end = addMinutes(start, EVENT_DURATION_MINUTES.entertainment);
+      summary = `Event: ${record.businessName}`;
+      break;
+    }
+    default: {
+      start = `${details.date}T${details.preferredTime || '19:00'}`;
+      end = addMinutes(start, EVENT_DURATION_MINUTES.dining);
+      summary = `Reservation at ${record.businessName}`;
+      break;
+    }
+  }
+
+  const guests = details.numberOfTickets || details.partySize;
+  if (guests && record.category !== 'accommodation') {
+    descriptionLines.push(`${record.category === 'dining' ? 'Party size' : 'Tickets'}: ${guests}`);
+  }
+  if (details.specialRequests) descriptionLines.push(`Special requests: ${details.specialRequests}`);
+  if (record.confirmation.cancellationPolicy) {
+    descriptionLines.push(`Cancellation: ${record.confirmation.cancellationPolicy}`);
+  }
+  if (record.business?.display_phone) descriptionLines.push(`Phone: ${record.business.display_phone}`);
+
+  return {
+    uid: `${record.bookingId}@${CALENDAR_UID_DOMAIN}`,
+    summary,
+    description: descriptionLines.join('\n'),
+    location: formatBusinessAddress(record.business?.location) || record.businessName,
+    status: toEventStatus(record.status),
+    start,
+    end,
+    allDay,
+    url: record.business?.url
+  };
+}
+
+export function createBookingCalendar(record: BookingRecord): string {
+  return serializeCalendar([createBookingEvent(record)], { name: record.businessName });
+}
@@ -102,6 +102,22 @@ export const BOOKING_CONFIG = {
   ADVANCE_BOOKING_DAYS: 30,
   MIN_BOOKING_TIME_HOURS: 1, // Minimum 1 hour in advance
   BOOKING_TIMEOUT: 30000, // 30 seconds
+  HOLD_TTL_SECONDS: 300, // 5 minutes, overridable with BOOKING_HOLD_TTL_SECONDS
+  MAX_STAY_NIGHTS: 30,
+} as const;
+
+export const VOTING_CONFIG = {
+  DEFAULT_TTL_MINUTES: 24 * 60, // Sessions stay open for a day unless the creator asks otherwise
+  MAX_TTL_MINUTES: 7 * 24 * 60,
+  MAX_OPTIONS: 6,
+  MAX_PARTICIPANTS: 20,
+} as const;
+
+export const CONVERSATION_CONFIG = {
+  DEFAULT_TITLE: 'New conversation',
+  MAX_TITLE_LENGTH: 80,
+  MAX_MESSAGES: 500, // Per saved conversation
+  AUTOSAVE_DELAY_MS: 1000, // Wait for the chat to settle before saving
 } as const;
 
 export const TIME_SLOTS = [
@@ -257,8 +273,10 @@ export const STORAGE_KEYS = {
   USER_PREFERENCES: 'pick-for-me-preferences',
   USER_LOCATION: 'pick-for-me-location',
   CONVERSATION_HISTORY: 'pick-for-me-conversation',
+  ACTIVE_CONVERSATION: 'pick-for-me-active-conversation', // Suffixed with the user's uid
   THEME: 'pick-for-me-theme',
   CONTACT_INFO: 'pick-for-me-contact',
+  VOTING_PARTICIPANT: 'pick-for-me-voting', // Suffixed with the session id
 } as const;
 
 // =============================================================================
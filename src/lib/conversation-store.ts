@@ -0,0 +1,247 @@
+// Conversation persistence
+// Each signed-in user's chats, saved server-side under their Firebase uid so history survives reloads and devices
+
+import { randomUUID } from 'crypto';
+import path from 'path';
+import type { ConversationMessage, ConversationState } from './types';
+import { CONVERSATION_CONFIG } from './constants';
+import { JsonFileStore } from './json-file-store';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+// Loading flags and errors belong to the live session, not the saved chat
+export type SavedConversationState = Pick<ConversationState, 'messages' | 'context'>;
+
+export interface SavedConversation {
+  id: string;
+  userId: string;
+  title: string;
+  state: SavedConversationState;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// What the sidebar lists, without the full message history
+export interface ConversationSummary {
+  id: string;
+  title: string;
+  preview: string;
+  messageCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ConversationStore {
+  list(userId: string): Promise<SavedConversation[]>;
+  get(userId: string, conversationId: string): Promise<SavedConversation | null>;
+  save(conversation: SavedConversation): Promise<void>;
+  delete(userId: string, conversationId: string): Promise<boolean>;
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+const PREVIEW_LENGTH = 60;
+
+function truncate(text: string, length: number): string {
+  const singleLine = text.replace(/\s+/g, ' ').trim();
+  return singleLine.length > length ? `${singleLine.slice(0, length - 1).trimEnd()}…` : singleLine;
+}
+
+/**
+ * Title from the first thing the user asked, until they rename the chat
+ */
+export function deriveConversationTitle(messages: ConversationMessage[]): string {
+  const firstQuestion = messages.find(message => message.role === 'user' && message.content.trim() !== '');
+  return firstQuestion
+    ? truncate(firstQuestion.content, CONVERSATION_CONFIG.MAX_TITLE_LENGTH)
+    : CONVERSATION_CONFIG.DEFAULT_TITLE;
+}
+
+export function summarizeConversation(conversation: SavedConversation): ConversationSummary {
+  const messages = conversation.state.messages;
+  const lastMessage = messages[messages.length - 1];
+
+  return {
+    id: conversation.id,
+    title: conversation.title,
+    preview: lastMessage ? truncate(lastMessage.content, PREVIEW_LENGTH) : '',
+    messageCount: messages.length,
+    createdAt: conversation.createdAt,
+    updatedAt: conversation.updatedAt
+  };
+}
+
+/**
+ * Shape checks for a title and conversation state sent by the client
+ */
+export function validateConversationUpdate(body: any): { isValid: boolean; errors: string[] } {
+  const errors: string[] = [];
+
+  if (body.title !== undefined) {
+    if (typeof body.title !== 'string' || body.title.trim() === '') {
+      errors.push('title must be a non-empty string');
+    } else if (body.title.trim().length > CONVERSATION_CONFIG.MAX_TITLE_LENGTH) {
+      errors.push(`title must be at most ${CONVERSATION_CONFIG.MAX_TITLE_LENGTH} characters`);
+    }
+  }
+
+  if (body.state !== undefined) {
+    const state = body.state;
+    if (!state || typeof state !== 'object' || !Array.isArray(state.messages)) {
+      errors.push('state.messages must be an array');
+    } else if (state.messages.length > CONVERSATION_CONFIG.MAX_MESSAGES) {
+      errors.push(`state.messages can hold at most ${CONVERSATION_CONFIG.MAX_MESSAGES} messages`);
+    } else if (state.messages.some((message: any) =>
+      !message || (message.role !== 'user' && message.role !== 'assistant') || typeof message.content !== 'string')) {
+      errors.push('Each message requires a role of user or assistant and string content');
+    }
+
+    if (state && typeof state === 'object' && (!state.context || typeof state.context !== 'object')) {
+      errors.push('state.context must be an object');
+    }
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+}
+
+// =============================================================================
+// CONVERSATIONS
+// =============================================================================
+
+export async function createConversation(
+  userId: string,
+  state: SavedConversationState,
+  title?: string
+): Promise<SavedConversation> {
+  const now = new Date().toISOString();
+  const conversation: SavedConversation = {
+    id: randomUUID(),
+    userId,
+    title: title?.trim() || deriveConversationTitle(state.messages),
+    state,
+    createdAt: now,
+    updatedAt: now
+  };
+
+  await getConversationStore().save(conversation);
+  return conversation;
+}
+
+/**
+ * Rename and/or autosave a conversation; an untitled chat picks up its title from the first question
+ */
+export async function updateConversation(
+  conversation: SavedConversation,
+  updates: { title?: string; state?: SavedConversationState }
+): Promise<SavedConversation> {
+  const state = updates.state ?? conversation.state;
+  const title = updates.title?.trim()
+    || (conversation.title === CONVERSATION_CONFIG.DEFAULT_TITLE ? deriveConversationTitle(state.messages) : conversation.title);
+
+  const updated: SavedConversation = {
+    ...conversation,
+    title,
+    state,
+    updatedAt: new Date().toISOString()
+  };
+
+  await getConversationStore().save(updated);
+  return updated;
+}
+
+/**
+ * Most recently active first
+ */
+export async function listConversationSummaries(userId: string): Promise<ConversationSummary[]> {
+  const conversations = await getConversationStore().list(userId);
+  return conversations
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+    .map(summarizeConversation);
+}
+
+// =============================================================================
+// IN-MEMORY STORE
+// =============================================================================
+
+export class InMemoryConversationStore implements ConversationStore {
+  private conversations = new Map<string, SavedConversation>();
+
+  async list(userId: string): Promise<SavedConversation[]> {
+    return Array.from(this.conversations.values()).filter(conversation => conversation.userId === userId);
+  }
+
+  async get(userId: string, conversationId: string): Promise<SavedConversation | null> {
+    const conversation = this.conversations.get(conversationId);
+    return conversation && conversation.userId === userId ? conversation : null;
+  }
+
+  async save(conversation: SavedConversation): Promise<void> {
+    this.conversations.set(conversation.id, conversation);
+  }
+
+  async delete(userId: string, conversationId: string): Promise<boolean> {
+    if (!(await this.get(userId, conversationId))) return false;
+    return this.conversations.delete(conversationId);
+  }
+
+  clear(): void {
+    this.conversations.clear();
+  }
+}
+
+// =============================================================================
+// FILE-BACKED STORE
+// =============================================================================
+
+export class FileConversationStore implements ConversationStore {
+  private readonly file: JsonFileStore<SavedConversation>;
+
+  constructor(filePath: string) {
+    this.file = new JsonFileStore(filePath, conversation => conversation.id, 'conversation store');
+  }
+
+  async list(userId: string): Promise<SavedConversation[]> {
+    const conversations = await this.file.values();
+    return conversations.filter(conversation => conversation.userId === userId);
+  }
+
+  async get(userId: string, conversationId: string): Promise<SavedConversation | null> {
+    const conversation = await this.file.get(conversationId);
+    // Another user's conversation is indistinguishable from a missing one
+    return conversation && conversation.userId === userId ? conversation : null;
+  }
+
+  save(conversation: SavedConversation): Promise<void> {
+    return this.file.set(conversation);
+  }
+
+  async delete(userId: string, conversationId: string): Promise<boolean> {
+    if (!(await this.get(userId, conversationId))) return false;
+    return this.file.delete(conversationId);
+  }
+}
+
+// =============================================================================
+// SINGLETON INSTANCE
+// =============================================================================
+
+let conversationStoreInstance: ConversationStore | null = null;
+
+export function getConversationStore(): ConversationStore {
+  if (!conversationStoreInstance) {
+    const filePath = process.env.CONVERSATION_STORE_PATH || path.join(process.cwd(), '.data', 'conversations.json');
+    conversationStoreInstance = new FileConversationStore(filePath);
+  }
+  return conversationStoreInstance;
+}
+
+export function setConversationStore(store: ConversationStore): void {
+  conversationStoreInstance = store;
+}
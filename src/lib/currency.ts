@@ -0,0 +1,193 @@
+// Currency conversion and formatting
+// Offline USD-based rate table so quotes can be shown in the traveller's budget currency
+
+import type { Business, Location } from './types';
+import type { PriceQuote } from './pricing';
+import { detectRegionFromLocation } from './location-utils';
+
+// =============================================================================
+// RATE TABLE
+// =============================================================================
+
+export const BASE_CURRENCY = 'USD';
+
+// Units of each currency per 1 USD; refreshed manually with each release
+export const EXCHANGE_RATES: Record<string, number> = {
+  USD: 1,
+  CAD: 1.37,
+  EUR: 0.92,
+  GBP: 0.79,
+  MXN: 18.2,
+  JPY: 150.5,
+  AUD: 1.53,
+};
+
+export const EXCHANGE_RATES_AS_OF = '2026-10-01';
+
+const REGION_CURRENCIES: Record<ReturnType<typeof detectRegionFromLocation>, string> = {
+  US: 'USD',
+  CA: 'CAD',
+  UNKNOWN: BASE_CURRENCY,
+};
+
+const REGION_LOCALES: Record<ReturnType<typeof detectRegionFromLocation>, string> = {
+  US: 'en-US',
+  CA: 'en-CA',
+  UNKNOWN: 'en-US',
+};
+
+// Typical spend per person for each Yelp price tier, in USD
+const PRICE_TIER_RANGES: Record<string, [number, number | null]> = {
+  '$': [0, 15],
+  '$$': [15, 30],
+  '$$$': [30, 60],
+  '$$$$': [60, null],
+};
+
+// Own keys only, so a price of "constructor" is an unknown tier rather than an Object.prototype member
+function getPriceTierRange(price: string | undefined): [number, number | null] | undefined {
+  const tier = price?.trim() ?? '';
+  return Object.prototype.hasOwnProperty.call(PRICE_TIER_RANGES, tier) ? PRICE_TIER_RANGES[tier] : undefined;
+}
+
+// =============================================================================
+// CONVERSION
+// =============================================================================
+
+export function isSupportedCurrency(currency: string | undefined): currency is string {
+  return !!currency && currency.toUpperCase() in EXCHANGE_RATES;
+}
+
+export function convertAmount(amount: number, from: string, to: string): number {
+  const fromCode = from.toUpperCase();
+  const toCode = to.toUpperCase();
+
+  if (!isSupportedCurrency(fromCode) || !isSupportedCurrency(toCode)) {
+    throw new Error(`Unsupported currency conversion: ${from} -> ${to}`);
+  }
+
+  if (fromCode === toCode) {
+    return amount;
+  }
+
+  const converted = (amount / EXCHANGE_RATES[fromCode]) * EXCHANGE_RATES[toCode];
+  return Math.round(converted * 100) / 100;
+}
+
+export interface ConvertedPriceQuote extends PriceQuote {
+  originalCurrency?: string;
+  originalTotal?: number;
+  exchangeRate?: number;
+  ratesAsOf?: string;
+}
+
+// Converts every amount in the quote; unsupported currencies leave the quote untouched
+export function convertQuote(quote: PriceQuote, currency: string | undefined): ConvertedPriceQuote {
+  if (!isSupportedCurrency(currency) || currency.toUpperCase() === quote.currency) {
+    return quote;
+  }
+
+  const target = currency.toUpperCase();
+  const convert = (amount: number) => convertAmount(amount, quote.currency, target);
+
+  return {
+    ...quote,
+    currency: target,
+    lineItems: quote.lineItems.map(item => ({
+      ...item,
+      unitPrice: convert(item.unitPrice),
+      amount: convert(item.amount),
+    })),
+    subtotal: convert(quote.subtotal),
+    taxes: convert(quote.taxes),
+    fees: convert(quote.fees),
+    total: convert(quote.total),
+    originalCurrency: quote.currency,
+    originalTotal: quote.total,
+    exchangeRate: convertAmount(1, quote.currency, target),
+    ratesAsOf: EXCHANGE_RATES_AS_OF,
+  };
+}
+
+// =============================================================================
+// REGION DETECTION
+// =============================================================================
+
+function toLocation(business: Pick<Business, 'location' | 'coordinates'>): Location {
+  return {
+    latitude: business.coordinates?.latitude ?? 0,
+    longitude: business.coordinates?.longitude ?? 0,
+    address: business.location?.address1 || '',
+    city: business.location?.city || '',
+    state: business.location?.state || '',
+    country: business.location?.country,
+  };
+}
+
+export function getCurrencyForLocation(location: Location): string {
+  return REGION_CURRENCIES[detectRegionFromLocation(location)];
+}
+
+export function getLocaleForLocation(location: Location): string {
+  return REGION_LOCALES[detectRegionFromLocation(location)];
+}
+
+export function getBusinessCurrencyContext(
+  business: Pick<Business, 'location' | 'coordinates'>
+): { currency: string; locale: string } {
+  const location = toLocation(business);
+  return {
+    currency: getCurrencyForLocation(location),
+    locale: getLocaleForLocation(location),
+  };
+}
+
+// =============================================================================
+// FORMATTING
+// =============================================================================
+
+export function formatCurrency(
+  amount: number,
+  currency: string = BASE_CURRENCY,
+  locale: string = REGION_LOCALES.UNKNOWN,
+  options: { fractionDigits?: number } = {}
+): string {
+  return new Intl.NumberFormat(locale, {
+    style: 'currency',
+    currency: currency.toUpperCase(),
+    minimumFractionDigits: options.fractionDigits,
+    maximumFractionDigits: options.fractionDigits,
+  }).format(amount);
+}
+
+// Approximate per-person spend for a Yelp price tier, e.g. "$15–$30 per person"
+export function formatPriceTierRange(
+  price: string | undefined,
+  currency: string = BASE_CURRENCY,
+  locale: string = REGION_LOCALES.UNKNOWN
+): string | null {
+  const range = getPriceTierRange(price);
+  if (!range || !isSupportedCurrency(currency)) {
+    return null;
+  }
+
+  const format = (amount: number) =>
+    formatCurrency(Math.round(convertAmount(amount, BASE_CURRENCY, currency)), currency, locale, {
+      fractionDigits: 0,
+    });
+
+  const [min, max] = range;
+  if (max === null) {
+    return `${format(min)}+ per person`;
+  }
+  if (min === 0) {
+    return `Under ${format(max)} per person`;
+  }
+  return `${format(min)}–${format(max)} per person`;
+}
+
+// Midpoint per-person spend for a Yelp price tier in USD; unknown tiers count as '$$'
+export function estimatePerPersonSpend(price: string | undefined): number {
+  const [min, max] = getPriceTierRange(price) ?? PRICE_TIER_RANGES['$$'];
+  return max === null ? min * 1.25 : (min + max) / 2;
+}
@@ -0,0 +1,356 @@
+// Hard constraint filtering for restaurant decisions
+// Removes candidates the user cannot or will not go to before any scoring happens
+
+import type {
+  Business,
+  ConstraintRelaxation,
+  ConstraintViolation,
+  DecisionConstraintKey,
+  EliminatedCandidate,
+  Location,
+  PriceRange,
+  UserPreferences
+} from './types';
+import { BOOKING_CONFIG, PRICE_RANGES } from './constants';
+import { calculateDistance, isValidCoordinates } from './location-utils';
+import { getClosedReason } from './business-hours';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+// When the user plans to arrive; without it opening hours are not checked
+export interface DecisionTiming {
+  date: string;
+  time: string;
+}
+
+export interface ConstraintFilterResult {
+  passed: Business[];
+  eliminated: EliminatedCandidate[];
+}
+
+interface DietaryRule {
+  label: string;
+  // Categories that explicitly cater to the restriction always pass
+  supportedBy: string[];
+  // Categories built around food the restriction excludes
+  incompatibleWith: string[];
+  // Certification-style restrictions only pass with an explicit category
+  requiresSupport?: boolean;
+}
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+const KM_TO_MILES = 0.621371;
+// Yelp reports business.distance in meters
+const METERS_PER_MILE = 1609.34;
+
+// Keyed by normalised restriction (lower case, underscores)
+const DIETARY_RULES: Record<string, DietaryRule> = {
+  vegetarian: {
+    label: 'vegetarian',
+    supportedBy: ['vegetarian', 'vegan', 'raw_food'],
+    incompatibleWith: ['steak', 'bbq', 'hotdogs', 'butcher', 'smokehouse', 'chicken_wings']
+  },
+  vegan: {
+    label: 'vegan',
+    supportedBy: ['vegan', 'raw_food'],
+    incompatibleWith: ['steak', 'bbq', 'hotdogs', 'butcher', 'smokehouse', 'chicken_wings', 'seafood', 'cheeseshops']
+  },
+  gluten_free: {
+    label: 'gluten-free',
+    supportedBy: ['gluten_free'],
+    incompatibleWith: ['bakeries', 'bagels', 'donuts', 'pretzels']
+  },
+  halal: {
+    label: 'halal',
+    supportedBy: ['halal'],
+    incompatibleWith: [],
+    requiresSupport: true
+  },
+  kosher: {
+    label: 'kosher',
+    supportedBy: ['kosher'],
+    incompatibleWith: [],
+    requiresSupport: true
+  }
+};
+
+// Counter-service venues rarely seat large groups; everything else is capped by BOOKING_CONFIG
+const PARTY_SIZE_LIMITS: Record<string, number> = {
+  foodtrucks: 4,
+  foodstands: 4,
+  streetvendors: 4,
+  juicebars: 4,
+  bubbletea: 4,
+  coffee: 6,
+  cafes: 6,
+  icecream: 6,
+  desserts: 6
+};
+
+// Constraints worth loosening, cheapest first; dietary needs and closures are never relaxed
+const RELAXABLE_CONSTRAINTS: DecisionConstraintKey[] = ['distance', 'price', 'party_size'];
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function normalizeRestriction(restriction: string): string {
+  return restriction.trim().toLowerCase().replace(/[\s-]+/g, '_');
+}
+
+function categoryAliases(business: Business): string[] {
+  return (business.categories || []).map(category => category.alias.toLowerCase());
+}
+
+function priceLevel(price?: string): number | null {
+  const index = PRICE_RANGES.indexOf(price?.trim() as PriceRange);
+  return index >= 0 ? index + 1 : null;
+}
+
+/**
+ * Distance in miles, computed from coordinates when both ends are known and otherwise taken from
+ * Yelp's search distance. Null without a real user location: 0,0 is the placeholder used when none was given.
+ */
+export function getBusinessDistanceMiles(business: Business, location?: Location): number | null {
+  if (
+    !location ||
+    !isValidCoordinates(location.latitude, location.longitude) ||
+    (location.latitude === 0 && location.longitude === 0)
+  ) {
+    return null;
+  }
+
+  const coords = business.coordinates;
+  if (coords && isValidCoordinates(coords.latitude, coords.longitude)) {
+    return calculateDistance(location.latitude, location.longitude, coords.latitude, coords.longitude) * KM_TO_MILES;
+  }
+
+  return typeof business.distance === 'number' && business.distance > 0 ? business.distance / METERS_PER_MILE : null;
+}
+
+export function getPartySizeLimit(business: Business): number {
+  return categoryAliases(business).reduce<number>(
+    (limit, alias) => Math.min(limit, PARTY_SIZE_LIMITS[alias] ?? limit),
+    BOOKING_CONFIG.MAX_PARTY_SIZE
+  );
+}
+
+// =============================================================================
+// CONSTRAINT CHECKS
+// =============================================================================
+
+function checkDietary(business: Business, restrictions: string[]): ConstraintViolation | null {
+  const aliases = categoryAliases(business);
+  const unmet = restrictions
+    .map(normalizeRestriction)
+    .map(key => DIETARY_RULES[key])
+    .filter((rule): rule is DietaryRule => !!rule)
+    .filter(rule => {
+      if (rule.supportedBy.some(alias => aliases.includes(alias))) return false;
+      if (rule.requiresSupport) return true;
+      return rule.incompatibleWith.some(alias => aliases.includes(alias));
+    });
+
+  if (unmet.length === 0) return null;
+
+  return {
+    constraint: 'dietary',
+    reason: `Not suitable for ${unmet.map(rule => rule.label).join(' and ')} diets`
+  };
+}
+
+function checkDistance(business: Business, maxMiles: number, location?: Location): ConstraintViolation | null {
+  const miles = getBusinessDistanceMiles(business, location);
+  if (miles === null || miles <= maxMiles) return null;
+
+  return {
+    constraint: 'distance',
+    reason: `${miles.toFixed(1)} miles away, beyond your ${maxMiles} mile limit`
+  };
+}
+
+function checkPrice(business: Business, maxPrice: PriceRange): ConstraintViolation | null {
+  const level = priceLevel(business.price);
+  const ceiling = priceLevel(maxPrice);
+  if (level === null || ceiling === null || level <= ceiling) return null;
+
+  return {
+    constraint: 'price',
+    reason: `Priced ${business.price}, above your ${maxPrice} ceiling`
+  };
+}
+
+function checkPartySize(business: Business, partySize: number): ConstraintViolation | null {
+  const limit = getPartySizeLimit(business);
+  if (partySize <= limit) return null;
+
+  return {
+    constraint: 'party_size',
+    reason: `Seats parties of up to ${limit}, not ${partySize}`
+  };
+}
+
+function checkOpen(business: Business, timing?: DecisionTiming): ConstraintViolation | null {
+  if (business.is_closed) {
+    return { constraint: 'closed', reason: 'Marked as closed' };
+  }
+
+  // Without a planned time there is nothing to check hours against; whether it is open
+  // right now says nothing about a visit later in the trip
+  if (!timing) return null;
+
+  const reason = getClosedReason(business, timing.date, timing.time);
+  return reason ? { constraint: 'closed', reason } : null;
+}
+
+export function evaluateConstraints(
+  business: Business,
+  preferences: UserPreferences,
+  location?: Location,
+  timing?: DecisionTiming
+): ConstraintViolation[] {
+  const violations: Array<ConstraintViolation | null> = [checkOpen(business, timing)];
+
+  if (preferences.dietaryRestrictions && preferences.dietaryRestrictions.length > 0) {
+    violations.push(checkDietary(business, preferences.dietaryRestrictions));
+  }
+  if (preferences.distance && preferences.distance > 0) {
+    violations.push(checkDistance(business, preferences.distance, location));
+  }
+  if (preferences.maxPrice) {
+    violations.push(checkPrice(business, preferences.maxPrice));
+  }
+  if (preferences.partySize && preferences.partySize > 0) {
+    violations.push(checkPartySize(business, preferences.partySize));
+  }
+
+  return violations.filter((violation): violation is ConstraintViolation => violation !== null);
+}
+
+/**
+ * Split candidates into those satisfying every hard constraint and those eliminated, with reasons
+ */
+export function applyDecisionConstraints(
+  businesses: Business[],
+  preferences: UserPreferences,
+  location?: Location,
+  timing?: DecisionTiming
+): ConstraintFilterResult {
+  const passed: Business[] = [];
+  const eliminated: EliminatedCandidate[] = [];
+
+  businesses.forEach(business => {
+    const violations = evaluateConstraints(business, preferences, location, timing);
+    if (violations.length === 0) {
+      passed.push(business);
+    } else {
+      eliminated.push({ businessId: business.id, businessName: business.name, violations });
+    }
+  });
+
+  return { passed, eliminated };
+}
+
+// =============================================================================
+// RELAXATION
+// =============================================================================
+
+function describeRelaxation(key: DecisionConstraintKey, before: UserPreferences, after: UserPreferences): string {
+  switch (key) {
+    case 'distance':
+      return `increase your maximum distance from ${before.distance} to ${after.distance} miles`;
+    case 'price':
+      return `raise your price ceiling from ${before.maxPrice} to ${after.maxPrice}`;
+    case 'party_size':
+      return `split your party of ${before.partySize} into tables of ${after.partySize}`;
+    default:
+      return `relax the ${key} requirement`;
+  }
+}
+
+// Smallest change to the preferences that would admit this business
+function relaxFor(
+  business: Business,
+  violations: ConstraintViolation[],
+  preferences: UserPreferences,
+  location?: Location
+): UserPreferences {
+  const relaxed: UserPreferences = { ...preferences };
+
+  violations.forEach(({ constraint }) => {
+    if (constraint === 'distance') {
+      relaxed.distance = Math.ceil(getBusinessDistanceMiles(business, location) ?? 0);
+    } else if (constraint === 'price' && business.price) {
+      relaxed.maxPrice = business.price.trim() as PriceRange;
+    } else if (constraint === 'party_size') {
+      relaxed.partySize = getPartySizeLimit(business);
+    }
+  });
+
+  return relaxed;
+}
+
+/**
+ * The loosening that would admit one eliminated business; null when a violation can't be relaxed
+ */
+export function relaxationFor(
+  business: Business,
+  violations: ConstraintViolation[],
+  preferences: UserPreferences,
+  location?: Location
+): { constraints: DecisionConstraintKey[]; preferences: UserPreferences; suggestion: string } | null {
+  if (!violations.every(v => RELAXABLE_CONSTRAINTS.includes(v.constraint))) return null;
+
+  const constraints = RELAXABLE_CONSTRAINTS.filter(key => violations.some(v => v.constraint === key));
+  const relaxed = relaxFor(business, violations, preferences, location);
+
+  return {
+    constraints,
+    preferences: relaxed,
+    suggestion: constraints.map(key => describeRelaxation(key, preferences, relaxed)).join(' and ')
+  };
+}
+
+/**
+ * Suggest the least disruptive loosening of constraints that leaves at least one option
+ */
+export function suggestRelaxation(
+  businesses: Business[],
+  preferences: UserPreferences,
+  location?: Location,
+  timing?: DecisionTiming
+): ConstraintRelaxation | null {
+  const { eliminated } = applyDecisionConstraints(businesses, preferences, location, timing);
+  const byId = new Map(businesses.map(business => [business.id, business]));
+
+  const candidates = eliminated
+    .map(candidate => {
+      const business = byId.get(candidate.businessId) as Business;
+      const relaxation = relaxationFor(business, candidate.violations, preferences, location);
+      if (!relaxation) return null;
+      return {
+        ...relaxation,
+        // Fewer relaxed constraints first, then the cheapest ones, then the smallest distance increase
+        cost: relaxation.constraints.length * 100
+          + relaxation.constraints.reduce((sum, key) => sum + RELAXABLE_CONSTRAINTS.indexOf(key) * 10, 0)
+          + (getBusinessDistanceMiles(business, location) ?? 0) / 1000
+      };
+    })
+    .filter((candidate): candidate is NonNullable<typeof candidate> => candidate !== null)
+    .sort((a, b) => a.cost - b.cost);
+
+  const best = candidates[0];
+  if (!best) return null;
+
+  return {
+    constraints: best.constraints,
+    suggestion: best.suggestion.charAt(0).toUpperCase() + best.suggestion.slice(1),
+    preferences: best.preferences,
+    unlockedCount: applyDecisionConstraints(businesses, best.preferences, location, timing).passed.length
+  };
+}
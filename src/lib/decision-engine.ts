@@ -8,8 +8,73 @@ import type {
   DecisionResponse,
   DecisionFactor,
   ConversationContext,
-  TravelContext
+  TravelContext,
+  AppliedScoringProfile,
+  EliminatedCandidate,
+  ConstraintRelaxation,
+  LearnedPreferenceModel,
+  ConfidenceBreakdown,
+  ConfidenceComponent,
+  DecisionCounterfactual,
+  DecisionExplanation,
+  ExplanationFactor,
+  GroupMember,
+  PriceRange,
+  ScoringFactorKey,
+  ScoringWeights
 } from './types';
+import { 
+  resolveScoringProfile, 
+  DEFAULT_SCORING_PROFILE, 
+  SCORING_FACTOR_KEYS, 
+  SCORING_FACTOR_NAMES,
+  SCORING_PROFILES 
+} from './scoring-profiles';
+import { applyDecisionConstraints, relaxationFor, suggestRelaxation, DecisionTiming } from './decision-constraints';
+import { formatLocalDate, formatMinutes, getMinutesUntilClose } from './business-hours';
+import { getPreferenceAffinity } from './preference-model';
+import { FEATURE_FLAGS } from './constants';
+import { formatCurrency } from './currency';
+import {
+  checkPickAgainstBudget,
+  describeBudgetWarning,
+  getBudgetAllowance,
+  BudgetAllowance,
+  BudgetCheck
+} from './budget-ledger';
+import { selectDiverseAlternatives } from './diversification';
+import {
+  aggregateGroupScore,
+  applySharedConstraints,
+  describeGroupOutcome,
+  getMemberSatisfaction,
+  mergeGroupPreferences,
+  DEFAULT_GROUP_AGGREGATION
+} from './group-decision';
+
+// A visit needs this long before closing; anything shorter is penalised proportionally
+const CLOSES_SOON_WINDOW_MINUTES = 90;
+const CLOSES_SOON_PENALTY = 0.2;
+
+// Confidence is a weighted geometric mean, so one weak input (e.g. two reviews) drags the whole figure down
+const CONFIDENCE_WEIGHTS = { score_gap: 0.35, review_volume: 0.3, data_completeness: 0.2, candidate_count: 0.15 };
+const MAX_CONFIDENCE = 0.98;
+const MIN_CONFIDENCE = 0.3;
+const CONFIDENT_REVIEW_COUNT = 200;
+
+// Share of the score given to learned preferences once the model is fully confident
+const LEARNED_PREFERENCE_WEIGHT = 0.15;
+
+// Most a pick can lose for costing more than the remaining trip budget; scaled by how much it overshoots
+const BUDGET_OVERRUN_PENALTY = 0.3;
+const BUDGET_FACTOR_NAME = 'Over Budget';
+
+// Share of the score moved by the conversation context adjustment
+const CONTEXT_ADJUSTMENT_WEIGHT = 0.1;
+
+// Runners-up checked for "would have picked X if..." counterfactuals, and how many to report
+const COUNTERFACTUAL_CANDIDATES = 5;
+const MAX_COUNTERFACTUALS = 3;
 
 // =============================================================================
 // TRAVEL DECISION TYPES
@@ -26,6 +91,29 @@ export interface TravelDecisionResponse extends DecisionResponse {
   category: TravelCategory;
 }
 
+// Everything in a decision request besides the candidates, preferences and location
+export type DecisionOptions = Omit<DecisionRequest, 'businesses' | 'userPreferences' | 'location'>;
+
+interface DiningScoringOptions {
+  timing?: DecisionTiming;
+  learnedPreferences?: LearnedPreferenceModel;
+  budget?: BudgetScoring; // Checked for every category, not just dining
+}
+
+// Remaining trip budget that each candidate's estimated cost is checked against
+interface BudgetScoring {
+  allowance: BudgetAllowance;
+  category: TravelCategory;
+  travelContext?: TravelContext;
+  date?: string;
+}
+
+interface ScoredCandidate {
+  business: Business;
+  score: number;
+  factors: DecisionFactor[];
+}
+
 // =============================================================================
 // DECISION ENGINE CORE
 // =============================================================================
@@ -44,20 +132,46 @@ export class DecisionEngine {
    * Main travel decision-making method that handles all travel categories
    */
   async selectBestTravelOption(request: TravelDecisionRequest): Promise<TravelDecisionResponse> {
-    const { businesses, userPreferences, location, conversationContext, category, travelContext } = request;
+    const { userPreferences, location, conversationContext, category, travelContext } = request;
 
-    if (!businesses || businesses.length === 0) {
+    if (!request.businesses || request.businesses.length === 0) {
       throw new Error(`No ${category} options provided for decision making`);
     }
 
+    if (category === 'dining' && request.groupMembers && request.groupMembers.length > 0) {
+      return { ...this.selectBestForGroup(request, request.groupMembers), category };
+    }
+
+    // Scoring profiles and dining constraints only apply to dining; other categories keep their fixed weights
+    const scoringProfile = category === 'dining' ? this.resolveScoring(request) : undefined;
+    const weights = scoringProfile?.weights;
+    const scoringOptions: DiningScoringOptions = {
+      ...(category === 'dining' ? this.resolveScoringOptions(request) : {}),
+      budget: this.resolveBudget(request, category, travelContext)
+    };
+    const { businesses, eliminated } = category === 'dining'
+      ? this.filterCandidates(request)
+      : { businesses: request.businesses, eliminated: undefined };
+
     // If only one option, return it with basic reasoning
     if (businesses.length === 1) {
+      const factors = this.calculateTravelFactors(businesses[0], category, userPreferences, location, travelContext, weights, scoringOptions);
       return {
         selectedBusiness: businesses[0],
         reasoning: `I selected ${businesses[0].name} as it's the only ${category} option that matches your criteria.`,
-        confidence: 0.8,
+        ...this.calculateConfidence([{ business: businesses[0], score: 0 }]),
         alternatives: [],
-        factors: this.calculateTravelFactors(businesses[0], category, userPreferences, location, travelContext),
+        factors,
+        scoringProfile,
+        eliminated,
+        explanation: request.explain
+          ? this.explainDecision(request, category, [{
+            business: businesses[0],
+            score: this.calculateTravelScore(businesses[0], category, userPreferences, location, conversationContext, travelContext, weights, scoringOptions),
+            factors
+          }], scoringProfile, scoringOptions, eliminated)
+          : undefined,
+        budgetWarning: this.getBudgetWarning(businesses[0], scoringOptions.budget),
         category
       };
     }
@@ -65,15 +179,17 @@ export class DecisionEngine {
     // Score all options based on category
     const scoredBusinesses = businesses.map(business => ({
       business,
-      score: this.calculateTravelScore(business, category, userPreferences, location, conversationContext, travelContext),
-      factors: this.calculateTravelFactors(business, category, userPreferences, location, travelContext)
+      score: this.calculateTravelScore(business, category, userPreferences, location, conversationContext, travelContext, weights, scoringOptions),
+      factors: this.calculateTravelFactors(business, category, userPreferences, location, travelContext, weights, scoringOptions)
     }));
 
     // Sort by score (highest first)
     scoredBusinesses.sort((a, b) => b.score - a.score);
 
     const selected = scoredBusinesses[0];
-    const alternatives = scoredBusinesses.slice(1, 4).map(item => item.business); // Top 3 alternatives
+    // Three alternatives that differ from the pick and from each other
+    const alternativeDetails = selectDiverseAlternatives(scoredBusinesses, 3);
+    const alternatives = alternativeDetails.map(item => item.business);
 
     // Generate category-specific reasoning
     const reasoning = this.generateTravelReasoning(
@@ -85,15 +201,23 @@ export class DecisionEngine {
       conversationContext
     );
 
-    // Calculate confidence based on score difference
-    const confidence = this.calculateConfidence(scoredBusinesses);
+    // Calibrate confidence from the score gap and the quality of the underlying data
+    const { confidence, confidenceBreakdown } = this.calculateConfidence(scoredBusinesses);
 
     return {
       selectedBusiness: selected.business,
       reasoning,
       confidence,
+      confidenceBreakdown,
       alternatives,
+      alternativeDetails,
       factors: selected.factors,
+      scoringProfile,
+      eliminated,
+      explanation: request.explain
+        ? this.explainDecision(request, category, scoredBusinesses, scoringProfile, scoringOptions, eliminated)
+        : undefined,
+      budgetWarning: this.getBudgetWarning(selected.business, scoringOptions.budget),
       category
     };
   }
@@ -102,35 +226,59 @@ export class DecisionEngine {
    * Main decision-making method that selects the best restaurant (legacy method)
    */
   async selectBestRestaurant(request: DecisionRequest): Promise<DecisionResponse> {
-    const { businesses, userPreferences, location, conversationContext } = request;
+    const { userPreferences, location, conversationContext } = request;
 
-    if (!businesses || businesses.length === 0) {
+    if (!request.businesses || request.businesses.length === 0) {
       throw new Error('No restaurants provided for decision making');
     }
 
+    if (request.groupMembers && request.groupMembers.length > 0) {
+      return this.selectBestForGroup(request, request.groupMembers);
+    }
+
+    const scoringProfile = this.resolveScoring(request);
+    const scoringOptions: DiningScoringOptions = {
+      ...this.resolveScoringOptions(request),
+      budget: this.resolveBudget(request, 'dining')
+    };
+    const { businesses, eliminated } = this.filterCandidates(request);
+
     // If only one restaurant, return it with basic reasoning
     if (businesses.length === 1) {
+      const factors = this.calculateFactors(businesses[0], userPreferences, location, scoringProfile.weights, scoringOptions);
       return {
         selectedBusiness: businesses[0],
         reasoning: `I selected ${businesses[0].name} as it's the only option that matches your criteria.`,
-        confidence: 0.8,
+        ...this.calculateConfidence([{ business: businesses[0], score: 0 }]),
         alternatives: [],
-        factors: this.calculateFactors(businesses[0], userPreferences, location)
+        factors,
+        scoringProfile,
+        eliminated,
+        explanation: request.explain
+          ? this.explainDecision(request, 'dining', [{
+            business: businesses[0],
+            score: this.calculateBusinessScore(businesses[0], userPreferences, location, conversationContext, scoringProfile.weights, scoringOptions),
+            factors
+          }], scoringProfile, scoringOptions, eliminated)
+          : undefined,
+        budgetWarning: this.getBudgetWarning(businesses[0], scoringOptions.budget)
       };
     }
 
     // Score all restaurants
     const scoredBusinesses = businesses.map(business => ({
       business,
-      score: this.calculateBusinessScore(business, userPreferences, location, conversationContext),
-      factors: this.calculateFactors(business, userPreferences, location)
+      score: this.calculateBusinessScore(business, userPreferences, location, conversationContext, scoringProfile.weights, scoringOptions),
+      factors: this.calculateFactors(business, userPreferences, location, scoringProfile.weights, scoringOptions)
     }));
 
     // Sort by score (highest first)
     scoredBusinesses.sort((a, b) => b.score - a.score);
 
     const selected = scoredBusinesses[0];
-    const alternatives = scoredBusinesses.slice(1, 4).map(item => item.business); // Top 3 alternatives
+    // Three alternatives that differ from the pick and from each other
+    const alternativeDetails = selectDiverseAlternatives(scoredBusinesses, 3);
+    const alternatives = alternativeDetails.map(item => item.business);
 
     // Generate reasoning
     const reasoning = this.generateReasoning(
@@ -140,18 +288,207 @@ export class DecisionEngine {
       conversationContext
     );
 
-    // Calculate confidence based on score difference
-    const confidence = this.calculateConfidence(scoredBusinesses);
+    // Calibrate confidence from the score gap and the quality of the underlying data
+    const { confidence, confidenceBreakdown } = this.calculateConfidence(scoredBusinesses);
 
     return {
       selectedBusiness: selected.business,
       reasoning,
       confidence,
+      confidenceBreakdown,
       alternatives,
-      factors: selected.factors
+      alternativeDetails,
+      factors: selected.factors,
+      scoringProfile,
+      eliminated,
+      explanation: request.explain
+        ? this.explainDecision(request, 'dining', scoredBusinesses, scoringProfile, scoringOptions, eliminated)
+        : undefined,
+      budgetWarning: this.getBudgetWarning(selected.business, scoringOptions.budget)
+    };
+  }
+
+  /**
+   * Group mode: score each restaurant for every member and aggregate with the requested strategy
+   */
+  private selectBestForGroup(request: DecisionRequest, members: GroupMember[]): DecisionResponse {
+    const { location, conversationContext } = request;
+    const aggregation = request.groupAggregation ?? DEFAULT_GROUP_AGGREGATION;
+    const scoringProfile = this.resolveScoring(request);
+
+    // Learned preferences belong to the requester alone, so they don't sway a group pick
+    const scoringOptions: DiningScoringOptions = { ...this.resolveScoringOptions(request), learnedPreferences: undefined };
+
+    // Everyone's hard constraints apply to the whole table
+    const sharedPreferences = mergeGroupPreferences(request.userPreferences, members);
+    const { businesses, eliminated } = this.filterCandidates({ ...request, userPreferences: sharedPreferences });
+
+    const scoredBusinesses = businesses.map(business => {
+      const memberScores = members.map(member =>
+        this.calculateBusinessScore(
+          business,
+          member.preferences,
+          location,
+          conversationContext,
+          scoringProfile.weights,
+          scoringOptions
+        )
+      );
+      const satisfaction = getMemberSatisfaction(members, memberScores);
+      const score = aggregateGroupScore(memberScores, aggregation);
+      const approvals = satisfaction.filter(member => member.approves).length;
+
+      return {
+        business,
+        score,
+        satisfaction,
+        factors: [
+          ...this.calculateFactors(business, sharedPreferences, location, scoringProfile.weights, scoringOptions),
+          {
+            name: 'Group Fit',
+            weight: 1,
+            score,
+            description: `${approvals} of ${members.length} members happy, lowest fit ${Math.round(Math.min(...memberScores) * 100)}%`
+          }
+        ]
+      };
+    });
+
+    scoredBusinesses.sort((a, b) => b.score - a.score);
+
+    const selected = scoredBusinesses[0];
+    const alternativeDetails = selectDiverseAlternatives(scoredBusinesses, 3);
+    const reasoning = `${this.generateReasoning(
+      selected.business,
+      selected.factors.filter(factor => factor.name !== 'Group Fit'),
+      sharedPreferences,
+      conversationContext
+    )} ${describeGroupOutcome(aggregation, selected.satisfaction)}`;
+
+    return {
+      selectedBusiness: selected.business,
+      reasoning,
+      ...this.calculateConfidence(scoredBusinesses),
+      alternatives: alternativeDetails.map(item => item.business),
+      alternativeDetails,
+      factors: selected.factors,
+      scoringProfile,
+      eliminated,
+      group: {
+        aggregation,
+        groupScore: Math.round(selected.score * 1000) / 1000,
+        members: selected.satisfaction
+      }
+    };
+  }
+
+  /**
+   * Remove candidates that violate hard constraints before any scoring happens
+   */
+  private filterCandidates(request: DecisionRequest): { businesses: Business[]; eliminated: EliminatedCandidate[] } {
+    const { passed, eliminated } = applyDecisionConstraints(
+      request.businesses,
+      request.userPreferences,
+      request.location,
+      this.resolveTiming(request)
+    );
+
+    if (passed.length === 0) {
+      const reasons = Array.from(new Set(eliminated.flatMap(candidate => candidate.violations.map(v => v.constraint))));
+      throw new Error(`No options satisfy your requirements (eliminated by: ${reasons.join(', ')})`);
+    }
+
+    return { businesses: passed, eliminated };
+  }
+
+  /**
+   * Resolve the scoring profile and weight overrides requested by the caller
+   */
+  private resolveScoring(request: DecisionRequest): AppliedScoringProfile {
+    const resolution = resolveScoringProfile(request.scoringProfile, request.scoringWeights);
+    if (!resolution.isValid) {
+      throw new Error(`Invalid scoring configuration: ${resolution.errors.join('; ')}`);
+    }
+    return resolution.profile;
+  }
+
+  /**
+   * Planned arrival for hours checks; a time without a date means today
+   */
+  private resolveTiming(request: DecisionRequest): DecisionTiming | undefined {
+    if (!request.preferredTime) return undefined;
+    return {
+      date: request.preferredDate || formatLocalDate(new Date()),
+      time: request.preferredTime
+    };
+  }
+
+  private resolveScoringOptions(request: DecisionRequest): DiningScoringOptions {
+    return {
+      timing: this.resolveTiming(request),
+      learnedPreferences: FEATURE_FLAGS.ENABLE_PREFERENCE_LEARNING ? request.learnedPreferences : undefined
+    };
+  }
+
+  /**
+   * Minutes of the visit window left before closing, or null when it isn't tight
+   */
+  private getClosingSoonMinutes(business: Business, timing?: DecisionTiming): number | null {
+    if (!timing) return null;
+    const minutesLeft = getMinutesUntilClose(business, timing.date, timing.time);
+    return minutesLeft !== null && minutesLeft < CLOSES_SOON_WINDOW_MINUTES ? minutesLeft : null;
+  }
+
+  /**
+   * Remaining trip budget, from the request's travel context or the conversation's
+   */
+  private resolveBudget(
+    request: DecisionRequest,
+    category: TravelCategory,
+    travelContext?: TravelContext
+  ): BudgetScoring | undefined {
+    const context = travelContext ?? request.conversationContext?.travelContext;
+    const allowance = getBudgetAllowance(context);
+    return allowance ? { allowance, category, travelContext: context, date: request.preferredDate } : undefined;
+  }
+
+  /**
+   * The budget check for a candidate that costs more than is left, otherwise null
+   */
+  private getBudgetOverrun(business: Business, budget?: BudgetScoring): BudgetCheck | null {
+    if (!budget) return null;
+    const check = checkPickAgainstBudget(budget.category, business, budget.allowance, budget.travelContext, budget.date);
+    return check && check.exceeds ? check : null;
+  }
+
+  // Share of the cost the remaining budget still covers
+  private getBudgetCoverage(check: BudgetCheck): number {
+    return check.cost > 0 ? Math.min(1, Math.max(0, check.remaining / check.cost)) : 1;
+  }
+
+  private getBudgetFactor(business: Business, budget?: BudgetScoring): DecisionFactor | null {
+    const overrun = this.getBudgetOverrun(business, budget);
+    if (!overrun) return null;
+
+    const format = (amount: number) => formatCurrency(amount, overrun.currency, undefined, { fractionDigits: 0 });
+    return {
+      name: BUDGET_FACTOR_NAME,
+      weight: BUDGET_OVERRUN_PENALTY,
+      score: this.getBudgetCoverage(overrun),
+      description: `About ${format(overrun.cost)} with ${format(Math.max(0, overrun.remaining))} left in your budget`
     };
   }
 
+  private getBudgetPenalty(business: Business, budget?: BudgetScoring): number {
+    const overrun = this.getBudgetOverrun(business, budget);
+    return overrun ? BUDGET_OVERRUN_PENALTY * (1 - this.getBudgetCoverage(overrun)) : 0;
+  }
+
+  private getBudgetWarning(business: Business, budget?: BudgetScoring): string | undefined {
+    const overrun = this.getBudgetOverrun(business, budget);
+    return overrun && budget ? describeBudgetWarning(business, overrun, budget.allowance) : undefined;
+  }
+
   /**
    * Calculate overall score for a business
    */
@@ -159,48 +496,119 @@ export class DecisionEngine {
     business: Business,
     preferences: UserPreferences,
     location: Location,
-    context?: ConversationContext
+    context?: ConversationContext,
+    weights: ScoringWeights = SCORING_PROFILES[DEFAULT_SCORING_PROFILE].weights,
+    options: DiningScoringOptions = {}
   ): number {
-    let totalScore = 0;
-    let totalWeight = 0;
-
-    // Rating factor (30% weight)
-    const ratingWeight = 0.3;
-    const ratingScore = this.normalizeRating(business.rating);
-    totalScore += ratingScore * ratingWeight;
-    totalWeight += ratingWeight;
-
-    // Price preference factor (25% weight)
-    const priceWeight = 0.25;
-    const priceScore = this.calculatePriceScore(business.price, preferences.priceRange || '$$');
-    totalScore += priceScore * priceWeight;
-    totalWeight += priceWeight;
-
-    // Distance factor (20% weight)
-    const distanceWeight = 0.2;
-    const distanceScore = this.calculateDistanceScore(business.distance || 0);
-    totalScore += distanceScore * distanceWeight;
-    totalWeight += distanceWeight;
+    return this.traceBusinessScore(business, preferences, location, context, weights, options)
+      .reduce((score, factor) => score + factor.contribution, 0);
+  }
 
-    // Cuisine preference factor (15% weight)
-    const cuisineWeight = 0.15;
-    const cuisineScore = this.calculateCuisineScore(business.categories, preferences.cuisineTypes || []);
-    totalScore += cuisineScore * cuisineWeight;
-    totalWeight += cuisineWeight;
+  /**
+   * Break a dining score down into per-factor contributions that sum to the final score
+   */
+  private traceBusinessScore(
+    business: Business,
+    preferences: UserPreferences,
+    location: Location,
+    context?: ConversationContext,
+    weights: ScoringWeights = SCORING_PROFILES[DEFAULT_SCORING_PROFILE].weights,
+    options: DiningScoringOptions = {}
+  ): ExplanationFactor[] {
+    const factorScores = this.calculateDiningFactorScores(business, preferences);
+    const totalWeight = SCORING_FACTOR_KEYS.reduce((sum, key) => sum + weights[key], 0);
+
+    // Blend in what the user has picked before, in proportion to how much evidence there is
+    const affinity = options.learnedPreferences
+      ? getPreferenceAffinity(options.learnedPreferences, business)
+      : null;
+    const learnedWeight = affinity ? LEARNED_PREFERENCE_WEIGHT * affinity.confidence : 0;
+
+    // Weighted factors are averaged, then scaled down to make room for learned preferences
+    const scale = totalWeight > 0 ? (1 - learnedWeight) / totalWeight : 0;
+
+    const rawInputs: Record<ScoringFactorKey, string | number | null> = {
+      rating: business.rating,
+      price: business.price || null,
+      distance: business.distance || null,
+      cuisine: business.categories.map(c => c.title).join(', ') || null,
+      popularity: business.review_count
+    };
 
-    // Review count factor (10% weight) - popularity indicator
-    const popularityWeight = 0.1;
-    const popularityScore = this.calculatePopularityScore(business.review_count);
-    totalScore += popularityScore * popularityWeight;
-    totalWeight += popularityWeight;
+    const trace: ExplanationFactor[] = SCORING_FACTOR_KEYS.map(key => ({
+      name: SCORING_FACTOR_NAMES[key],
+      rawInput: rawInputs[key],
+      score: factorScores[key],
+      weight: weights[key],
+      contribution: factorScores[key] * weights[key] * scale
+    }));
 
     // Context-based adjustments
     if (context) {
       const contextAdjustment = this.calculateContextAdjustment(business, context);
-      totalScore += contextAdjustment * 0.1; // 10% adjustment
+      if (contextAdjustment !== 0) {
+        trace.push({
+          name: 'Conversation Context',
+          rawInput: context.lastUserQuery ?? null,
+          score: contextAdjustment,
+          weight: CONTEXT_ADJUSTMENT_WEIGHT,
+          contribution: contextAdjustment * CONTEXT_ADJUSTMENT_WEIGHT * scale
+        });
+      }
     }
 
-    return totalWeight > 0 ? totalScore / totalWeight : 0;
+    if (affinity) {
+      trace.push({
+        name: 'Your History',
+        rawInput: affinity.matches.join(', ') || null,
+        score: affinity.score,
+        weight: learnedWeight,
+        contribution: affinity.score * learnedWeight
+      });
+    }
+
+    // Penalise arriving shortly before closing
+    const minutesLeft = this.getClosingSoonMinutes(business, options.timing);
+    if (minutesLeft !== null) {
+      trace.push({
+        name: 'Closing Time',
+        rawInput: minutesLeft,
+        score: minutesLeft / CLOSES_SOON_WINDOW_MINUTES,
+        weight: CLOSES_SOON_PENALTY,
+        contribution: -CLOSES_SOON_PENALTY * (1 - minutesLeft / CLOSES_SOON_WINDOW_MINUTES)
+      });
+    }
+
+    // Penalise picks that cost more than the trip budget has left
+    const overrun = this.getBudgetOverrun(business, options.budget);
+    if (overrun) {
+      const coverage = this.getBudgetCoverage(overrun);
+      trace.push({
+        name: BUDGET_FACTOR_NAME,
+        rawInput: overrun.cost,
+        score: coverage,
+        weight: BUDGET_OVERRUN_PENALTY,
+        contribution: -BUDGET_OVERRUN_PENALTY * (1 - coverage)
+      });
+    }
+
+    return trace;
+  }
+
+  /**
+   * Score each dining factor on a 0-1 scale
+   */
+  private calculateDiningFactorScores(
+    business: Business,
+    preferences: UserPreferences
+  ): Record<ScoringFactorKey, number> {
+    return {
+      rating: this.normalizeRating(business.rating),
+      price: this.calculatePriceScore(business.price, preferences.priceRange || '$$'),
+      distance: this.calculateDistanceScore(business.distance || 0),
+      cuisine: this.calculateCuisineScore(business.categories, preferences.cuisineTypes || []),
+      popularity: this.calculatePopularityScore(business.review_count)
+    };
   }
 
   /**
@@ -209,49 +617,74 @@ export class DecisionEngine {
   private calculateFactors(
     business: Business,
     preferences: UserPreferences,
-    location: Location
+    location: Location,
+    weights: ScoringWeights = SCORING_PROFILES[DEFAULT_SCORING_PROFILE].weights,
+    options: DiningScoringOptions = {}
   ): DecisionFactor[] {
-    const factors: DecisionFactor[] = [];
-
-    // Rating factor
-    factors.push({
-      name: 'Rating',
-      weight: 0.3,
-      score: this.normalizeRating(business.rating),
-      description: `${business.rating}/5 stars with ${business.review_count} reviews`
-    });
-
-    // Price factor
-    factors.push({
-      name: 'Price Match',
-      weight: 0.25,
-      score: this.calculatePriceScore(business.price, preferences.priceRange || '$$'),
-      description: `${business.price} price range (preference: ${preferences.priceRange || '$$'})`
-    });
+    const { timing } = options;
+    const scores = this.calculateDiningFactorScores(business, preferences);
+    const factors: DecisionFactor[] = [
+      {
+        name: 'Rating',
+        weight: weights.rating,
+        score: scores.rating,
+        description: `${business.rating}/5 stars with ${business.review_count} reviews`
+      },
+      {
+        name: 'Price Match',
+        weight: weights.price,
+        score: scores.price,
+        description: `${business.price} price range (preference: ${preferences.priceRange || '$$'})`
+      },
+      {
+        name: 'Distance',
+        weight: weights.distance,
+        score: scores.distance,
+        description: business.distance ? `${business.distance.toFixed(1)} miles away` : 'Distance unknown'
+      },
+      {
+        name: 'Cuisine Match',
+        weight: weights.cuisine,
+        score: scores.cuisine,
+        description: `Serves ${business.categories.map(c => c.title).join(', ')}`
+      },
+      {
+        name: 'Popularity',
+        weight: weights.popularity,
+        score: scores.popularity,
+        description: `${business.review_count} reviews indicate popularity`
+      }
+    ];
 
-    // Distance factor
-    factors.push({
-      name: 'Distance',
-      weight: 0.2,
-      score: this.calculateDistanceScore(business.distance || 0),
-      description: business.distance ? `${business.distance.toFixed(1)} miles away` : 'Distance unknown'
-    });
+    const affinity = options.learnedPreferences
+      ? getPreferenceAffinity(options.learnedPreferences, business)
+      : null;
+    if (affinity) {
+      factors.push({
+        name: 'Your History',
+        weight: Math.round(LEARNED_PREFERENCE_WEIGHT * affinity.confidence * 1000) / 1000,
+        score: affinity.score,
+        description: affinity.matches.length > 0
+          ? `Matches what you've picked before: ${affinity.matches.join(', ')}`
+          : 'Different from what you usually pick'
+      });
+    }
 
-    // Cuisine factor
-    factors.push({
-      name: 'Cuisine Match',
-      weight: 0.15,
-      score: this.calculateCuisineScore(business.categories, preferences.cuisineTypes || []),
-      description: `Serves ${business.categories.map(c => c.title).join(', ')}`
-    });
+    const minutesLeft = this.getClosingSoonMinutes(business, timing);
+    if (minutesLeft !== null && timing) {
+      const [hours, minutes] = timing.time.split(':').map(Number);
+      factors.push({
+        name: 'Closing Time',
+        weight: CLOSES_SOON_PENALTY,
+        score: minutesLeft / CLOSES_SOON_WINDOW_MINUTES,
+        description: `Closes at ${formatMinutes(hours * 60 + minutes + minutesLeft)}, ${minutesLeft} minutes after you arrive`
+      });
+    }
 
-    // Popularity factor
-    factors.push({
-      name: 'Popularity',
-      weight: 0.1,
-      score: this.calculatePopularityScore(business.review_count),
-      description: `${business.review_count} reviews indicate popularity`
-    });
+    const budgetFactor = this.getBudgetFactor(business, options.budget);
+    if (budgetFactor) {
+      factors.push(budgetFactor);
+    }
 
     return factors;
   }
@@ -316,29 +749,245 @@ export class DecisionEngine {
   /**
    * Calculate confidence based on score distribution with enhanced AI confidence
    */
-  private calculateConfidence(scoredBusinesses: Array<{ score: number }>): number {
-    if (scoredBusinesses.length < 2) return 0.85; // Higher base confidence for single option
+  private calculateConfidence(
+    scoredBusinesses: Array<{ business: Business; score: number }>
+  ): { confidence: number; confidenceBreakdown: ConfidenceBreakdown } {
+    const top = scoredBusinesses[0];
+    const candidateCount = scoredBusinesses.length;
 
-    const topScore = scoredBusinesses[0].score;
-    const secondScore = scoredBusinesses[1].score;
-    const scoreDifference = topScore - secondScore;
+    // A clear gap to the runner-up means the pick is not a coin toss; a lone option proves little
+    const scoreDifference = candidateCount > 1 ? top.score - scoredBusinesses[1].score : 0;
+    const gapValue = candidateCount > 1 ? Math.min(1, 0.4 + scoreDifference * 4) : 0.6;
 
-    // Enhanced confidence calculation for AI decision delegation
-    // Higher difference = higher confidence
-    // Scale from 0.65 (moderate confidence) to 0.98 (very high confidence)
-    let confidence = Math.min(0.98, 0.65 + (scoreDifference * 2.5));
-    
-    // Boost confidence if top choice has excellent rating
-    if (topScore > 0.8) {
-      confidence = Math.min(0.98, confidence + 0.1);
-    }
-    
-    // Boost confidence if there's a clear winner
-    if (scoreDifference > 0.3) {
-      confidence = Math.min(0.98, confidence + 0.05);
+    // Ratings built on a handful of reviews are noisy
+    const reviewCount = top.business.review_count || 0;
+    const reviewValue = Math.max(0.1, Math.min(1, Math.log10(reviewCount + 1) / Math.log10(CONFIDENT_REVIEW_COUNT + 1)));
+
+    const missingFields = this.findMissingFields(top.business);
+    const completenessValue = Math.max(0.25, 1 - missingFields.length * 0.2);
+
+    const candidateValue = Math.min(1, 0.2 + candidateCount * 0.16);
+
+    const components: ConfidenceComponent[] = [
+      {
+        key: 'score_gap',
+        label: 'Clear winner',
+        value: gapValue,
+        weight: CONFIDENCE_WEIGHTS.score_gap,
+        detail: candidateCount > 1
+          ? `${Math.round(scoreDifference * 100)} point lead over the runner-up`
+          : 'No other options to compare against'
+      },
+      {
+        key: 'review_volume',
+        label: 'Review volume',
+        value: reviewValue,
+        weight: CONFIDENCE_WEIGHTS.review_volume,
+        detail: `${reviewCount} reviews behind the ${top.business.rating}/5 rating`
+      },
+      {
+        key: 'data_completeness',
+        label: 'Data completeness',
+        value: completenessValue,
+        weight: CONFIDENCE_WEIGHTS.data_completeness,
+        detail: missingFields.length > 0 ? `Missing ${missingFields.join(', ')}` : 'Price, distance, hours and rating all known'
+      },
+      {
+        key: 'candidate_count',
+        label: 'Options compared',
+        value: candidateValue,
+        weight: CONFIDENCE_WEIGHTS.candidate_count,
+        detail: `Chosen from ${candidateCount} option${candidateCount === 1 ? '' : 's'}`
+      }
+    ];
+
+    const combined = components.reduce((product, component) => product * Math.pow(component.value, component.weight), 1);
+    const confidence = Math.max(MIN_CONFIDENCE, Math.min(MAX_CONFIDENCE, MAX_CONFIDENCE * combined));
+
+    return {
+      confidence: Math.round(confidence * 100) / 100,
+      confidenceBreakdown: {
+        components: components.map(component => ({ ...component, value: Math.round(component.value * 100) / 100 })),
+        missingFields
+      }
+    };
+  }
+
+  private findMissingFields(business: Business): string[] {
+    const missing: string[] = [];
+    if (!business.price) missing.push('price');
+    if (!business.distance && !(business.coordinates?.latitude || business.coordinates?.longitude)) missing.push('distance');
+    if (!business.hours || business.hours.length === 0) missing.push('hours');
+    if (!business.rating) missing.push('rating');
+    return missing;
+  }
+
+  // =============================================================================
+  // EXPLANATION TRACE
+  // =============================================================================
+
+  /**
+   * Structured account of a decision: factor contributions for the pick plus counterfactuals
+   */
+  private explainDecision(
+    request: DecisionRequest,
+    category: TravelCategory,
+    scoredBusinesses: ScoredCandidate[],
+    scoringProfile?: AppliedScoringProfile,
+    options: DiningScoringOptions = {},
+    eliminated: EliminatedCandidate[] = []
+  ): DecisionExplanation {
+    const [selected, runnerUp] = scoredBusinesses;
+    const round = (value: number) => Math.round(value * 1000) / 1000;
+
+    // Dining scores are traced exactly; other categories are plain weighted averages of their factors
+    const factors = category === 'dining'
+      ? this.traceBusinessScore(
+        selected.business,
+        request.userPreferences,
+        request.location,
+        request.conversationContext,
+        scoringProfile?.weights,
+        options
+      )
+      : this.traceWeightedFactors(selected.factors);
+
+    return {
+      score: round(selected.score),
+      factors: factors.map(factor => ({
+        ...factor,
+        score: round(factor.score),
+        weight: round(factor.weight),
+        contribution: round(factor.contribution)
+      })),
+      runnerUp: runnerUp
+        ? { businessId: runnerUp.business.id, businessName: runnerUp.business.name, score: round(runnerUp.score) }
+        : undefined,
+      counterfactuals: category === 'dining'
+        ? this.findCounterfactuals(request, scoredBusinesses, scoringProfile, options, eliminated)
+          .map(counterfactual => ({ ...counterfactual, score: round(counterfactual.score) }))
+        : []
+    };
+  }
+
+  private traceWeightedFactors(factors: DecisionFactor[]): ExplanationFactor[] {
+    // The budget penalty is taken off the weighted average rather than averaged into it
+    const weighted = factors.filter(factor => factor.name !== BUDGET_FACTOR_NAME);
+    const totalWeight = weighted.reduce((sum, factor) => sum + factor.weight, 0);
+    const trace: ExplanationFactor[] = weighted.map(factor => ({
+      name: factor.name,
+      rawInput: factor.description,
+      score: factor.score,
+      weight: factor.weight,
+      contribution: totalWeight > 0 ? factor.score * factor.weight / totalWeight : 0
+    }));
+
+    const budgetFactor = factors.find(factor => factor.name === BUDGET_FACTOR_NAME);
+    if (budgetFactor) {
+      trace.push({
+        name: budgetFactor.name,
+        rawInput: budgetFactor.description,
+        score: budgetFactor.score,
+        weight: budgetFactor.weight,
+        contribution: -budgetFactor.weight * (1 - budgetFactor.score)
+      });
     }
 
-    return Math.max(0.65, confidence);
+    return trace;
+  }
+
+  /**
+   * Options that would have won under a single change: a looser hard constraint, a different
+   * price or cuisine preference, or another scoring profile
+   */
+  private findCounterfactuals(
+    request: DecisionRequest,
+    scoredBusinesses: ScoredCandidate[],
+    scoringProfile?: AppliedScoringProfile,
+    options: DiningScoringOptions = {},
+    eliminated: EliminatedCandidate[] = []
+  ): DecisionCounterfactual[] {
+    const { userPreferences, location, conversationContext } = request;
+    const weights = scoringProfile?.weights ?? SCORING_PROFILES[DEFAULT_SCORING_PROFILE].weights;
+    const selected = scoredBusinesses[0];
+    const counterfactuals: DecisionCounterfactual[] = [];
+
+    const scoreWith = (business: Business, preferences: UserPreferences, scoringWeights: ScoringWeights) =>
+      this.calculateBusinessScore(business, preferences, location, conversationContext, scoringWeights, options);
+
+    // Eliminated candidates that would have beaten the pick had a hard constraint been looser
+    eliminated.forEach(candidate => {
+      const business = request.businesses.find(item => item.id === candidate.businessId);
+      const relaxation = business && relaxationFor(business, candidate.violations, userPreferences, location);
+      if (!business || !relaxation) return;
+
+      const score = scoreWith(business, relaxation.preferences, weights);
+      if (score > selected.score) {
+        counterfactuals.push({
+          businessId: business.id,
+          businessName: business.name,
+          change: relaxation.constraints[0],
+          description: `Would have picked ${business.name} if you were willing to ${relaxation.suggestion}`,
+          score
+        });
+      }
+    });
+
+    // Runners-up that a single change of preference or profile would have put on top
+    scoredBusinesses.slice(1, 1 + COUNTERFACTUAL_CANDIDATES).forEach(({ business }) => {
+      const changes: Array<Omit<DecisionCounterfactual, 'businessId' | 'businessName' | 'score'> & {
+        preferences: UserPreferences;
+        weights: ScoringWeights;
+      }> = [];
+
+      const price = business.price?.trim();
+      if (price && price !== (userPreferences.priceRange || '$$')) {
+        changes.push({
+          change: 'price_range',
+          description: `Would have picked ${business.name} if you were fine with ${price}`,
+          preferences: { ...userPreferences, priceRange: price as PriceRange },
+          weights
+        });
+      }
+
+      const cuisine = business.categories[0];
+      if (cuisine && this.calculateCuisineScore(business.categories, userPreferences.cuisineTypes || []) < 1) {
+        changes.push({
+          change: 'cuisine',
+          description: `Would have picked ${business.name} if you were in the mood for ${cuisine.title}`,
+          preferences: { ...userPreferences, cuisineTypes: [cuisine.alias] },
+          weights
+        });
+      }
+
+      Object.values(SCORING_PROFILES)
+        .filter(profile => scoringProfile?.customized || profile.id !== (scoringProfile?.id ?? DEFAULT_SCORING_PROFILE))
+        .forEach(profile => changes.push({
+          change: 'scoring_profile',
+          description: `Would have picked ${business.name} with the ${profile.name} scoring profile`,
+          preferences: userPreferences,
+          weights: profile.weights
+        }));
+
+      for (const change of changes) {
+        const rescored = scoredBusinesses
+          .map(candidate => ({ id: candidate.business.id, score: scoreWith(candidate.business, change.preferences, change.weights) }))
+          .sort((a, b) => b.score - a.score);
+
+        if (rescored[0].id === business.id) {
+          counterfactuals.push({
+            businessId: business.id,
+            businessName: business.name,
+            change: change.change,
+            description: change.description,
+            score: rescored[0].score
+          });
+          break;
+        }
+      }
+    });
+
+    return counterfactuals.slice(0, MAX_COUNTERFACTUALS);
   }
 
   // =============================================================================
@@ -354,19 +1003,24 @@ export class DecisionEngine {
     preferences: UserPreferences,
     location: Location,
     context?: ConversationContext,
-    travelContext?: TravelContext
+    travelContext?: TravelContext,
+    weights?: ScoringWeights,
+    options?: DiningScoringOptions
   ): number {
+    // Dining traces the budget penalty with its other factors; the fixed-weight categories take it off the average
+    const budgetPenalty = this.getBudgetPenalty(business, options?.budget);
+
     switch (category) {
       case 'dining':
-        return this.calculateBusinessScore(business, preferences, location, context);
+        return this.calculateBusinessScore(business, preferences, location, context, weights, options);
       case 'accommodation':
-        return this.calculateAccommodationScore(business, preferences, location, travelContext);
+        return this.calculateAccommodationScore(business, preferences, location, travelContext) - budgetPenalty;
       case 'attractions':
-        return this.calculateAttractionScore(business, preferences, location, travelContext);
+        return this.calculateAttractionScore(business, preferences, location, travelContext) - budgetPenalty;
       case 'transportation':
-        return this.calculateTransportationScore(business, preferences, location, travelContext);
+        return this.calculateTransportationScore(business, preferences, location, travelContext) - budgetPenalty;
       case 'entertainment':
-        return this.calculateEntertainmentScore(business, preferences, location, travelContext);
+        return this.calculateEntertainmentScore(business, preferences, location, travelContext) - budgetPenalty;
       default:
         return this.calculateBusinessScore(business, preferences, location, context);
     }
@@ -380,19 +1034,24 @@ export class DecisionEngine {
     category: TravelCategory,
     preferences: UserPreferences,
     location: Location,
-    travelContext?: TravelContext
+    travelContext?: TravelContext,
+    weights?: ScoringWeights,
+    options?: DiningScoringOptions
   ): DecisionFactor[] {
+    const budgetFactor = this.getBudgetFactor(business, options?.budget);
+    const budgetFactors = budgetFactor ? [budgetFactor] : [];
+
     switch (category) {
       case 'dining':
-        return this.calculateFactors(business, preferences, location);
+        return this.calculateFactors(business, preferences, location, weights, options);
       case 'accommodation':
-        return this.calculateAccommodationFactors(business, preferences, location, travelContext);
+        return [...this.calculateAccommodationFactors(business, preferences, location, travelContext), ...budgetFactors];
       case 'attractions':
-        return this.calculateAttractionFactors(business, preferences, location, travelContext);
+        return [...this.calculateAttractionFactors(business, preferences, location, travelContext), ...budgetFactors];
       case 'transportation':
-        return this.calculateTransportationFactors(business, preferences, location, travelContext);
+        return [...this.calculateTransportationFactors(business, preferences, location, travelContext), ...budgetFactors];
       case 'entertainment':
-        return this.calculateEntertainmentFactors(business, preferences, location, travelContext);
+        return [...this.calculateEntertainmentFactors(business, preferences, location, travelContext), ...budgetFactors];
       default:
         return this.calculateFactors(business, preferences, location);
     }
@@ -1062,6 +1721,62 @@ export class DecisionEngine {
 // UTILITY FUNCTIONS
 // =============================================================================
 
+/**
+ * Loosen hard constraints just enough to leave at least one candidate; throws when nothing can be relaxed
+ */
+function relaxConstraints(
+  businesses: Business[],
+  preferences: UserPreferences,
+  location?: Location,
+  options: DecisionOptions = {}
+): { preferences: UserPreferences; options: DecisionOptions; relaxation?: ConstraintRelaxation; eliminated: EliminatedCandidate[] } {
+  const timing = options.preferredTime
+    ? { date: options.preferredDate || formatLocalDate(new Date()), time: options.preferredTime }
+    : undefined;
+  // A group is constrained by everyone's requirements at once
+  const constraints = options.groupMembers && options.groupMembers.length > 0
+    ? mergeGroupPreferences(preferences, options.groupMembers)
+    : preferences;
+  const { passed, eliminated } = applyDecisionConstraints(businesses, constraints, location, timing);
+  if (passed.length > 0) {
+    return { preferences, options, eliminated };
+  }
+
+  const relaxation = suggestRelaxation(businesses, constraints, location, timing);
+  if (!relaxation) {
+    const reasons = Array.from(new Set(eliminated.flatMap(candidate => candidate.violations.map(v => v.reason))));
+    throw new Error(`No options meet your dietary or availability requirements: ${reasons.join('; ')}`);
+  }
+
+  return {
+    preferences: relaxation.preferences,
+    options: options.groupMembers
+      ? { ...options, groupMembers: applySharedConstraints(options.groupMembers, relaxation.preferences) }
+      : options,
+    relaxation,
+    eliminated
+  };
+}
+
+function withRelaxation<T extends DecisionResponse>(
+  decision: T,
+  relaxation: ConstraintRelaxation | undefined,
+  eliminated: EliminatedCandidate[]
+): T {
+  if (!relaxation) {
+    return decision;
+  }
+
+  const change = relaxation.suggestion.charAt(0).toLowerCase() + relaxation.suggestion.slice(1);
+  return {
+    ...decision,
+    reasoning: `Nothing matched all of your requirements, so this pick assumes you're happy to ${change}. ${decision.reasoning}`,
+    confidence: Math.min(decision.confidence, 0.6),
+    eliminated,
+    relaxation
+  };
+}
+
 /**
  * Handle cases where no suitable travel options are found
  */
@@ -1069,7 +1784,9 @@ export async function handleNoSuitableTravelOptions(
   businesses: Business[],
   category: TravelCategory,
   preferences: UserPreferences,
-  travelContext?: TravelContext
+  travelContext?: TravelContext,
+  location?: Location,
+  options: DecisionOptions = {}
 ): Promise<TravelDecisionResponse> {
   // If we have businesses but none are "suitable", still pick the best one
   if (businesses.length > 0) {
@@ -1083,10 +1800,23 @@ export async function handleNoSuitableTravelOptions(
       state: 'Unknown'
     };
 
+    if (category === 'dining') {
+      const relaxed = relaxConstraints(businesses, preferences, location, options);
+      const decision = await engine.selectBestTravelOption({
+        ...relaxed.options,
+        businesses,
+        userPreferences: relaxed.preferences,
+        location: location || defaultLocation,
+        category,
+        travelContext
+      });
+      return withRelaxation(decision, relaxed.relaxation, relaxed.eliminated);
+    }
+
     return await engine.selectBestTravelOption({
       businesses,
       userPreferences: preferences,
-      location: defaultLocation,
+      location: location || defaultLocation,
       category,
       travelContext
     });
@@ -1101,7 +1831,9 @@ export async function handleNoSuitableTravelOptions(
  */
 export async function handleNoSuitableOptions(
   businesses: Business[],
-  preferences: UserPreferences
+  preferences: UserPreferences,
+  location?: Location,
+  options: DecisionOptions = {}
 ): Promise<DecisionResponse> {
   // If we have businesses but none are "suitable", still pick the best one
   if (businesses.length > 0) {
@@ -1115,11 +1847,14 @@ export async function handleNoSuitableOptions(
       state: 'Unknown'
     };
 
-    return await engine.selectBestRestaurant({
+    const relaxed = relaxConstraints(businesses, preferences, location, options);
+    const decision = await engine.selectBestRestaurant({
+      ...relaxed.options,
       businesses,
-      userPreferences: preferences,
-      location: defaultLocation
+      userPreferences: relaxed.preferences,
+      location: location || defaultLocation
     });
+    return withRelaxation(decision, relaxed.relaxation, relaxed.eliminated);
   }
 
   // Truly no options available
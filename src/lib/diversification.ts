@@ -0,0 +1,188 @@
+// Diversity-aware alternatives
+// Picks runner-up options that differ from the winner and from each other, using maximal marginal relevance
+
+import type { Business, DecisionAlternative, DecisionFactor } from './types';
+import { PRICE_RANGES } from './constants';
+import { calculateDistance, isValidCoordinates } from './location-utils';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface RankedCandidate {
+  business: Business;
+  score: number;
+  factors: DecisionFactor[];
+}
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+// Trade-off between relevance (1) and novelty (0) when picking each alternative
+const MMR_LAMBDA = 0.7;
+
+const SIMILARITY_WEIGHTS = { category: 0.5, price: 0.3, location: 0.2 };
+
+// Places closer than this are effectively in the same spot; beyond the far limit they share nothing
+const NEAR_KM = 0.5;
+const FAR_KM = 5;
+
+// A factor must beat the winner by this much to be worth mentioning
+const MIN_FACTOR_ADVANTAGE = 0.1;
+
+// =============================================================================
+// SIMILARITY
+// =============================================================================
+
+function categorySet(business: Business): Set<string> {
+  return new Set((business.categories || []).map(category => category.alias.toLowerCase()));
+}
+
+function priceLevel(business: Business): number | null {
+  const index = PRICE_RANGES.indexOf(business.price?.trim() as typeof PRICE_RANGES[number]);
+  return index >= 0 ? index : null;
+}
+
+function categorySimilarity(a: Business, b: Business): number {
+  const setA = categorySet(a);
+  const setB = categorySet(b);
+  if (setA.size === 0 || setB.size === 0) return 0;
+
+  const shared = Array.from(setA).filter(alias => setB.has(alias)).length;
+  return shared / (setA.size + setB.size - shared);
+}
+
+function priceSimilarity(a: Business, b: Business): number {
+  const levelA = priceLevel(a);
+  const levelB = priceLevel(b);
+  if (levelA === null || levelB === null) return 0.5;
+  return 1 - Math.abs(levelA - levelB) / (PRICE_RANGES.length - 1);
+}
+
+function locationSimilarity(a: Business, b: Business): number {
+  const coordsA = a.coordinates;
+  const coordsB = b.coordinates;
+  if (
+    !coordsA || !coordsB ||
+    !isValidCoordinates(coordsA.latitude, coordsA.longitude) ||
+    !isValidCoordinates(coordsB.latitude, coordsB.longitude) ||
+    (coordsA.latitude === 0 && coordsA.longitude === 0) ||
+    (coordsB.latitude === 0 && coordsB.longitude === 0)
+  ) {
+    return 0.5;
+  }
+
+  const km = calculateDistance(coordsA.latitude, coordsA.longitude, coordsB.latitude, coordsB.longitude);
+  if (km <= NEAR_KM) return 1;
+  if (km >= FAR_KM) return 0;
+  return 1 - (km - NEAR_KM) / (FAR_KM - NEAR_KM);
+}
+
+/**
+ * 0-1 similarity over category, price tier and location
+ */
+export function businessSimilarity(a: Business, b: Business): number {
+  return categorySimilarity(a, b) * SIMILARITY_WEIGHTS.category
+    + priceSimilarity(a, b) * SIMILARITY_WEIGHTS.price
+    + locationSimilarity(a, b) * SIMILARITY_WEIGHTS.location;
+}
+
+// =============================================================================
+// EXPLANATIONS
+// =============================================================================
+
+function primaryCategory(business: Business): string | null {
+  return business.categories?.[0]?.title ?? null;
+}
+
+/**
+ * Short "why this instead" note contrasting an alternative with the selected option
+ */
+export function explainAlternative(selected: RankedCandidate, alternative: RankedCandidate): string {
+  const reasons: string[] = [];
+  const chosen = selected.business;
+  const alt = alternative.business;
+
+  const chosenCategory = primaryCategory(chosen);
+  const altCategory = primaryCategory(alt);
+  if (altCategory && categorySimilarity(chosen, alt) === 0) {
+    reasons.push(chosenCategory ? `${altCategory} instead of ${chosenCategory}` : `${altCategory} for a change`);
+  }
+
+  const chosenLevel = priceLevel(chosen);
+  const altLevel = priceLevel(alt);
+  if (chosenLevel !== null && altLevel !== null && chosenLevel !== altLevel) {
+    reasons.push(altLevel < chosenLevel
+      ? `easier on the wallet (${alt.price} vs ${chosen.price})`
+      : `a step up (${alt.price}) for a special occasion`);
+  }
+
+  // Mention the factor where the alternative beats the winner by the widest margin
+  const advantage = alternative.factors
+    .map(factor => {
+      const match = selected.factors.find(candidate => candidate.name === factor.name);
+      return { factor, gain: match ? factor.score - match.score : 0 };
+    })
+    .filter(item => item.gain >= MIN_FACTOR_ADVANTAGE && item.factor.weight > 0)
+    .sort((a, b) => b.gain * b.factor.weight - a.gain * a.factor.weight)[0];
+
+  if (advantage) {
+    reasons.push(`stronger on ${advantage.factor.name.toLowerCase()} (${advantage.factor.description})`);
+  }
+
+  if (reasons.length === 0) {
+    return `A close runner-up to ${chosen.name} if it's unavailable`;
+  }
+
+  const summary = reasons.slice(0, 2).join('; ');
+  return summary.charAt(0).toUpperCase() + summary.slice(1);
+}
+
+// =============================================================================
+// SELECTION
+// =============================================================================
+
+/**
+ * Choose alternatives by maximal marginal relevance: high scores, low similarity to anything already shown
+ */
+export function selectDiverseAlternatives(
+  ranked: RankedCandidate[],
+  count: number = 3,
+  lambda: number = MMR_LAMBDA
+): DecisionAlternative[] {
+  const [selected, ...remaining] = ranked;
+  if (!selected) return [];
+
+  const topScore = Math.max(selected.score, Number.EPSILON);
+  const shown: Business[] = [selected.business];
+  const picked: DecisionAlternative[] = [];
+  const pool = [...remaining];
+
+  while (picked.length < count && pool.length > 0) {
+    let bestIndex = 0;
+    let bestValue = -Infinity;
+    let bestSimilarity = 0;
+
+    pool.forEach((candidate, index) => {
+      const similarity = Math.max(...shown.map(business => businessSimilarity(candidate.business, business)));
+      const value = lambda * (candidate.score / topScore) - (1 - lambda) * similarity;
+      if (value > bestValue) {
+        bestValue = value;
+        bestIndex = index;
+        bestSimilarity = similarity;
+      }
+    });
+
+    const [choice] = pool.splice(bestIndex, 1);
+    shown.push(choice.business);
+    picked.push({
+      business: choice.business,
+      score: Math.round(choice.score * 1000) / 1000,
+      similarity: Math.round(bestSimilarity * 1000) / 1000,
+      whyInstead: explainAlternative(selected, choice)
+    });
+  }
+
+  return picked;
+}
@@ -0,0 +1,181 @@
+// Group decision mode
+// Combines several members' preferences into one pick using a selectable aggregation strategy
+
+import type {
+  GroupAggregation,
+  GroupMember,
+  MemberSatisfaction,
+  PriceRange,
+  UserPreferences
+} from './types';
+import { BOOKING_CONFIG, PRICE_RANGES } from './constants';
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+export const DEFAULT_GROUP_AGGREGATION: GroupAggregation = 'average';
+
+export const GROUP_AGGREGATIONS: Record<GroupAggregation, { name: string; description: string }> = {
+  average: {
+    name: 'Average',
+    description: 'Highest mean score across members'
+  },
+  least_misery: {
+    name: 'Least misery',
+    description: "Best option for the least satisfied member, so nobody is stuck somewhere they dislike"
+  },
+  approval: {
+    name: 'Approval voting',
+    description: 'Most members scoring the option as acceptable; ties go to the higher mean score'
+  }
+};
+
+// A member "approves" an option scoring at least this much for them
+export const GROUP_APPROVAL_THRESHOLD = 0.7;
+
+// =============================================================================
+// PREFERENCE MERGING
+// =============================================================================
+
+function strictestPrice(prices: Array<PriceRange | undefined>): PriceRange | undefined {
+  const levels = prices
+    .map(price => PRICE_RANGES.indexOf(price as PriceRange))
+    .filter(level => level >= 0);
+  return levels.length > 0 ? PRICE_RANGES[Math.min(...levels)] : undefined;
+}
+
+/**
+ * Hard constraints for the whole table: every diet, the shortest distance, the lowest
+ * price ceiling, and the group's headcount unless a party size was given
+ */
+export function mergeGroupPreferences(base: UserPreferences, members: GroupMember[]): UserPreferences {
+  const all = [base, ...members.map(member => member.preferences)];
+  const distances = all
+    .map(preferences => preferences.distance)
+    .filter((distance): distance is number => typeof distance === 'number' && distance > 0);
+
+  return {
+    ...base,
+    dietaryRestrictions: Array.from(new Set(all.flatMap(preferences => preferences.dietaryRestrictions || []))),
+    distance: distances.length > 0 ? Math.min(...distances) : undefined,
+    maxPrice: strictestPrice(all.map(preferences => preferences.maxPrice)),
+    partySize: base.partySize || members.length
+  };
+}
+
+/**
+ * Give every member the same hard constraints, e.g. after the shared set was relaxed
+ */
+export function applySharedConstraints(members: GroupMember[], shared: UserPreferences): GroupMember[] {
+  return members.map(member => ({
+    ...member,
+    preferences: {
+      ...member.preferences,
+      dietaryRestrictions: shared.dietaryRestrictions,
+      distance: shared.distance,
+      maxPrice: shared.maxPrice
+    }
+  }));
+}
+
+// =============================================================================
+// AGGREGATION
+// =============================================================================
+
+/**
+ * Combine per-member 0-1 scores into one group score
+ */
+export function aggregateGroupScore(memberScores: number[], aggregation: GroupAggregation): number {
+  if (memberScores.length === 0) return 0;
+
+  const average = memberScores.reduce((sum, score) => sum + score, 0) / memberScores.length;
+
+  switch (aggregation) {
+    case 'least_misery':
+      return Math.min(...memberScores);
+    case 'approval': {
+      // The mean can never outweigh an extra approval, so it only breaks ties
+      const approvals = memberScores.filter(score => score >= GROUP_APPROVAL_THRESHOLD).length;
+      return (approvals + average) / (memberScores.length + 1);
+    }
+    case 'average':
+    default:
+      return average;
+  }
+}
+
+export function getMemberSatisfaction(members: GroupMember[], memberScores: number[]): MemberSatisfaction[] {
+  return members.map((member, index) => ({
+    memberId: member.id,
+    name: member.name,
+    score: Math.round(memberScores[index] * 1000) / 1000,
+    approves: memberScores[index] >= GROUP_APPROVAL_THRESHOLD
+  }));
+}
+
+/**
+ * One-sentence summary of how the group fares with the pick
+ */
+export function describeGroupOutcome(aggregation: GroupAggregation, satisfaction: MemberSatisfaction[]): string {
+  const approvals = satisfaction.filter(member => member.approves).length;
+  const lowest = satisfaction.reduce((min, member) => (member.score < min.score ? member : min), satisfaction[0]);
+  const lowestName = lowest.name || lowest.memberId;
+
+  const approvalText = approvals === satisfaction.length
+    ? `all ${satisfaction.length} of you should be happy with it`
+    : `${approvals} of ${satisfaction.length} of you should be happy with it`;
+
+  switch (aggregation) {
+    case 'least_misery':
+      return `Picked so the least satisfied member (${lowestName}, ${Math.round(lowest.score * 100)}%) does as well as possible; ${approvalText}.`;
+    case 'approval':
+      return `Picked by approval voting: ${approvalText}.`;
+    case 'average':
+    default:
+      return `Picked for the best average fit across the group; ${approvalText}.`;
+  }
+}
+
+// =============================================================================
+// VALIDATION
+// =============================================================================
+
+export function validateGroupRequest(
+  members: unknown,
+  aggregation: unknown
+): { isValid: boolean; errors: string[] } {
+  const errors: string[] = [];
+
+  if (!Array.isArray(members) || members.length === 0) {
+    errors.push('groupMembers must be a non-empty array');
+  } else {
+    if (members.length > BOOKING_CONFIG.MAX_PARTY_SIZE) {
+      errors.push(`groupMembers cannot have more than ${BOOKING_CONFIG.MAX_PARTY_SIZE} members`);
+    }
+
+    const ids = new Set<string>();
+    members.forEach((member, index) => {
+      if (!member || typeof member !== 'object') {
+        errors.push(`groupMembers[${index}] must be an object`);
+        return;
+      }
+      if (typeof member.id !== 'string' || member.id.trim() === '') {
+        errors.push(`groupMembers[${index}].id must be a non-empty string`);
+      } else if (ids.has(member.id)) {
+        errors.push(`groupMembers[${index}].id "${member.id}" is duplicated`);
+      } else {
+        ids.add(member.id);
+      }
+      if (!member.preferences || typeof member.preferences !== 'object') {
+        errors.push(`groupMembers[${index}].preferences are required`);
+      }
+    });
+  }
+
+  if (aggregation !== undefined && !Object.keys(GROUP_AGGREGATIONS).includes(aggregation as string)) {
+    errors.push(`groupAggregation must be one of: ${Object.keys(GROUP_AGGREGATIONS).join(', ')}`);
+  }
+
+  return { isValid: errors.length === 0, errors };
+}
@@ -0,0 +1,156 @@
+// Idempotency support for booking API routes
+// Replays the original response when a client retries a request with the same Idempotency-Key
+
+import { createHash } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+interface StoredResponse {
+  body: unknown;
+  status: number;
+}
+
+interface IdempotencyEntry {
+  fingerprint: string;
+  createdAt: number;
+  result: Promise<StoredResponse>;
+}
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+export const IDEMPOTENCY_HEADER = 'Idempotency-Key';
+
+const IDEMPOTENCY_CONFIG = {
+  MAX_KEY_LENGTH: 255,
+  TTL: 24 * 60 * 60 * 1000, // 24 hours
+} as const;
+
+const entries = new Map<string, IdempotencyEntry>();
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+
+  if (value && typeof value === 'object') {
+    const keys = Object.keys(value as Record<string, unknown>).sort();
+    return `{${keys
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`)
+      .join(',')}}`;
+  }
+
+  return JSON.stringify(value) ?? 'null';
+}
+
+function fingerprintPayload(rawBody: string): string {
+  let normalized = rawBody;
+
+  try {
+    normalized = stableStringify(JSON.parse(rawBody));
+  } catch {
+    // Not JSON - fingerprint the raw text so the route can report the parse error itself
+  }
+
+  return createHash('sha256').update(normalized).digest('hex');
+}
+
+function pruneExpiredEntries(now: number): void {
+  entries.forEach((entry, key) => {
+    if (now - entry.createdAt > IDEMPOTENCY_CONFIG.TTL) {
+      entries.delete(key);
+    }
+  });
+}
+
+function replay(stored: StoredResponse): NextResponse {
+  return NextResponse.json(stored.body, {
+    status: stored.status,
+    headers: { 'Idempotent-Replayed': 'true' }
+  });
+}
+
+function errorResponse(code: string, message: string, status: number): NextResponse {
+  return NextResponse.json(
+    {
+      success: false,
+      error: {
+        code,
+        message,
+        retryable: false
+      }
+    },
+    { status }
+  );
+}
+
+// =============================================================================
+// ROUTE WRAPPER
+// =============================================================================
+
+export async function withIdempotency(
+  request: NextRequest,
+  handler: (request: NextRequest) => Promise<NextResponse>
+): Promise<NextResponse> {
+  const key = request.headers.get(IDEMPOTENCY_HEADER);
+  if (!key) {
+    return handler(request);
+  }
+
+  if (key.length > IDEMPOTENCY_CONFIG.MAX_KEY_LENGTH) {
+    return errorResponse(
+      'INVALID_IDEMPOTENCY_KEY',
+      `${IDEMPOTENCY_HEADER} must be at most ${IDEMPOTENCY_CONFIG.MAX_KEY_LENGTH} characters`,
+      400
+    );
+  }
+
+  const now = Date.now();
+  pruneExpiredEntries(now);
+
+  const scopedKey = `${request.nextUrl.pathname}:${key}`;
+  const fingerprint = fingerprintPayload(await request.clone().text());
+  const existing = entries.get(scopedKey);
+
+  if (existing) {
+    if (existing.fingerprint !== fingerprint) {
+      return errorResponse(
+        'IDEMPOTENCY_KEY_REUSED',
+        `${IDEMPOTENCY_HEADER} has already been used with a different request payload`,
+        422
+      );
+    }
+
+    // Concurrent duplicates wait for the original request to finish
+    return replay(await existing.result);
+  }
+
+  const result = handler(request).then(async response => ({
+    body: await response.clone().json(),
+    status: response.status
+  }));
+
+  entries.set(scopedKey, { fingerprint, createdAt: now, result });
+
+  try {
+    const stored = await result;
+
+    // Server-side failures stay retryable under the same key
+    if (stored.status >= 500) {
+      entries.delete(scopedKey);
+    }
+
+    return NextResponse.json(stored.body, { status: stored.status });
+  } catch (error) {
+    entries.delete(scopedKey);
+    throw error;
+  }
+}
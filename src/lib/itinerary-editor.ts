@@ -0,0 +1,335 @@
+// Itinerary editing
+// Fine-grained edits to a TravelItinerary, shared by the conversation reducer and the /api/itinerary routes
+
+import type { ApiResponse, Business, ItineraryDay, PlannedActivity, TravelItinerary } from './types';
+import { formatMinutes } from './business-hours';
+import { isValidBusiness, validateTimeString } from './type-guards';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type ItineraryEdit =
+  | { type: 'add_activity'; dayIndex: number; activity: PlannedActivity }
+  | { type: 'remove_activity'; dayIndex: number; activityIndex: number }
+  | { type: 'move_activity'; dayIndex: number; activityIndex: number; toDayIndex: number; time?: string }
+  | { type: 'swap_meal'; dayIndex: number; activityIndex: number; business: Business }
+  | { type: 'set_accommodation'; dayIndex: number; accommodation: Business | null }
+  | { type: 'reorder_days'; order: number[] }; // order[i] is the current index of the plan that should run on day i
+
+export type ItineraryEditType = ItineraryEdit['type'];
+
+export interface ScheduleOverlap {
+  dayIndex: number;
+  first: PlannedActivity;
+  second: PlannedActivity;
+  message: string;
+}
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+export const ITINERARY_EDIT_TYPES: ItineraryEditType[] = [
+  'add_activity',
+  'remove_activity',
+  'move_activity',
+  'swap_meal',
+  'set_accommodation',
+  'reorder_days'
+];
+
+const ACTIVITY_CATEGORIES: PlannedActivity['category'][] = ['dining', 'attraction', 'accommodation', 'transportation', 'entertainment'];
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+function describeActivity(activity: PlannedActivity): string {
+  const start = toMinutes(activity.time);
+  return `${activity.activity.name} (${formatMinutes(start)}–${formatMinutes(start + activity.duration)})`;
+}
+
+function sortByTime(activities: PlannedActivity[]): PlannedActivity[] {
+  return [...activities].sort((a, b) => toMinutes(a.time) - toMinutes(b.time));
+}
+
+// Meals mirror the day's dining activities in the order they are eaten
+function withActivities(day: ItineraryDay, activities: PlannedActivity[]): ItineraryDay {
+  const sorted = sortByTime(activities);
+  return {
+    ...day,
+    activities: sorted,
+    meals: sorted.filter(activity => activity.category === 'dining').map(activity => activity.activity)
+  };
+}
+
+function editError(code: string, message: string, details?: unknown): ApiResponse<TravelItinerary> {
+  return { success: false, error: { code, message, details } };
+}
+
+function isDayIndex(itinerary: TravelItinerary, index: number): boolean {
+  return Number.isInteger(index) && index >= 0 && index < itinerary.days.length;
+}
+
+function isActivityIndex(day: ItineraryDay, index: number): boolean {
+  return Number.isInteger(index) && index >= 0 && index < day.activities.length;
+}
+
+// =============================================================================
+// OVERLAP VALIDATION
+// =============================================================================
+
+/**
+ * Activities on the same day whose time spans overlap; back-to-back activities are fine
+ */
+export function findScheduleOverlaps(itinerary: TravelItinerary): ScheduleOverlap[] {
+  const overlaps: ScheduleOverlap[] = [];
+
+  itinerary.days.forEach((day, dayIndex) => {
+    const sorted = sortByTime(day.activities);
+    for (let index = 1; index < sorted.length; index++) {
+      const previous = sorted[index - 1];
+      const current = sorted[index];
+      if (toMinutes(previous.time) + previous.duration > toMinutes(current.time)) {
+        overlaps.push({
+          dayIndex,
+          first: previous,
+          second: current,
+          message: `Day ${dayIndex + 1}: ${describeActivity(previous)} overlaps ${describeActivity(current)}`
+        });
+      }
+    }
+  });
+
+  return overlaps;
+}
+
+export function validateItinerarySchedule(itinerary: TravelItinerary): { isValid: boolean; errors: string[] } {
+  const errors = findScheduleOverlaps(itinerary).map(overlap => overlap.message);
+  return { isValid: errors.length === 0, errors };
+}
+
+function validatePlannedActivity(activity: unknown, field: string): string[] {
+  const errors: string[] = [];
+  const candidate = activity as Partial<PlannedActivity> | null;
+
+  if (!candidate || typeof candidate !== 'object') {
+    return [`${field} must be an object`];
+  }
+  if (!isValidBusiness(candidate.activity)) {
+    errors.push(`${field}.activity must be a business`);
+  }
+  if (typeof candidate.time !== 'string' || !validateTimeString(candidate.time)) {
+    errors.push(`${field}.time must be in HH:MM format`);
+  }
+  if (typeof candidate.duration !== 'number' || candidate.duration <= 0) {
+    errors.push(`${field}.duration must be a positive number of minutes`);
+  }
+  if (!ACTIVITY_CATEGORIES.includes(candidate.category as PlannedActivity['category'])) {
+    errors.push(`${field}.category must be one of: ${ACTIVITY_CATEGORIES.join(', ')}`);
+  }
+
+  return errors;
+}
+
+/**
+ * Shape check for edits arriving over the API; index bounds are checked when the edit is applied
+ */
+export function validateItineraryEdit(edit: unknown): { isValid: boolean; errors: string[] } {
+  const errors: string[] = [];
+  const candidate = edit as Record<string, any> | null;
+
+  if (!candidate || typeof candidate !== 'object' || !ITINERARY_EDIT_TYPES.includes(candidate.type)) {
+    return { isValid: false, errors: [`operation.type must be one of: ${ITINERARY_EDIT_TYPES.join(', ')}`] };
+  }
+
+  const requireIndex = (field: string) => {
+    if (!Number.isInteger(candidate[field]) || candidate[field] < 0) {
+      errors.push(`operation.${field} must be a non-negative whole number`);
+    }
+  };
+
+  switch (candidate.type as ItineraryEditType) {
+    case 'add_activity':
+      requireIndex('dayIndex');
+      errors.push(...validatePlannedActivity(candidate.activity, 'operation.activity'));
+      break;
+    case 'remove_activity':
+      requireIndex('dayIndex');
+      requireIndex('activityIndex');
+      break;
+    case 'move_activity':
+      requireIndex('dayIndex');
+      requireIndex('activityIndex');
+      requireIndex('toDayIndex');
+      if (candidate.time !== undefined && (typeof candidate.time !== 'string' || !validateTimeString(candidate.time))) {
+        errors.push('operation.time must be in HH:MM format');
+      }
+      break;
+    case 'swap_meal':
+      requireIndex('dayIndex');
+      requireIndex('activityIndex');
+      if (!isValidBusiness(candidate.business)) {
+        errors.push('operation.business must be a business');
+      }
+      break;
+    case 'set_accommodation':
+      requireIndex('dayIndex');
+      if (candidate.accommodation !== null && !isValidBusiness(candidate.accommodation)) {
+        errors.push('operation.accommodation must be a business, or null to clear it');
+      }
+      break;
+    case 'reorder_days':
+      if (!Array.isArray(candidate.order) || candidate.order.some((index: unknown) => !Number.isInteger(index))) {
+        errors.push('operation.order must be an array of day indexes');
+      }
+      break;
+  }
+
+  return { isValid: errors.length === 0, errors };
+}
+
+// =============================================================================
+// EDITS
+// =============================================================================
+
+function editDays(
+  itinerary: TravelItinerary,
+  edit: ItineraryEdit
+): { days: ItineraryDay[] } | ApiResponse<TravelItinerary> {
+  const { days } = itinerary;
+
+  switch (edit.type) {
+    case 'add_activity': {
+      if (!isDayIndex(itinerary, edit.dayIndex)) return editError('INVALID_DAY', `Day ${edit.dayIndex + 1} is not in this itinerary`);
+      const day = days[edit.dayIndex];
+      return {
+        days: days.map((existing, index) => index === edit.dayIndex
+          ? withActivities(day, [...day.activities, { ...edit.activity, bookingStatus: edit.activity.bookingStatus || 'pending' }])
+          : existing)
+      };
+    }
+
+    case 'remove_activity': {
+      if (!isDayIndex(itinerary, edit.dayIndex)) return editError('INVALID_DAY', `Day ${edit.dayIndex + 1} is not in this itinerary`);
+      const day = days[edit.dayIndex];
+      if (!isActivityIndex(day, edit.activityIndex)) return editError('INVALID_ACTIVITY', 'That activity is not on this day');
+
+      const activity = day.activities[edit.activityIndex];
+      if (activity.bookingStatus === 'confirmed') {
+        return editError('BOOKING_CONFIRMED', `${activity.activity.name} is already booked; cancel it before removing it`);
+      }
+
+      return {
+        days: days.map((existing, index) => index === edit.dayIndex
+          ? withActivities(day, day.activities.filter((_, activityIndex) => activityIndex !== edit.activityIndex))
+          : existing)
+      };
+    }
+
+    case 'move_activity': {
+      if (!isDayIndex(itinerary, edit.dayIndex) || !isDayIndex(itinerary, edit.toDayIndex)) {
+        return editError('INVALID_DAY', 'Both days must be in this itinerary');
+      }
+      const from = days[edit.dayIndex];
+      if (!isActivityIndex(from, edit.activityIndex)) return editError('INVALID_ACTIVITY', 'That activity is not on this day');
+
+      const activity = from.activities[edit.activityIndex];
+      if (activity.bookingStatus === 'confirmed') {
+        return editError('BOOKING_CONFIRMED', `${activity.activity.name} is already booked; cancel it before moving it`);
+      }
+
+      const moved = { ...activity, time: edit.time ?? activity.time };
+      const remaining = from.activities.filter((_, activityIndex) => activityIndex !== edit.activityIndex);
+      return {
+        days: days.map((existing, index) => {
+          if (index === edit.dayIndex && index === edit.toDayIndex) return withActivities(existing, [...remaining, moved]);
+          if (index === edit.dayIndex) return withActivities(existing, remaining);
+          if (index === edit.toDayIndex) return withActivities(existing, [...existing.activities, moved]);
+          return existing;
+        })
+      };
+    }
+
+    case 'swap_meal': {
+      if (!isDayIndex(itinerary, edit.dayIndex)) return editError('INVALID_DAY', `Day ${edit.dayIndex + 1} is not in this itinerary`);
+      const day = days[edit.dayIndex];
+      if (!isActivityIndex(day, edit.activityIndex)) return editError('INVALID_ACTIVITY', 'That activity is not on this day');
+
+      const meal = day.activities[edit.activityIndex];
+      if (meal.category !== 'dining') {
+        return editError('NOT_A_MEAL', `${meal.activity.name} is not a meal`);
+      }
+      if (meal.bookingStatus === 'confirmed') {
+        return editError('BOOKING_CONFIRMED', `${meal.activity.name} is already booked; cancel it before swapping it`);
+      }
+
+      // Same slot, new restaurant; its booking starts over
+      const swapped: PlannedActivity = { ...meal, activity: edit.business, bookingStatus: 'pending' };
+      return {
+        days: days.map((existing, index) => index === edit.dayIndex
+          ? withActivities(day, day.activities.map((activity, activityIndex) => activityIndex === edit.activityIndex ? swapped : activity))
+          : existing)
+      };
+    }
+
+    case 'set_accommodation': {
+      if (!isDayIndex(itinerary, edit.dayIndex)) return editError('INVALID_DAY', `Day ${edit.dayIndex + 1} is not in this itinerary`);
+      return {
+        days: days.map((existing, index) => index === edit.dayIndex
+          ? { ...existing, accommodation: edit.accommodation ?? undefined }
+          : existing)
+      };
+    }
+
+    case 'reorder_days': {
+      const { order } = edit;
+      const isPermutation = order.length === days.length &&
+        new Set(order).size === order.length &&
+        order.every(index => isDayIndex(itinerary, index));
+      if (!isPermutation) {
+        return editError('INVALID_ORDER', `Order must list each of the ${days.length} days exactly once`);
+      }
+
+      const pinned = order
+        .map((from, to) => ({ from, to }))
+        .filter(({ from, to }) => from !== to && days[from].activities.some(activity => activity.bookingStatus === 'confirmed'));
+      if (pinned.length > 0) {
+        return editError('BOOKING_CONFIRMED', `Day ${pinned[0].from + 1} has confirmed bookings and can't change date`);
+      }
+
+      // Dates, hotels and transport stay with the calendar; the day's plan moves
+      return {
+        days: days.map((slot, to) => {
+          const plan = days[order[to]];
+          return { ...slot, activities: plan.activities, meals: plan.meals, notes: plan.notes };
+        })
+      };
+    }
+  }
+}
+
+/**
+ * Apply one edit, refusing any result where activities on an edited day overlap
+ */
+export function applyItineraryEdit(itinerary: TravelItinerary, edit: ItineraryEdit): ApiResponse<TravelItinerary> {
+  const result = editDays(itinerary, edit);
+  if ('success' in result) {
+    return result;
+  }
+
+  // Only days the edit touched are checked, so an existing clash elsewhere doesn't block unrelated edits
+  const edited: TravelItinerary = { ...itinerary, days: result.days };
+  const overlaps = findScheduleOverlaps(edited).filter(overlap => result.days[overlap.dayIndex] !== itinerary.days[overlap.dayIndex]);
+  if (overlaps.length > 0) {
+    return editError('TIME_OVERLAP', overlaps[0].message, overlaps.map(overlap => overlap.message));
+  }
+
+  return { success: true, data: edited };
+}
@@ -0,0 +1,300 @@
+// Itinerary export
+// Shares a whole trip as one iCalendar feed or a print-optimised HTML page
+
+import type {
+  Business,
+  ItineraryDay,
+  Location,
+  PlannedActivity,
+  TransportationPlan,
+  TravelItinerary
+} from './types';
+import {
+  CALENDAR_UID_DOMAIN,
+  CalendarEvent,
+  addDays,
+  addMinutes,
+  formatBusinessAddress,
+  serializeCalendar
+} from './calendar';
+import { formatCurrency } from './currency';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type ItineraryExportFormat = 'ics' | 'html';
+
+export interface ItineraryExportOptions {
+  currency?: string;
+  locale?: string;
+}
+
+const CATEGORY_LABELS: Record<PlannedActivity['category'], string> = {
+  dining: 'Dining',
+  attraction: 'Attraction',
+  accommodation: 'Accommodation',
+  transportation: 'Transport',
+  entertainment: 'Entertainment'
+};
+
+const TRANSPORT_LABELS: Record<TransportationPlan['type'], string> = {
+  flight: 'Flight',
+  train: 'Train',
+  bus: 'Bus',
+  car: 'Drive',
+  taxi: 'Taxi',
+  walking: 'Walk'
+};
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+// Days arrive as Date objects in the app and as ISO strings over JSON
+export function toItineraryDate(date: Date | string): string {
+  if (typeof date === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    return date;
+  }
+
+  const local = new Date(date);
+  const month = (local.getMonth() + 1).toString().padStart(2, '0');
+  const day = local.getDate().toString().padStart(2, '0');
+  return `${local.getFullYear()}-${month}-${day}`;
+}
+
+function describeLocation(location: Location): string {
+  return location.address || [location.city, location.state].filter(Boolean).join(', ');
+}
+
+function describeTransport(plan: TransportationPlan): string {
+  const from = plan.from.city || describeLocation(plan.from);
+  const to = plan.to.city || describeLocation(plan.to);
+  return `${TRANSPORT_LABELS[plan.type]} from ${from} to ${to}`;
+}
+
+function uid(itinerary: TravelItinerary, suffix: string): string {
+  return `${itinerary.id}-${suffix}@${CALENDAR_UID_DOMAIN}`;
+}
+
+// Consecutive nights at the same accommodation form one stay
+function groupStays(days: ItineraryDay[]): Array<{ business: Business; checkIn: string; checkOut: string }> {
+  const stays: Array<{ business: Business; checkIn: string; checkOut: string }> = [];
+
+  days.forEach(day => {
+    if (!day.accommodation) return;
+    const date = toItineraryDate(day.date);
+    const last = stays[stays.length - 1];
+
+    if (last && last.business.id === day.accommodation.id && last.checkOut === date) {
+      last.checkOut = addDays(date, 1);
+    } else {
+      stays.push({ business: day.accommodation, checkIn: date, checkOut: addDays(date, 1) });
+    }
+  });
+
+  return stays;
+}
+
+// =============================================================================
+// ICALENDAR EXPORT
+// =============================================================================
+
+export function createItineraryEvents(itinerary: TravelItinerary): CalendarEvent[] {
+  const events: CalendarEvent[] = [];
+
+  groupStays(itinerary.days).forEach((stay, index) => {
+    events.push({
+      uid: uid(itinerary, `stay${index}`),
+      summary: `Hotel stay: ${stay.business.name}`,
+      description: `Check-in: ${stay.checkIn}\nCheck-out: ${stay.checkOut}`,
+      location: formatBusinessAddress(stay.business.location) || stay.business.name,
+      start: stay.checkIn,
+      end: addDays(stay.checkOut, 1),
+      allDay: true,
+      url: stay.business.url
+    });
+  });
+
+  itinerary.days.forEach((day, dayIndex) => {
+    const date = toItineraryDate(day.date);
+
+    day.activities
+      .filter(activity => activity.category !== 'accommodation')
+      .forEach((activity, activityIndex) => {
+        const start = `${date}T${activity.time}`;
+        const details = [
+          CATEGORY_LABELS[activity.category],
+          activity.bookingRequired ? `Booking: ${activity.bookingStatus}` : 'No booking required'
+        ];
+        if (activity.activity.display_phone) details.push(`Phone: ${activity.activity.display_phone}`);
+
+        events.push({
+          uid: uid(itinerary, `d${dayIndex}a${activityIndex}`),
+          summary: activity.activity.name,
+          description: details.join('\n'),
+          location: formatBusinessAddress(activity.activity.location) || activity.activity.name,
+          status: activity.bookingStatus === 'confirmed' ? 'CONFIRMED' : 'TENTATIVE',
+          start,
+          end: addMinutes(start, activity.duration || 60),
+          url: activity.activity.url
+        });
+      });
+
+    (day.transportation || []).forEach((plan, planIndex) => {
+      const start = `${date}T${plan.departureTime}`;
+      // Arrivals earlier than the departure land the next day
+      const arrivalDate = plan.arrivalTime < plan.departureTime ? addDays(date, 1) : date;
+
+      events.push({
+        uid: uid(itinerary, `d${dayIndex}t${planIndex}`),
+        summary: describeTransport(plan),
+        description: `Departs ${plan.departureTime}, arrives ${plan.arrivalTime}`,
+        location: describeLocation(plan.from),
+        status: plan.bookingInfo?.status === 'confirmed' ? 'CONFIRMED' : 'TENTATIVE',
+        start,
+        end: plan.arrivalTime ? `${arrivalDate}T${plan.arrivalTime}` : addMinutes(start, 60)
+      });
+    });
+  });
+
+  return events;
+}
+
+export function exportItineraryCalendar(itinerary: TravelItinerary): string {
+  return serializeCalendar(createItineraryEvents(itinerary), { name: itinerary.name });
+}
+
+// =============================================================================
+// PRINTABLE HTML EXPORT
+// =============================================================================
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function formatLongDate(date: string, locale: string): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString(locale, {
+    weekday: 'long',
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric'
+  });
+}
+
+function formatDuration(minutes: number): string {
+  if (!minutes) return '';
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return hours > 0 ? `${hours}h${rest ? ` ${rest}m` : ''}` : `${rest}m`;
+}
+
+function renderDay(day: ItineraryDay, index: number, locale: string): string {
+  const date = toItineraryDate(day.date);
+  const rows = [
+    ...day.activities.map(activity => ({
+      time: activity.time,
+      html: `<tr>
+          <td class="time">${escapeHtml(activity.time)}</td>
+          <td>
+            <strong>${escapeHtml(activity.activity.name)}</strong>
+            <div class="meta">${escapeHtml(CATEGORY_LABELS[activity.category])}${activity.duration ? ` · ${formatDuration(activity.duration)}` : ''}</div>
+            <div class="meta">${escapeHtml(formatBusinessAddress(activity.activity.location) || '')}</div>
+          </td>
+          <td class="meta">${escapeHtml(activity.activity.display_phone || '')}</td>
+          <td class="status">${activity.bookingRequired ? escapeHtml(activity.bookingStatus) : '—'}</td>
+        </tr>`
+    })),
+    ...(day.transportation || []).map(plan => ({
+      time: plan.departureTime,
+      html: `<tr>
+          <td class="time">${escapeHtml(plan.departureTime)}</td>
+          <td>
+            <strong>${escapeHtml(describeTransport(plan))}</strong>
+            <div class="meta">Arrives ${escapeHtml(plan.arrivalTime)}</div>
+          </td>
+          <td></td>
+          <td class="status">${escapeHtml(plan.bookingInfo?.status || '—')}</td>
+        </tr>`
+    }))
+  ].sort((a, b) => a.time.localeCompare(b.time));
+
+  const sections: string[] = [`<h2>Day ${index + 1} · ${escapeHtml(formatLongDate(date, locale))}</h2>`];
+
+  if (day.accommodation) {
+    sections.push(`<p class="stay">🏨 Staying at <strong>${escapeHtml(day.accommodation.name)}</strong>, ${escapeHtml(formatBusinessAddress(day.accommodation.location) || '')}</p>`);
+  }
+
+  sections.push(rows.length > 0
+    ? `<table>
+        <thead><tr><th>Time</th><th>Plan</th><th>Phone</th><th>Booking</th></tr></thead>
+        <tbody>${rows.map(row => row.html).join('')}</tbody>
+      </table>`
+    : '<p class="meta">No scheduled activities.</p>');
+
+  if (day.meals?.length > 0) {
+    sections.push(`<p><strong>Meals:</strong> ${day.meals.map(meal => escapeHtml(meal.name)).join(', ')}</p>`);
+  }
+
+  if (day.notes) {
+    sections.push(`<p class="notes">${escapeHtml(day.notes)}</p>`);
+  }
+
+  return `<section class="day">${sections.join('\n')}</section>`;
+}
+
+export function renderItineraryHtml(itinerary: TravelItinerary, options: ItineraryExportOptions = {}): string {
+  const locale = options.locale || 'en-US';
+  const dates = itinerary.days.map(day => toItineraryDate(day.date));
+  const dateRange = dates.length > 0
+    ? `${formatLongDate(dates[0], locale)} – ${formatLongDate(dates[dates.length - 1], locale)}`
+    : '';
+  const destination = [itinerary.destination.city, itinerary.destination.state].filter(Boolean).join(', ')
+    || itinerary.destination.address;
+  const cost = itinerary.totalEstimatedCost !== undefined
+    ? `<p>Estimated cost: <strong>${escapeHtml(formatCurrency(itinerary.totalEstimatedCost, options.currency, locale))}</strong></p>`
+    : '';
+
+  return `<!DOCTYPE html>
+<html lang="${escapeHtml(locale)}">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>${escapeHtml(itinerary.name)}</title>
+  <style>
+    body { font-family: Georgia, 'Times New Roman', serif; color: #111; max-width: 800px; margin: 2rem auto; padding: 0 1rem; line-height: 1.4; }
+    h1 { margin-bottom: 0.25rem; }
+    h2 { border-bottom: 2px solid #111; padding-bottom: 0.25rem; margin-top: 2rem; }
+    table { width: 100%; border-collapse: collapse; }
+    th, td { text-align: left; vertical-align: top; padding: 0.4rem; border-bottom: 1px solid #ccc; }
+    .time { white-space: nowrap; font-weight: bold; width: 4rem; }
+    .status { text-transform: capitalize; white-space: nowrap; }
+    .meta { color: #555; font-size: 0.9em; }
+    .notes { font-style: italic; }
+    footer { margin-top: 2rem; color: #555; font-size: 0.8em; }
+    @page { margin: 1.5cm; }
+    @media print {
+      body { margin: 0; max-width: none; font-size: 11pt; }
+      .day { page-break-inside: avoid; }
+      a { color: inherit; text-decoration: none; }
+    }
+  </style>
+</head>
+<body>
+  <header>
+    <h1>${escapeHtml(itinerary.name)}</h1>
+    <p>${escapeHtml(destination)}${dateRange ? ` · ${escapeHtml(dateRange)}` : ''}</p>
+    ${cost}
+  </header>
+  ${itinerary.days.map((day, index) => renderDay(day, index, locale)).join('\n')}
+  <footer>Generated by Pick For Me on ${escapeHtml(new Date().toLocaleDateString(locale))}</footer>
+</body>
+</html>
+`;
+}
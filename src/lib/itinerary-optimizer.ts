@@ -0,0 +1,310 @@
+// Daily route optimiser
+// Reorders a day's activities to cut travel distance without breaking bookings, meal windows or opening hours
+
+import type { Business, ItineraryDay, PlannedActivity, TravelItinerary } from './types';
+import { calculateDistance, formatDistance, isValidCoordinates } from './location-utils';
+import { formatMinutes, getOpenIntervals, hasKnownHours } from './business-hours';
+import { toItineraryDate } from './itinerary-export';
+import {
+  businessLocation,
+  estimateTravelMinutes,
+  MEAL_WINDOWS,
+  MealWindow,
+  nextBookableStart,
+  toMinutes
+} from './itinerary-planner';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface DayRouteSummary {
+  date: string;
+  beforeKm: number;
+  afterKm: number;
+  savedKm: number;
+  reordered: boolean;
+  unmappedStops: number; // Activities without coordinates, left out of the distance
+  summary: string;
+}
+
+export interface DayRouteResult {
+  day: ItineraryDay;
+  route: DayRouteSummary;
+}
+
+export interface ItineraryRouteResult {
+  itinerary: TravelItinerary;
+  days: DayRouteSummary[];
+  beforeKm: number;
+  afterKm: number;
+  savedKm: number;
+}
+
+// Hotels the day starts and ends at, when known
+export interface DayRouteEndpoints {
+  start?: Business;
+  end?: Business;
+}
+
+interface RouteStop {
+  activity: PlannedActivity;
+  earliest: number; // Minutes after midnight
+  latest: number;
+  checkHours: boolean;
+}
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+const MINUTES_PER_DAY = 24 * 60;
+
+// A meal more than this far from every window start is treated as a snack and moves freely
+const MEAL_BINDING_MINUTES = 90;
+
+// Local search gives up after this many improving passes
+const MAX_PASSES = 20;
+
+// Distance changes smaller than this are noise, not savings
+const MIN_SAVING_KM = 0.01;
+
+// =============================================================================
+// CONSTRAINTS
+// =============================================================================
+
+function bindMealWindow(time: number): MealWindow | null {
+  const nearest = MEAL_WINDOWS.reduce((best, window) =>
+    Math.abs(toMinutes(window.time) - time) < Math.abs(toMinutes(best.time) - time) ? window : best
+  );
+  return Math.abs(toMinutes(nearest.time) - time) <= MEAL_BINDING_MINUTES ? nearest : null;
+}
+
+/**
+ * When each activity may start: confirmed bookings and transport stay put, meals stay in their window
+ * (stretched to cover the planned time), everything else can go anywhere it is open
+ */
+function toRouteStop(activity: PlannedActivity): RouteStop {
+  const planned = toMinutes(activity.time);
+
+  if (activity.bookingStatus === 'confirmed' || activity.category === 'transportation') {
+    return { activity, earliest: planned, latest: planned, checkHours: false };
+  }
+
+  const window = activity.category === 'dining' ? bindMealWindow(planned) : null;
+  if (window) {
+    return {
+      activity,
+      earliest: Math.min(toMinutes(window.time), planned),
+      latest: Math.max(toMinutes(window.latest), planned),
+      checkHours: false
+    };
+  }
+
+  // Flexible stops must wrap up the same day, not spill into tomorrow's opening hours
+  return { activity, earliest: 0, latest: MINUTES_PER_DAY - activity.duration, checkHours: true };
+}
+
+// First bookable start at or after `from` that fits the whole visit inside opening hours
+function nextOpenStart(activity: PlannedActivity, date: string, from: number): number | null {
+  if (!hasKnownHours(activity.activity)) return from;
+
+  for (const interval of getOpenIntervals(activity.activity, date)) {
+    const start = nextBookableStart(activity, Math.max(interval.start, from));
+    if (start !== null && start + activity.duration <= interval.end) return start;
+  }
+  return null;
+}
+
+/**
+ * Start times for the stops in order, or null when the order can't be scheduled
+ */
+function scheduleStops(stops: RouteStop[], date: string, dayStart: number): number[] | null {
+  const times: number[] = [];
+  let clock = dayStart;
+  let previous: Business | null = null;
+
+  for (const stop of stops) {
+    const business = stop.activity.activity;
+    const travel: number = previous ? estimateTravelMinutes(businessLocation(previous), business) : 0;
+    // Booked stops move only to times the venue sells
+    const next = nextBookableStart(stop.activity, clock + travel);
+    let start: number | null = next === null ? null : Math.max(next, stop.earliest);
+
+    if (start !== null && stop.checkHours) {
+      start = nextOpenStart(stop.activity, date, start);
+    }
+    if (start === null || start > stop.latest) return null;
+
+    times.push(start);
+    clock = start + stop.activity.duration;
+    previous = business;
+  }
+
+  return times;
+}
+
+// =============================================================================
+// DISTANCE
+// =============================================================================
+
+function hasCoordinates(business: Business): boolean {
+  const coords = business.coordinates;
+  return !!coords &&
+    isValidCoordinates(coords.latitude, coords.longitude) &&
+    !(coords.latitude === 0 && coords.longitude === 0);
+}
+
+/**
+ * Kilometres along the route, skipping any leg with an unmapped end
+ */
+export function measureRouteKm(businesses: Business[]): number {
+  let total = 0;
+  for (let index = 1; index < businesses.length; index++) {
+    const from = businesses[index - 1];
+    const to = businesses[index];
+    if (hasCoordinates(from) && hasCoordinates(to)) {
+      total += calculateDistance(from.coordinates.latitude, from.coordinates.longitude, to.coordinates.latitude, to.coordinates.longitude);
+    }
+  }
+  return total;
+}
+
+function routeKm(stops: RouteStop[], endpoints: DayRouteEndpoints): number {
+  return measureRouteKm([
+    ...(endpoints.start ? [endpoints.start] : []),
+    ...stops.map(stop => stop.activity.activity),
+    ...(endpoints.end ? [endpoints.end] : [])
+  ]);
+}
+
+const roundKm = (km: number): number => Math.round(km * 100) / 100;
+
+function describeRoute(beforeKm: number, afterKm: number, reordered: boolean, unmappedStops: number): string {
+  const saved = beforeKm - afterKm;
+  let summary = saved >= MIN_SAVING_KM
+    ? `Saves ${formatDistance(saved)} of travel (${formatDistance(beforeKm)} → ${formatDistance(afterKm)})`
+    : reordered
+      ? `Reordered to fit opening hours and meal times (${formatDistance(beforeKm)} → ${formatDistance(afterKm)})`
+      : `Already the shortest workable route (${formatDistance(afterKm)})`;
+
+  if (unmappedStops > 0) {
+    summary += `; ${unmappedStops} stop${unmappedStops === 1 ? ' has' : 's have'} no coordinates and ${unmappedStops === 1 ? 'was' : 'were'} left out of the distance`;
+  }
+  return summary;
+}
+
+// =============================================================================
+// OPTIMISER
+// =============================================================================
+
+function moveStop(stops: RouteStop[], from: number, to: number): RouteStop[] {
+  const reordered = [...stops];
+  const [stop] = reordered.splice(from, 1);
+  reordered.splice(to, 0, stop);
+  return reordered;
+}
+
+/**
+ * Reorder one day's activities for the shortest route that still fits every time constraint,
+ * then recompute start times. Local search moves one stop at a time until nothing shortens the route.
+ */
+export function optimizeDayRoute(day: ItineraryDay, endpoints: DayRouteEndpoints = {}): DayRouteResult {
+  const date = toItineraryDate(day.date);
+  const original = [...day.activities]
+    .sort((a, b) => toMinutes(a.time) - toMinutes(b.time))
+    .map(toRouteStop);
+  const unmappedStops = original.filter(stop => !hasCoordinates(stop.activity.activity)).length;
+  const beforeKm = routeKm(original, endpoints);
+
+  if (original.length === 0) {
+    return {
+      day,
+      route: { date, beforeKm: 0, afterKm: 0, savedKm: 0, reordered: false, unmappedStops: 0, summary: 'Nothing planned' }
+    };
+  }
+
+  const dayStart = Math.min(...original.map(stop => toMinutes(stop.activity.time)));
+  let best = original;
+  let bestTimes = scheduleStops(original, date, dayStart);
+  let bestKm = bestTimes ? beforeKm : Infinity;
+
+  for (let pass = 0, improved = true; improved && pass < MAX_PASSES; pass++) {
+    improved = false;
+    for (let from = 0; from < best.length; from++) {
+      for (let to = 0; to < best.length; to++) {
+        if (to === from) continue;
+        const candidate = moveStop(best, from, to);
+        const candidateKm = routeKm(candidate, endpoints);
+        // An unschedulable starting order accepts any workable one
+        if (candidateKm >= bestKm - (bestTimes ? MIN_SAVING_KM : 0)) continue;
+
+        const times = scheduleStops(candidate, date, dayStart);
+        if (!times) continue;
+        best = candidate;
+        bestTimes = times;
+        bestKm = candidateKm;
+        improved = true;
+      }
+    }
+  }
+
+  if (!bestTimes) {
+    return {
+      day,
+      route: {
+        date,
+        beforeKm: roundKm(beforeKm),
+        afterKm: roundKm(beforeKm),
+        savedKm: 0,
+        reordered: false,
+        unmappedStops,
+        summary: `Kept as planned: no order fits the bookings and opening hours (${formatDistance(beforeKm)})`
+      }
+    };
+  }
+
+  const times = bestTimes;
+  const activities = best.map((stop, index) => ({ ...stop.activity, time: formatMinutes(times[index]) }));
+  const reordered = best.some((stop, index) => stop !== original[index]);
+  const afterKm = bestKm;
+
+  return {
+    day: {
+      ...day,
+      activities,
+      // Keep meals in the order they are eaten
+      meals: activities.filter(activity => activity.category === 'dining').map(activity => activity.activity)
+    },
+    route: {
+      date,
+      beforeKm: roundKm(beforeKm),
+      afterKm: roundKm(afterKm),
+      savedKm: roundKm(Math.max(0, beforeKm - afterKm)),
+      reordered,
+      unmappedStops,
+      summary: describeRoute(beforeKm, afterKm, reordered, unmappedStops)
+    }
+  };
+}
+
+/**
+ * Optimise every day, starting each from the previous night's hotel and ending at that night's
+ */
+export function optimizeItineraryRoutes(itinerary: TravelItinerary): ItineraryRouteResult {
+  const results = itinerary.days.map((day, index) => optimizeDayRoute(day, {
+    start: itinerary.days[index - 1]?.accommodation,
+    end: day.accommodation
+  }));
+
+  const beforeKm = results.reduce((sum, result) => sum + result.route.beforeKm, 0);
+  const afterKm = results.reduce((sum, result) => sum + result.route.afterKm, 0);
+
+  return {
+    itinerary: { ...itinerary, days: results.map(result => result.day) },
+    days: results.map(result => result.route),
+    beforeKm: roundKm(beforeKm),
+    afterKm: roundKm(afterKm),
+    savedKm: roundKm(Math.max(0, beforeKm - afterKm))
+  };
+}
@@ -0,0 +1,412 @@
+// Itinerary auto-planner
+// Fills each trip day with a hotel, three meals and attractions chosen by the decision engine
+
+import { randomUUID } from 'crypto';
+import type {
+  Business,
+  ItineraryDay,
+  Location,
+  PlannedActivity,
+  TravelContext,
+  TravelItinerary,
+  UserPreferences
+} from './types';
+import { decisionEngine, TravelCategory } from './decision-engine';
+import { getBusinessDistanceMiles } from './decision-constraints';
+import { formatMinutes, getMinutesUntilClose, isOpenAt } from './business-hours';
+import { supportsOnlineReservations } from './reservation-provider';
+import { getPublishedSlots } from './availability';
+import { getPriceTier } from './pricing';
+import { buildBudgetLedger } from './budget-ledger';
+import { TIME_SLOTS } from './constants';
+import { addDays } from './calendar';
+import { toItineraryDate } from './itinerary-export';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface ItineraryCandidates {
+  accommodation: Business[];
+  dining: Business[];
+  attractions: Business[];
+}
+
+export interface ItineraryPlanOptions {
+  userPreferences?: UserPreferences;
+  attractionsPerDay?: number;
+  name?: string;
+}
+
+export type MealKey = 'breakfast' | 'lunch' | 'dinner';
+
+export interface MealWindow {
+  key: MealKey;
+  time: string; // Planned start
+  latest: string; // Skip the meal rather than start it after this
+  duration: number;
+}
+
+// Where the traveller is and when they are free during a day
+interface DayCursor {
+  here: Location;
+  clock: number; // Minutes after midnight
+}
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+export const MEAL_WINDOWS: MealWindow[] = [
+  { key: 'breakfast', time: '08:00', latest: '09:30', duration: 45 },
+  { key: 'lunch', time: '12:30', latest: '14:00', duration: 75 },
+  { key: 'dinner', time: '19:00', latest: '20:30', duration: 90 }
+];
+
+const ATTRACTION_DURATION_MINUTES = 120;
+
+const ATTRACTIONS_PER_DAY: Record<NonNullable<TravelContext['travelStyle']>, number> = {
+  budget: 2,
+  'mid-range': 2,
+  luxury: 2,
+  adventure: 3,
+  cultural: 3
+};
+const DEFAULT_ATTRACTIONS_PER_DAY = 2;
+
+// Door-to-door estimate: average city speed plus time to park, walk and find the entrance
+const CITY_SPEED_MPH = 15;
+const TRANSFER_BUFFER_MINUTES = 10;
+const UNKNOWN_TRANSFER_MINUTES = 20;
+const MAX_TRANSFER_MINUTES = 45;
+
+export const MAX_ITINERARY_DAYS = 14;
+
+const SLOT_MINUTES = 5;
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+export function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+// Start times snap to the next five minutes so the schedule reads naturally
+export function roundUpToSlot(minutes: number): number {
+  return Math.ceil(minutes / SLOT_MINUTES) * SLOT_MINUTES;
+}
+
+/**
+ * Earliest start at or after `minutes` the activity can actually be booked for: restaurants take
+ * tables on the reservation grid and ticketed attractions sell fixed entry times. Null when none is left that day.
+ */
+export function nextBookableStart(
+  activity: Pick<PlannedActivity, 'activity' | 'category' | 'bookingRequired'>,
+  minutes: number
+): number | null {
+  if (!activity.bookingRequired) return roundUpToSlot(minutes);
+
+  const slots = activity.category === 'dining'
+    ? [...TIME_SLOTS]
+    : activity.category === 'attraction'
+      ? getPublishedSlots('attraction', activity.activity.id)
+      : [];
+  if (slots.length === 0) return roundUpToSlot(minutes);
+
+  const next = slots.map(toMinutes).find(slot => slot >= minutes);
+  return next ?? null;
+}
+
+export function businessLocation(business: Business): Location {
+  return {
+    latitude: business.coordinates?.latitude ?? 0,
+    longitude: business.coordinates?.longitude ?? 0,
+    address: business.location?.address1 || business.name,
+    city: business.location?.city || '',
+    state: business.location?.state || '',
+    country: business.location?.country
+  };
+}
+
+/**
+ * Minutes to get from one stop to the next
+ */
+export function estimateTravelMinutes(from: Location, to: Business): number {
+  const miles = getBusinessDistanceMiles(to, from);
+  if (miles === null) return UNKNOWN_TRANSFER_MINUTES;
+  return Math.ceil((miles / CITY_SPEED_MPH) * 60) + TRANSFER_BUFFER_MINUTES;
+}
+
+function listTripDates(travelContext: TravelContext): string[] {
+  if (!travelContext.travelDates) {
+    throw new Error('Travel dates are required to plan an itinerary');
+  }
+
+  const start = toItineraryDate(travelContext.travelDates.startDate);
+  const end = toItineraryDate(travelContext.travelDates.endDate);
+  if (end < start) {
+    throw new Error('Trip end date must not be before the start date');
+  }
+
+  const dates: string[] = [];
+  for (let date = start; date <= end; date = addDays(date, 1)) {
+    dates.push(date);
+    if (dates.length > MAX_ITINERARY_DAYS) {
+      throw new Error(`Itineraries are limited to ${MAX_ITINERARY_DAYS} days`);
+    }
+  }
+  return dates;
+}
+
+function toDate(date: string): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+// Distance on each candidate is re-measured from the current stop so the engine favours what's nearby
+function fromHere(businesses: Business[], here: Location): Business[] {
+  return businesses.map(business => ({
+    ...business,
+    distance: getBusinessDistanceMiles(business, here) ?? business.distance
+  }));
+}
+
+// =============================================================================
+// SLOT SELECTION
+// =============================================================================
+
+async function pickBest(
+  category: TravelCategory,
+  candidates: Business[],
+  originals: Map<string, Business>,
+  here: Location,
+  travelContext: TravelContext,
+  userPreferences: UserPreferences,
+  timing?: { date: string; time: string }
+): Promise<Business | null> {
+  if (candidates.length === 0) return null;
+
+  try {
+    const decision = await decisionEngine.selectBestTravelOption({
+      businesses: fromHere(candidates, here),
+      userPreferences,
+      location: here,
+      category,
+      travelContext,
+      preferredDate: timing?.date,
+      preferredTime: timing?.time
+    });
+    return originals.get(decision.selectedBusiness.id) ?? decision.selectedBusiness;
+  } catch (error) {
+    // Hard constraints (hours, diet, distance) can leave nothing for this slot
+    console.log(`No ${category} option for ${timing ? `${timing.date} ${timing.time}` : 'the trip'}:`, error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+async function planMeal(
+  meal: MealWindow,
+  date: string,
+  cursor: DayCursor,
+  pool: Business[],
+  used: Set<string>,
+  originals: Map<string, Business>,
+  travelContext: TravelContext,
+  userPreferences: UserPreferences
+): Promise<PlannedActivity | null> {
+  const earliest = Math.max(toMinutes(meal.time), cursor.clock + TRANSFER_BUFFER_MINUTES);
+  if (earliest > toMinutes(meal.latest)) return null;
+
+  // Prefer somewhere new, but repeat a restaurant rather than skip a meal
+  const reachable = pool.filter(business => estimateTravelMinutes(cursor.here, business) <= MAX_TRANSFER_MINUTES);
+  const fresh = reachable.filter(business => !used.has(business.id));
+  const time = formatMinutes(earliest);
+
+  const business = await pickBest('dining', fresh, originals, cursor.here, travelContext, userPreferences, { date, time })
+    ?? await pickBest('dining', reachable.filter(b => used.has(b.id)), originals, cursor.here, travelContext, userPreferences, { date, time });
+  if (!business) return null;
+
+  // Breakfast spots rarely take reservations; lunch and dinner are booked when the restaurant allows it
+  const planned: PlannedActivity = {
+    time: meal.time,
+    duration: meal.duration,
+    activity: business,
+    category: 'dining',
+    bookingRequired: meal.key !== 'breakfast' && supportsOnlineReservations(business),
+    bookingStatus: 'pending'
+  };
+  const arrival = Math.max(toMinutes(meal.time), cursor.clock + estimateTravelMinutes(cursor.here, business));
+  const start = nextBookableStart(planned, arrival);
+  if (start === null) return null;
+
+  used.add(business.id);
+  cursor.here = businessLocation(business);
+  cursor.clock = start + meal.duration;
+
+  return { ...planned, time: formatMinutes(start) };
+}
+
+async function planAttraction(
+  date: string,
+  cursor: DayCursor,
+  mustEndBy: number,
+  pool: Business[],
+  used: Set<string>,
+  originals: Map<string, Business>,
+  travelContext: TravelContext,
+  userPreferences: UserPreferences
+): Promise<PlannedActivity | null> {
+  const plan = (business: Business): PlannedActivity | null => {
+    const travel = estimateTravelMinutes(cursor.here, business);
+    if (travel > MAX_TRANSFER_MINUTES) return null;
+
+    const planned: PlannedActivity = {
+      time: '',
+      duration: ATTRACTION_DURATION_MINUTES,
+      activity: business,
+      category: 'attraction',
+      // Priced attractions sell tickets; free ones (parks, landmarks) need no booking
+      bookingRequired: getPriceTier(business) !== null,
+      bookingStatus: 'pending'
+    };
+    const start = nextBookableStart(planned, cursor.clock + travel);
+    if (start === null || start + ATTRACTION_DURATION_MINUTES > mustEndBy) return null;
+    return { ...planned, time: formatMinutes(start) };
+  };
+
+  // Each candidate must be reachable, open on arrival and open long enough for the visit
+  const eligible = pool.filter(business => {
+    if (used.has(business.id)) return false;
+    const planned = plan(business);
+    if (!planned) return false;
+
+    if (isOpenAt(business, date, planned.time) === false) return false;
+    const minutesLeft = getMinutesUntilClose(business, date, planned.time);
+    return minutesLeft === null || minutesLeft >= ATTRACTION_DURATION_MINUTES;
+  });
+
+  const business = await pickBest('attractions', eligible, originals, cursor.here, travelContext, userPreferences);
+  const planned = business ? plan(business) : null;
+  if (!planned) return null;
+
+  used.add(planned.activity.id);
+  cursor.here = businessLocation(planned.activity);
+  cursor.clock = toMinutes(planned.time) + ATTRACTION_DURATION_MINUTES;
+
+  return planned;
+}
+
+// =============================================================================
+// COST ESTIMATE
+// =============================================================================
+
+/**
+ * Estimated trip cost in USD: hotel quote, ticketed attractions and typical meal spend
+ */
+export function estimateItineraryCost(itinerary: TravelItinerary, groupSize: number = 1): number {
+  return buildBudgetLedger(itinerary, { groupSize }).total;
+}
+
+// =============================================================================
+// PLANNER
+// =============================================================================
+
+/**
+ * Build a complete itinerary: one hotel for the whole stay, then meals and attractions
+ * for every day, timed around opening hours and the travel between stops
+ */
+export async function planItinerary(
+  travelContext: TravelContext,
+  candidates: ItineraryCandidates,
+  options: ItineraryPlanOptions = {}
+): Promise<TravelItinerary> {
+  const destination = travelContext.destination;
+  if (!destination) {
+    throw new Error('A destination is required to plan an itinerary');
+  }
+
+  const dates = listTripDates(travelContext);
+  const groupSize = travelContext.groupSize || 1;
+  const userPreferences: UserPreferences = { partySize: groupSize, ...options.userPreferences };
+  const attractionsPerDay = options.attractionsPerDay
+    ?? (travelContext.travelStyle ? ATTRACTIONS_PER_DAY[travelContext.travelStyle] : DEFAULT_ATTRACTIONS_PER_DAY);
+
+  const originals = new Map(
+    [...candidates.accommodation, ...candidates.dining, ...candidates.attractions].map(business => [business.id, business])
+  );
+
+  // The last day is check-out day, so a day trip needs no hotel
+  const hotel = dates.length > 1
+    ? await pickBest('accommodation', candidates.accommodation, originals, destination, travelContext, userPreferences)
+    : null;
+  const base = hotel ? businessLocation(hotel) : destination;
+
+  const usedRestaurants = new Set<string>();
+  const usedAttractions = new Set<string>();
+  const days: ItineraryDay[] = [];
+
+  for (let index = 0; index < dates.length; index++) {
+    const date = dates[index];
+    const cursor: DayCursor = { here: base, clock: toMinutes(MEAL_WINDOWS[0].time) - TRANSFER_BUFFER_MINUTES };
+    const activities: PlannedActivity[] = [];
+    const meals: Business[] = [];
+    const gaps: string[] = [];
+    let attractionCount = 0;
+
+    for (let mealIndex = 0; mealIndex < MEAL_WINDOWS.length; mealIndex++) {
+      const meal = MEAL_WINDOWS[mealIndex];
+      const planned = await planMeal(meal, date, cursor, candidates.dining, usedRestaurants, originals, travelContext, userPreferences);
+      if (planned) {
+        activities.push(planned);
+        meals.push(planned.activity);
+      } else {
+        gaps.push(`no ${meal.key} spot open nearby`);
+      }
+
+      // Fill the gap before the next meal with attractions
+      const nextMeal = MEAL_WINDOWS[mealIndex + 1];
+      while (nextMeal && attractionCount < attractionsPerDay) {
+        const attraction = await planAttraction(
+          date,
+          cursor,
+          toMinutes(nextMeal.time) - TRANSFER_BUFFER_MINUTES,
+          candidates.attractions,
+          usedAttractions,
+          originals,
+          travelContext,
+          userPreferences
+        );
+        if (!attraction) break;
+        activities.push(attraction);
+        attractionCount++;
+      }
+    }
+
+    if (attractionCount < attractionsPerDay) {
+      gaps.push(`${attractionsPerDay - attractionCount} attraction slot${attractionsPerDay - attractionCount === 1 ? '' : 's'} left free`);
+    }
+    if (index < dates.length - 1 && !hotel) {
+      gaps.push('no accommodation found');
+    }
+
+    days.push({
+      date: toDate(date),
+      activities,
+      accommodation: index < dates.length - 1 ? hotel ?? undefined : undefined,
+      meals,
+      notes: gaps.length > 0 ? `Open gaps: ${gaps.join('; ')}` : undefined
+    });
+  }
+
+  const place = destination.city || destination.address;
+  const itinerary: TravelItinerary = {
+    id: randomUUID(),
+    name: options.name || `${dates.length}-day trip to ${place}`,
+    destination,
+    days
+  };
+
+  return { ...itinerary, totalEstimatedCost: estimateItineraryCost(itinerary, groupSize) };
+}
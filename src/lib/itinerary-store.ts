@@ -0,0 +1,91 @@
+// Itinerary persistence
+// Saved itineraries for the /api/itinerary routes, owned by a Firebase uid and edited in place with the itinerary editor
+
+import path from 'path';
+import type { TravelItinerary } from './types';
+import { JsonFileStore } from './json-file-store';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface SavedItinerary extends TravelItinerary {
+  userId: string;
+}
+
+export interface ItineraryStore {
+  get(userId: string, itineraryId: string): Promise<SavedItinerary | null>;
+  save(itinerary: SavedItinerary): Promise<void>;
+  delete(userId: string, itineraryId: string): Promise<boolean>;
+}
+
+// =============================================================================
+// IN-MEMORY STORE
+// =============================================================================
+
+export class InMemoryItineraryStore implements ItineraryStore {
+  private itineraries = new Map<string, SavedItinerary>();
+
+  async get(userId: string, itineraryId: string): Promise<SavedItinerary | null> {
+    const itinerary = this.itineraries.get(itineraryId);
+    return itinerary && itinerary.userId === userId ? itinerary : null;
+  }
+
+  async save(itinerary: SavedItinerary): Promise<void> {
+    this.itineraries.set(itinerary.id, itinerary);
+  }
+
+  async delete(userId: string, itineraryId: string): Promise<boolean> {
+    if (!(await this.get(userId, itineraryId))) return false;
+    return this.itineraries.delete(itineraryId);
+  }
+
+  clear(): void {
+    this.itineraries.clear();
+  }
+}
+
+// =============================================================================
+// FILE-BACKED STORE
+// =============================================================================
+
+export class FileItineraryStore implements ItineraryStore {
+  private readonly file: JsonFileStore<SavedItinerary>;
+
+  constructor(filePath: string) {
+    this.file = new JsonFileStore(filePath, itinerary => itinerary.id, 'itinerary store');
+  }
+
+  async get(userId: string, itineraryId: string): Promise<SavedItinerary | null> {
+    const itinerary = await this.file.get(itineraryId);
+    // Another user's itinerary is indistinguishable from a missing one
+    return itinerary && itinerary.userId === userId ? itinerary : null;
+  }
+
+  save(itinerary: SavedItinerary): Promise<void> {
+    return this.file.set(itinerary);
+  }
+
+  async delete(userId: string, itineraryId: string): Promise<boolean> {
+    if (!(await this.get(userId, itineraryId))) return false;
+    return this.file.delete(itineraryId);
+  }
+}
+
+// =============================================================================
+// SINGLETON INSTANCE
+// =============================================================================
+
+let itineraryStoreInstance: ItineraryStore | null = null;
+
+export function getItineraryStore(): ItineraryStore {
+  if (!itineraryStoreInstance) {
+    const filePath = process.env.ITINERARY_STORE_PATH || path.join(process.cwd(), '.data', 'itineraries.json');
+    itineraryStoreInstance = new FileItineraryStore(filePath);
+  }
+  return itineraryStoreInstance;
+}
+
+export function setItineraryStore(store: ItineraryStore): void {
+  itineraryStoreInstance = store;
+}
@@ -0,0 +1,83 @@
+// JSON file persistence
+// A keyed collection held in memory and written to one JSON file, shared by the file-backed stores
+
+import { promises as fs } from 'fs';
+import path from 'path';
+
+// =============================================================================
+// JSON FILE STORE
+// =============================================================================
+
+export class JsonFileStore<T> {
+  private items: Map<string, T> | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  /**
+   * @param keyOf - Extracts the key each item is stored under
+   * @param label - Names the store in log messages
+   */
+  constructor(
+    private readonly filePath: string,
+    private readonly keyOf: (item: T) => string,
+    private readonly label: string
+  ) {}
+
+  async get(key: string): Promise<T | null> {
+    const items = await this.load();
+    return items.get(key) ?? null;
+  }
+
+  async values(): Promise<T[]> {
+    const items = await this.load();
+    return Array.from(items.values());
+  }
+
+  async set(item: T): Promise<void> {
+    const items = await this.load();
+    items.set(this.keyOf(item), item);
+    await this.persist(items);
+  }
+
+  async delete(key: string): Promise<boolean> {
+    const items = await this.load();
+    const deleted = items.delete(key);
+    if (deleted) {
+      await this.persist(items);
+    }
+    return deleted;
+  }
+
+  private async load(): Promise<Map<string, T>> {
+    if (this.items) {
+      return this.items;
+    }
+
+    try {
+      const contents = await fs.readFile(this.filePath, 'utf8');
+      const parsed: T[] = JSON.parse(contents);
+      this.items = new Map(parsed.map(item => [this.keyOf(item), item]));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error(`Failed to read ${this.label}, starting empty:`, error);
+      }
+      this.items = new Map();
+    }
+
+    return this.items;
+  }
+
+  private persist(items: Map<string, T>): Promise<void> {
+    // Writes go through a temp file and a rename, one at a time, so a crash or two
+    // concurrent saves can never leave a half-written file behind
+    this.writeQueue = this.writeQueue
+      .catch(() => undefined)
+      .then(async () => {
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+        const tempPath = `${this.filePath}.tmp`;
+        await fs.writeFile(tempPath, JSON.stringify(Array.from(items.values()), null, 2), 'utf8');
+        await fs.rename(tempPath, this.filePath);
+      });
+
+    return this.writeQueue;
+  }
+}
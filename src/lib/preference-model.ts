@@ -0,0 +1,292 @@
+// Learned preference model
+// Turns a user's interaction history into decaying cuisine, price and ambiance affinities
+
+import path from 'path';
+import type {
+  Business,
+  InteractionHistoryEntry,
+  LearnedPreferenceModel,
+  PriceRange
+} from './types';
+import { PRICE_RANGES } from './constants';
+import { JsonFileStore } from './json-file-store';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface PreferenceAffinity {
+  score: number; // 0-1 match between the business and the learned affinities
+  confidence: number; // 0-1, grows with the amount of recent evidence
+  matches: string[]; // Human-readable reasons, e.g. "Italian"
+}
+
+export interface PreferenceModelStore {
+  get(userId: string): Promise<LearnedPreferenceModel | null>;
+  save(model: LearnedPreferenceModel): Promise<void>;
+  delete(userId: string): Promise<boolean>;
+}
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+// Stronger signals count for more; preference updates are already explicit preferences
+const EVENT_WEIGHTS: Partial<Record<InteractionHistoryEntry['type'], number>> = {
+  suggestion_clicked: 0.5,
+  business_selected: 1,
+  booking_attempted: 2
+};
+
+// Affinities halve every 30 days without new interactions
+const HALF_LIFE_DAYS = 30;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Evidence needed before learned affinities are fully trusted
+const FULL_CONFIDENCE_EVIDENCE = 5;
+
+// Contribution of each dimension to the combined affinity score
+const DIMENSION_WEIGHTS = { cuisine: 0.5, price: 0.3, ambiance: 0.2 };
+
+// Yelp category aliases that suggest an ambiance, matching the onboarding options
+const AMBIANCE_CATEGORIES: Record<string, string[]> = {
+  casual: ['diners', 'burgers', 'pizza', 'sandwiches', 'hotdogs', 'tacos', 'foodtrucks', 'delis'],
+  romantic: ['wine_bars', 'french', 'tapasmallplates', 'fondue', 'champagne_bars'],
+  family: ['pizza', 'buffets', 'icecream', 'diners', 'bbq'],
+  trendy: ['gastropubs', 'newamerican', 'cocktailbars', 'poke', 'ramen', 'speakeasies'],
+  quiet: ['tea', 'cafes', 'teppanyaki', 'kaiseki'],
+  lively: ['sportsbars', 'pubs', 'beerbar', 'karaoke', 'tapas', 'beergardens']
+};
+
+// =============================================================================
+// MODEL UPDATES
+// =============================================================================
+
+export function createPreferenceModel(userId: string, now: Date = new Date()): LearnedPreferenceModel {
+  return {
+    userId,
+    cuisines: {},
+    prices: {},
+    ambiance: {},
+    evidence: 0,
+    lastEventAt: null,
+    decayedAt: now.toISOString()
+  };
+}
+
+function decayRecord<K extends string>(record: Partial<Record<K, number>>, factor: number): Partial<Record<K, number>> {
+  const decayed: Partial<Record<K, number>> = {};
+  (Object.entries(record) as Array<[K, number]>).forEach(([key, value]) => {
+    const next = value * factor;
+    // Drop affinities that have faded to noise
+    if (next >= 0.01) decayed[key] = Math.round(next * 1000) / 1000;
+  });
+  return decayed;
+}
+
+/**
+ * Exponentially decay every affinity from the model's last decay time to `at`
+ */
+export function decayPreferenceModel(model: LearnedPreferenceModel, at: Date): LearnedPreferenceModel {
+  // An empty model has nothing to decay, so it simply starts its clock at the first event
+  if (model.evidence <= 0) return { ...model, decayedAt: at.toISOString() };
+
+  const elapsedDays = (at.getTime() - new Date(model.decayedAt).getTime()) / MS_PER_DAY;
+  if (elapsedDays <= 0) return model;
+
+  const factor = Math.pow(0.5, elapsedDays / HALF_LIFE_DAYS);
+  return {
+    ...model,
+    cuisines: decayRecord(model.cuisines, factor) as Record<string, number>,
+    prices: decayRecord(model.prices, factor),
+    ambiance: decayRecord(model.ambiance, factor) as Record<string, number>,
+    evidence: Math.round(model.evidence * factor * 1000) / 1000,
+    decayedAt: at.toISOString()
+  };
+}
+
+function getAmbiances(business: Pick<Business, 'categories'>): string[] {
+  const aliases = (business.categories || []).map(category => category.alias.toLowerCase());
+  return Object.keys(AMBIANCE_CATEGORIES).filter(ambiance =>
+    AMBIANCE_CATEGORIES[ambiance].some(alias => aliases.includes(alias))
+  );
+}
+
+// Interaction payloads carry the business directly or inside a clicked suggestion
+function getInteractionBusiness(entry: InteractionHistoryEntry): Business | null {
+  const business = entry.data?.business ?? entry.data?.suggestion?.data?.business;
+  return business && typeof business === 'object' && Array.isArray(business.categories) ? business : null;
+}
+
+function addTo(record: Record<string, number>, key: string, amount: number): void {
+  record[key] = Math.round(((record[key] ?? 0) + amount) * 1000) / 1000;
+}
+
+/**
+ * Apply interactions newer than the model's last event, oldest first. Timestamps come from the
+ * client, so any in the future are clamped to `now` rather than pushing lastEventAt past later events.
+ */
+export function updatePreferenceModel(
+  model: LearnedPreferenceModel,
+  history: InteractionHistoryEntry[],
+  now: Date = new Date()
+): LearnedPreferenceModel {
+  const since = model.lastEventAt ? new Date(model.lastEventAt).getTime() : -Infinity;
+
+  const entries = history
+    .map(entry => ({ entry, at: new Date(Math.min(new Date(entry.timestamp).getTime(), now.getTime())) }))
+    .filter(({ at }) => !Number.isNaN(at.getTime()) && at.getTime() > since)
+    .sort((a, b) => a.at.getTime() - b.at.getTime());
+
+  return entries.reduce((current, { entry, at }) => {
+    const weight = EVENT_WEIGHTS[entry.type];
+    const business = getInteractionBusiness(entry);
+    const next = decayPreferenceModel(current, at);
+    next.lastEventAt = at.toISOString();
+
+    if (!weight || !business) return next;
+
+    const cuisines = { ...next.cuisines };
+    const prices = { ...next.prices } as Record<string, number>;
+    const ambiance = { ...next.ambiance };
+
+    business.categories.forEach(category => addTo(cuisines, category.alias.toLowerCase(), weight));
+    if (PRICE_RANGES.includes(business.price?.trim() as PriceRange)) {
+      addTo(prices, business.price.trim(), weight);
+    }
+    getAmbiances(business).forEach(key => addTo(ambiance, key, weight));
+
+    return {
+      ...next,
+      cuisines,
+      prices: prices as LearnedPreferenceModel['prices'],
+      ambiance,
+      evidence: Math.round((next.evidence + weight) * 1000) / 1000
+    };
+  }, model);
+}
+
+// =============================================================================
+// SCORING
+// =============================================================================
+
+function relativeAffinity(record: Record<string, number>, keys: string[]): { score: number; key: string | null } {
+  const max = Math.max(0, ...Object.values(record));
+  if (max === 0) return { score: 0, key: null };
+
+  return keys.reduce<{ score: number; key: string | null }>((best, key) => {
+    const score = (record[key] ?? 0) / max;
+    return score > best.score ? { score, key } : best;
+  }, { score: 0, key: null });
+}
+
+/**
+ * How well a business matches the learned affinities; null when the model has no usable evidence
+ */
+export function getPreferenceAffinity(
+  model: LearnedPreferenceModel,
+  business: Business,
+  now: Date = new Date()
+): PreferenceAffinity | null {
+  const current = decayPreferenceModel(model, now);
+  if (current.evidence <= 0) return null;
+
+  const cuisine = relativeAffinity(current.cuisines, business.categories.map(category => category.alias.toLowerCase()));
+  const price = relativeAffinity(current.prices as Record<string, number>, business.price ? [business.price.trim()] : []);
+  const ambiance = relativeAffinity(current.ambiance, getAmbiances(business));
+
+  const matches: string[] = [];
+  if (cuisine.key && cuisine.score >= 0.5) {
+    matches.push(business.categories.find(category => category.alias.toLowerCase() === cuisine.key)?.title ?? cuisine.key);
+  }
+  if (price.key && price.score >= 0.5) matches.push(`${price.key} places`);
+  if (ambiance.key && ambiance.score >= 0.5) matches.push(`${ambiance.key} spots`);
+
+  return {
+    score: cuisine.score * DIMENSION_WEIGHTS.cuisine
+      + price.score * DIMENSION_WEIGHTS.price
+      + ambiance.score * DIMENSION_WEIGHTS.ambiance,
+    confidence: Math.min(1, current.evidence / FULL_CONFIDENCE_EVIDENCE),
+    matches
+  };
+}
+
+// =============================================================================
+// STORES
+// =============================================================================
+
+export class InMemoryPreferenceModelStore implements PreferenceModelStore {
+  private models = new Map<string, LearnedPreferenceModel>();
+
+  async get(userId: string): Promise<LearnedPreferenceModel | null> {
+    return this.models.get(userId) ?? null;
+  }
+
+  async save(model: LearnedPreferenceModel): Promise<void> {
+    this.models.set(model.userId, model);
+  }
+
+  async delete(userId: string): Promise<boolean> {
+    return this.models.delete(userId);
+  }
+
+  clear(): void {
+    this.models.clear();
+  }
+}
+
+export class FilePreferenceModelStore implements PreferenceModelStore {
+  private readonly file: JsonFileStore<LearnedPreferenceModel>;
+
+  constructor(filePath: string) {
+    this.file = new JsonFileStore(filePath, model => model.userId, 'preference store');
+  }
+
+  get(userId: string): Promise<LearnedPreferenceModel | null> {
+    return this.file.get(userId);
+  }
+
+  save(model: LearnedPreferenceModel): Promise<void> {
+    return this.file.set(model);
+  }
+
+  delete(userId: string): Promise<boolean> {
+    return this.file.delete(userId);
+  }
+}
+
+// =============================================================================
+// SINGLETON INSTANCE
+// =============================================================================
+
+let preferenceModelStoreInstance: PreferenceModelStore | null = null;
+
+export function getPreferenceModelStore(): PreferenceModelStore {
+  if (!preferenceModelStoreInstance) {
+    const filePath = process.env.PREFERENCE_STORE_PATH || path.join(process.cwd(), '.data', 'preferences.json');
+    preferenceModelStoreInstance = new FilePreferenceModelStore(filePath);
+  }
+  return preferenceModelStoreInstance;
+}
+
+export function setPreferenceModelStore(store: PreferenceModelStore): void {
+  preferenceModelStoreInstance = store;
+}
+
+/**
+ * Load a user's model (keyed by Firebase uid), fold in new interactions and persist the result
+ */
+export async function learnFromInteractions(
+  userId: string,
+  history: InteractionHistoryEntry[] = []
+): Promise<LearnedPreferenceModel> {
+  const store = getPreferenceModelStore();
+  const existing = await store.get(userId);
+  const model = updatePreferenceModel(existing ?? createPreferenceModel(userId), history);
+
+  if (!existing || model.lastEventAt !== existing.lastEventAt) {
+    await store.save(model);
+  }
+
+  return model;
+}
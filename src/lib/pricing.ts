@@ -0,0 +1,258 @@
+// Price quoting for travel bookings
+// Derives nightly and ticket prices from the business price tier, date, room and ticket type
+
+import type { Business } from './types';
+import type { BookingDetails } from './booking-orchestrator';
+import { addBookingDays, listStayNights } from './booking-dates';
+
+// =============================================================================
+// TYPES AND INTERFACES
+// =============================================================================
+
+export type QuotableCategory = 'accommodation' | 'attraction' | 'entertainment';
+
+export type PriceTier = '$' | '$$' | '$$$' | '$$$$';
+
+export type Season = 'peak' | 'shoulder' | 'off';
+
+export interface PriceQuoteLineItem {
+  type: 'base' | 'tax' | 'fee';
+  description: string;
+  unitPrice: number;
+  quantity: number;
+  amount: number;
+}
+
+export interface PriceQuote {
+  category: QuotableCategory;
+  currency: string;
+  priceTier: PriceTier | null;
+  lineItems: PriceQuoteLineItem[];
+  subtotal: number;
+  taxes: number;
+  fees: number;
+  total: number;
+  quotedAt: string;
+}
+
+interface CategoryPricing {
+  // Base unit price (per room-night or per ticket) by price tier
+  basePrices: Record<PriceTier, number>;
+  defaultTier: PriceTier;
+  // Days of the week (0 = Sunday) that carry the weekend premium
+  weekendDays: number[];
+  weekendMultiplier: number;
+  taxRate: number;
+  taxLabel: string;
+  fee: { label: string; perUnit?: number; rate?: number };
+}
+
+// =============================================================================
+// PRICING TABLE
+// =============================================================================
+
+export const PRICING_CURRENCY = 'USD';
+
+const CATEGORY_PRICING: Record<QuotableCategory, CategoryPricing> = {
+  accommodation: {
+    basePrices: { '$': 95, '$$': 150, '$$$': 260, '$$$$': 450 },
+    defaultTier: '$$',
+    weekendDays: [5, 6], // Friday and Saturday nights
+    weekendMultiplier: 1.2,
+    taxRate: 0.12,
+    taxLabel: 'Occupancy tax',
+    fee: { label: 'Service fee', rate: 0.05 }
+  },
+  attraction: {
+    basePrices: { '$': 15, '$$': 25, '$$$': 40, '$$$$': 65 },
+    defaultTier: '$$',
+    weekendDays: [0, 6],
+    weekendMultiplier: 1.1,
+    taxRate: 0.08,
+    taxLabel: 'Sales tax',
+    fee: { label: 'Booking fee', perUnit: 2 }
+  },
+  entertainment: {
+    basePrices: { '$': 30, '$$': 45, '$$$': 75, '$$$$': 120 },
+    defaultTier: '$$',
+    weekendDays: [5, 6],
+    weekendMultiplier: 1.15,
+    taxRate: 0.08,
+    taxLabel: 'Sales tax',
+    fee: { label: 'Ticketing fee', perUnit: 4.5 }
+  }
+};
+
+const SEASON_MULTIPLIERS: Record<Season, number> = {
+  peak: 1.25,
+  shoulder: 1.1,
+  off: 0.9
+};
+
+// Months are 1-based; everything not listed is off-season
+const SEASON_MONTHS: Record<Exclude<Season, 'off'>, number[]> = {
+  peak: [6, 7, 8, 12],
+  shoulder: [4, 5, 9, 10]
+};
+
+// Matched against the lower-cased room/ticket type; the first matching keyword wins
+const ROOM_TYPE_MULTIPLIERS: Array<[string, number]> = [
+  ['suite', 1.9],
+  ['family', 1.5],
+  ['deluxe', 1.35],
+  ['king', 1.15],
+  ['standard', 1]
+];
+
+const TICKET_TYPE_MULTIPLIERS: Array<[string, number]> = [
+  ['vip', 2],
+  ['premium', 1.6],
+  ['child', 0.6],
+  ['student', 0.75],
+  ['senior', 0.8],
+  ['general', 1],
+  ['adult', 1]
+];
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function parseDate(date: string): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+function roundCurrency(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function typeMultiplier(table: Array<[string, number]>, type?: string): number {
+  if (!type) return 1;
+  const normalized = type.toLowerCase();
+  return table.find(([keyword]) => normalized.includes(keyword))?.[1] ?? 1;
+}
+
+export function getSeason(date: string): Season {
+  const month = parseDate(date).getMonth() + 1;
+  if (SEASON_MONTHS.peak.includes(month)) return 'peak';
+  if (SEASON_MONTHS.shoulder.includes(month)) return 'shoulder';
+  return 'off';
+}
+
+// Own keys only: `in` would also accept Object.prototype members such as "constructor" from request input
+function hasOwnKey(table: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(table, key);
+}
+
+export function getPriceTier(business?: Pick<Business, 'price'>): PriceTier | null {
+  const price = business?.price?.trim();
+  return price && hasOwnKey(CATEGORY_PRICING.accommodation.basePrices, price) ? price as PriceTier : null;
+}
+
+export function isQuotableCategory(category: string): category is QuotableCategory {
+  return hasOwnKey(CATEGORY_PRICING, category);
+}
+
+// =============================================================================
+// QUOTING
+// =============================================================================
+
+function unitPriceFor(pricing: CategoryPricing, tier: PriceTier, date: string, typeFactor: number): {
+  price: number;
+  isWeekend: boolean;
+  season: Season;
+} {
+  const isWeekend = pricing.weekendDays.includes(parseDate(date).getDay());
+  const season = getSeason(date);
+  const price = pricing.basePrices[tier]
+    * (isWeekend ? pricing.weekendMultiplier : 1)
+    * SEASON_MULTIPLIERS[season]
+    * typeFactor;
+
+  return { price: roundCurrency(price), isWeekend, season };
+}
+
+function describeRate(date: string, isWeekend: boolean, season: Season): string {
+  return `${date} (${isWeekend ? 'weekend' : 'weekday'}, ${season} season)`;
+}
+
+function baseLineItems(category: QuotableCategory, tier: PriceTier, details: BookingDetails): PriceQuoteLineItem[] {
+  const pricing = CATEGORY_PRICING[category];
+
+  if (category === 'accommodation') {
+    const checkIn = details.checkInDate || details.date;
+    const checkOut = details.checkOutDate || addBookingDays(checkIn, 1);
+    const rooms = details.numberOfRooms || 1;
+    const roomLabel = details.roomType || 'Standard room';
+
+    // One line per night so weekend and season rates stay visible
+    return listStayNights(checkIn, checkOut).map((night): PriceQuoteLineItem => {
+      const rate = unitPriceFor(pricing, tier, night, typeMultiplier(ROOM_TYPE_MULTIPLIERS, details.roomType));
+      return {
+        type: 'base',
+        description: `${roomLabel}, night of ${describeRate(night, rate.isWeekend, rate.season)}`,
+        unitPrice: rate.price,
+        quantity: rooms,
+        amount: roundCurrency(rate.price * rooms)
+      };
+    });
+  }
+
+  const tickets = details.numberOfTickets || details.partySize || 1;
+  const ticketLabel = details.ticketType || 'General admission';
+  const rate = unitPriceFor(pricing, tier, details.date, typeMultiplier(TICKET_TYPE_MULTIPLIERS, details.ticketType));
+
+  return [{
+    type: 'base',
+    description: `${ticketLabel} ticket, ${describeRate(details.date, rate.isWeekend, rate.season)}`,
+    unitPrice: rate.price,
+    quantity: tickets,
+    amount: roundCurrency(rate.price * tickets)
+  }];
+}
+
+export function quoteBooking(
+  category: QuotableCategory,
+  business: Pick<Business, 'price'> | undefined,
+  details: BookingDetails
+): PriceQuote {
+  const pricing = CATEGORY_PRICING[category];
+  const priceTier = getPriceTier(business);
+  const lineItems = baseLineItems(category, priceTier ?? pricing.defaultTier, details);
+
+  const subtotal = roundCurrency(lineItems.reduce((sum, item) => sum + item.amount, 0));
+  const units = lineItems.reduce((sum, item) => sum + item.quantity, 0);
+
+  const fees = pricing.fee.perUnit !== undefined
+    ? roundCurrency(pricing.fee.perUnit * units)
+    : roundCurrency(subtotal * (pricing.fee.rate ?? 0));
+  lineItems.push({
+    type: 'fee',
+    description: pricing.fee.label,
+    unitPrice: pricing.fee.perUnit ?? fees,
+    quantity: pricing.fee.perUnit !== undefined ? units : 1,
+    amount: fees
+  });
+
+  const taxes = roundCurrency(subtotal * pricing.taxRate);
+  lineItems.push({
+    type: 'tax',
+    description: `${pricing.taxLabel} (${Math.round(pricing.taxRate * 100)}%)`,
+    unitPrice: taxes,
+    quantity: 1,
+    amount: taxes
+  });
+
+  return {
+    category,
+    currency: PRICING_CURRENCY,
+    priceTier,
+    lineItems,
+    subtotal,
+    taxes,
+    fees,
+    total: roundCurrency(subtotal + fees + taxes),
+    quotedAt: new Date().toISOString()
+  };
+}
@@ -0,0 +1,528 @@
+// Restaurant reservation providers
+// Adapts the Yelp Reservations API (or a local stub server speaking the same wire format)
+// to the availability / hold / reserve flow used by the booking routes
+
+import type { ApiResponse, Business, ContactInfo } from './types';
+import { YELP_API_CONFIG, TIME_SLOTS } from './constants';
+
+// =============================================================================
+// TYPES AND INTERFACES
+// =============================================================================
+
+export interface ReservationSlotParams {
+  businessId: string;
+  date: string;
+  time: string;
+  partySize: number;
+}
+
+export interface ReservationAvailability {
+  available_times: string[];
+  booking_url?: string;
+}
+
+export interface ReservationHold {
+  hold_id: string;
+  expires_at: string;
+  date: string;
+  time: string;
+  partySize: number;
+}
+
+export interface ReservationConfirmation {
+  confirmation_id: string;
+  status: 'confirmed' | 'pending';
+  confirmation_url?: string;
+}
+
+export interface ReservationCustomerParams {
+  businessId: string;
+  holdId: string;
+  slot: ReservationSlotParams;
+  customer: ContactInfo;
+  notes?: string;
+}
+
+export interface ReservationProvider {
+  readonly name: string;
+  checkAvailability(params: ReservationSlotParams): Promise<ApiResponse<ReservationAvailability>>;
+  holdSlot(params: ReservationSlotParams): Promise<ApiResponse<ReservationHold>>;
+  releaseHold(businessId: string, holdId: string): Promise<ApiResponse<{ released: boolean }>>;
+  makeReservation(params: ReservationCustomerParams): Promise<ApiResponse<ReservationConfirmation>>;
+  cancelReservation(confirmationId: string): Promise<ApiResponse<{ cancelled: boolean }>>;
+}
+
+export type ReservationErrorCode =
+  | 'NO_ONLINE_RESERVATIONS'
+  | 'SLOT_UNAVAILABLE'
+  | 'HOLD_EXPIRED'
+  | 'INVALID_RESERVATION_REQUEST'
+  | 'AUTHENTICATION_ERROR'
+  | 'RATE_LIMIT_ERROR'
+  | 'PROVIDER_UNAVAILABLE'
+  | 'RESERVATION_FAILED';
+
+export type ReservationTransport = (url: string, init: RequestInit) => Promise<Response>;
+
+export interface YelpReservationProviderConfig {
+  apiKey: string;
+  baseUrl?: string;
+  timeout?: number;
+  transport?: ReservationTransport;
+}
+
+// =============================================================================
+// WIRE FORMAT (Yelp Reservations API)
+// =============================================================================
+
+interface YelpOpeningsResponse {
+  reservation_times?: Array<{
+    date: string;
+    times: Array<{ time: string; credit_card_required?: boolean }>;
+  }>;
+}
+
+interface YelpHoldResponse {
+  hold_id: string;
+  expires_at: number;
+}
+
+interface YelpReservationResponse {
+  reservation_id: string;
+  confirmation_url?: string;
+}
+
+interface YelpErrorResponse {
+  error?: {
+    code?: string;
+    description?: string;
+  };
+}
+
+const RESERVATION_ENDPOINTS = {
+  OPENINGS: (businessId: string) => `/v3/bookings/${encodeURIComponent(businessId)}/openings`,
+  HOLDS: (businessId: string) => `/v3/bookings/${encodeURIComponent(businessId)}/holds`,
+  HOLD: (businessId: string, holdId: string) =>
+    `/v3/bookings/${encodeURIComponent(businessId)}/holds/${encodeURIComponent(holdId)}`,
+  RESERVATIONS: (businessId: string) => `/v3/bookings/${encodeURIComponent(businessId)}/reservations`,
+  CANCEL: (reservationId: string) => `/v3/bookings/reservation/${encodeURIComponent(reservationId)}/cancel`,
+} as const;
+
+// Yelp error codes grouped by the provider-neutral code they map to
+const YELP_ERROR_CODES: Record<string, ReservationErrorCode> = {
+  BUSINESS_NOT_FOUND: 'NO_ONLINE_RESERVATIONS',
+  BUSINESS_UNAVAILABLE: 'NO_ONLINE_RESERVATIONS',
+  NOT_ON_YELP_RESERVATIONS: 'NO_ONLINE_RESERVATIONS',
+  SLOT_UNAVAILABLE: 'SLOT_UNAVAILABLE',
+  TIME_SLOT_UNAVAILABLE: 'SLOT_UNAVAILABLE',
+  HOLD_FAILED: 'SLOT_UNAVAILABLE',
+  HOLD_EXPIRED: 'HOLD_EXPIRED',
+  HOLD_NOT_FOUND: 'HOLD_EXPIRED',
+  VALIDATION_ERROR: 'INVALID_RESERVATION_REQUEST',
+  INVALID_PARAMETER: 'INVALID_RESERVATION_REQUEST',
+};
+
+export function mapReservationError(status: number, body: YelpErrorResponse | null): {
+  code: ReservationErrorCode;
+  message: string;
+} {
+  const yelpCode = body?.error?.code;
+  const description = body?.error?.description;
+
+  if (yelpCode && YELP_ERROR_CODES[yelpCode]) {
+    return { code: YELP_ERROR_CODES[yelpCode], message: description || yelpCode };
+  }
+
+  if (status === 401 || status === 403) {
+    return { code: 'AUTHENTICATION_ERROR', message: description || 'Reservation service rejected the API key' };
+  }
+  if (status === 404) {
+    return { code: 'NO_ONLINE_RESERVATIONS', message: description || 'This business does not take online reservations' };
+  }
+  if (status === 429) {
+    return { code: 'RATE_LIMIT_ERROR', message: description || 'Too many reservation requests' };
+  }
+  if (status >= 500) {
+    return { code: 'PROVIDER_UNAVAILABLE', message: description || 'Reservation service is temporarily unavailable' };
+  }
+
+  return { code: 'RESERVATION_FAILED', message: description || 'Reservation request failed' };
+}
+
+export function supportsOnlineReservations(business: Business): boolean {
+  return Boolean(business.reservationUrl) || business.transactions.includes('restaurant_reservation');
+}
+
+function splitName(name: string): { first_name: string; last_name: string } {
+  const [first, ...rest] = name.trim().split(/\s+/);
+  return { first_name: first || name, last_name: rest.join(' ') || first || name };
+}
+
+// =============================================================================
+// YELP RESERVATIONS PROVIDER
+// =============================================================================
+
+export class YelpReservationProvider implements ReservationProvider {
+  readonly name: string = 'yelp';
+  private config: Required<Omit<YelpReservationProviderConfig, 'transport'>>;
+  private transport: ReservationTransport;
+
+  constructor(config: YelpReservationProviderConfig) {
+    this.config = {
+      baseUrl: YELP_API_CONFIG.BASE_URL,
+      timeout: YELP_API_CONFIG.TIMEOUT,
+      ...config,
+    };
+    this.transport = config.transport || ((url, init) => fetch(url, init));
+  }
+
+  async checkAvailability(params: ReservationSlotParams): Promise<ApiResponse<ReservationAvailability>> {
+    const query = new URLSearchParams({
+      date: params.date,
+      time: params.time,
+      covers: params.partySize.toString(),
+    });
+
+    const response = await this.request<YelpOpeningsResponse>(
+      `${RESERVATION_ENDPOINTS.OPENINGS(params.businessId)}?${query.toString()}`,
+      { method: 'GET' }
+    );
+
+    if (!response.success) {
+      return response;
+    }
+
+    const day = response.data.reservation_times?.find(entry => entry.date === params.date);
+
+    return {
+      success: true,
+      data: {
+        available_times: (day?.times || []).map(slot => slot.time).sort(),
+        booking_url: `https://www.yelp.com/reservations/${params.businessId}`,
+      },
+    };
+  }
+
+  async holdSlot(params: ReservationSlotParams): Promise<ApiResponse<ReservationHold>> {
+    const response = await this.request<YelpHoldResponse>(RESERVATION_ENDPOINTS.HOLDS(params.businessId), {
+      method: 'POST',
+      body: new URLSearchParams({
+        date: params.date,
+        time: params.time,
+        covers: params.partySize.toString(),
+        unique_id: `${params.businessId}_${params.date}_${params.time}_${Date.now()}`,
+      }),
+    });
+
+    if (!response.success) {
+      return response;
+    }
+
+    return {
+      success: true,
+      data: {
+        hold_id: response.data.hold_id,
+        expires_at: new Date(response.data.expires_at * 1000).toISOString(),
+        date: params.date,
+        time: params.time,
+        partySize: params.partySize,
+      },
+    };
+  }
+
+  async releaseHold(businessId: string, holdId: string): Promise<ApiResponse<{ released: boolean }>> {
+    const response = await this.request<Record<string, unknown>>(RESERVATION_ENDPOINTS.HOLD(businessId, holdId), {
+      method: 'DELETE',
+    });
+
+    return response.success ? { success: true, data: { released: true } } : response;
+  }
+
+  async makeReservation(params: ReservationCustomerParams): Promise<ApiResponse<ReservationConfirmation>> {
+    const response = await this.request<YelpReservationResponse>(
+      RESERVATION_ENDPOINTS.RESERVATIONS(params.businessId),
+      {
+        method: 'POST',
+        body: new URLSearchParams({
+          hold_id: params.holdId,
+          date: params.slot.date,
+          time: params.slot.time,
+          covers: params.slot.partySize.toString(),
+          unique_id: params.holdId,
+          ...splitName(params.customer.name),
+          email: params.customer.email,
+          phone: params.customer.phone,
+          notes: params.notes || '',
+        }),
+      }
+    );
+
+    if (!response.success) {
+      return response;
+    }
+
+    return {
+      success: true,
+      data: {
+        confirmation_id: response.data.reservation_id,
+        status: 'confirmed',
+        confirmation_url: response.data.confirmation_url,
+      },
+    };
+  }
+
+  async cancelReservation(confirmationId: string): Promise<ApiResponse<{ cancelled: boolean }>> {
+    const response = await this.request<Record<string, unknown>>(RESERVATION_ENDPOINTS.CANCEL(confirmationId), {
+      method: 'POST',
+    });
+
+    return response.success ? { success: true, data: { cancelled: true } } : response;
+  }
+
+  private async request<T>(endpoint: string, init: RequestInit): Promise<ApiResponse<T>> {
+    try {
+      const response = await this.transport(`${this.config.baseUrl}${endpoint}`, {
+        ...init,
+        headers: {
+          'Authorization': `Bearer ${this.config.apiKey}`,
+          'Accept': 'application/json',
+          ...(init.body instanceof URLSearchParams ? { 'Content-Type': 'application/x-www-form-urlencoded' } : {}),
+        },
+        signal: AbortSignal.timeout(this.config.timeout),
+      });
+
+      let body: unknown = null;
+      try {
+        body = await response.json();
+      } catch {
+        // Empty or non-JSON body
+      }
+
+      if (!response.ok) {
+        const mapped = mapReservationError(response.status, body as YelpErrorResponse | null);
+        return {
+          success: false,
+          error: {
+            message: mapped.message,
+            code: mapped.code,
+            details: { status: response.status, endpoint, provider: this.name },
+          },
+        };
+      }
+
+      return { success: true, data: body as T };
+    } catch (error) {
+      const isTimeout = error instanceof Error && (error.name === 'TimeoutError' || error.name === 'AbortError');
+      return {
+        success: false,
+        error: {
+          message: isTimeout ? 'Reservation service timed out' : 'Unable to reach the reservation service',
+          code: 'PROVIDER_UNAVAILABLE',
+          details: error,
+        },
+      };
+    }
+  }
+}
+
+// =============================================================================
+// LOCAL STUB SERVER
+// =============================================================================
+
+export interface LocalReservationServerConfig {
+  coversPerSlot?: number;
+  holdTtlMs?: number;
+  searchWindowMinutes?: number;
+  slots?: readonly string[];
+  // Businesses that answer like a venue that is not on Yelp Reservations
+  unsupportedBusinessIds?: string[];
+}
+
+interface StubBooking {
+  businessId: string;
+  date: string;
+  time: string;
+  covers: number;
+  expiresAt?: number;
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+export class LocalReservationServer {
+  private config: Required<LocalReservationServerConfig>;
+  private holds = new Map<string, StubBooking>();
+  private reservations = new Map<string, StubBooking>();
+  private sequence = 0;
+
+  constructor(config: LocalReservationServerConfig = {}) {
+    this.config = {
+      coversPerSlot: 20,
+      holdTtlMs: 5 * 60 * 1000,
+      searchWindowMinutes: 120,
+      slots: TIME_SLOTS,
+      unsupportedBusinessIds: [],
+      ...config,
+    };
+  }
+
+  // Fetch-compatible entry point so the Yelp provider's mapping runs unchanged
+  readonly transport: ReservationTransport = async (url, init) => {
+    const { pathname, searchParams } = new URL(url);
+    const form = new URLSearchParams(init.body instanceof URLSearchParams ? init.body : (init.body as string) || '');
+    const segments = pathname.split('/').filter(Boolean).map(decodeURIComponent);
+
+    // /v3/bookings/reservation/{id}/cancel
+    if (segments[2] === 'reservation' && segments[4] === 'cancel') {
+      return this.cancel(segments[3]);
+    }
+
+    const [, , businessId, resource, resourceId] = segments;
+    if (this.config.unsupportedBusinessIds.includes(businessId)) {
+      return this.error(404, 'NOT_ON_YELP_RESERVATIONS', 'This business is not on Yelp Reservations');
+    }
+
+    switch (`${init.method || 'GET'} ${resource}`) {
+      case 'GET openings':
+        return this.openings(businessId, searchParams);
+      case 'POST holds':
+        return this.hold(businessId, form);
+      case 'DELETE holds':
+        return this.releaseHold(businessId, resourceId);
+      case 'POST reservations':
+        return this.reserve(businessId, form);
+      default:
+        return this.error(404, 'NOT_FOUND', `No stub route for ${pathname}`);
+    }
+  };
+
+  private openings(businessId: string, query: URLSearchParams): Response {
+    const date = query.get('date') || '';
+    const time = query.get('time') || '19:00';
+    const covers = Number(query.get('covers') || 2);
+
+    const times = this.config.slots
+      .filter(slot => Math.abs(toMinutes(slot) - toMinutes(time)) <= this.config.searchWindowMinutes)
+      .filter(slot => this.remainingCovers(businessId, date, slot) >= covers)
+      .map(slot => ({ time: slot, credit_card_required: false }));
+
+    return Response.json({ reservation_times: [{ date, times }] });
+  }
+
+  private hold(businessId: string, form: URLSearchParams): Response {
+    const date = form.get('date') || '';
+    const time = form.get('time') || '';
+    const covers = Number(form.get('covers') || 0);
+
+    if (!date || !time || covers < 1) {
+      return this.error(400, 'VALIDATION_ERROR', 'date, time and covers are required');
+    }
+
+    if (this.remainingCovers(businessId, date, time) < covers) {
+      return this.error(409, 'SLOT_UNAVAILABLE', `${time} on ${date} is no longer available`);
+    }
+
+    const holdId = `HOLD_${++this.sequence}_${Date.now()}`;
+    const expiresAt = Date.now() + this.config.holdTtlMs;
+    this.holds.set(holdId, { businessId, date, time, covers, expiresAt });
+
+    return Response.json({ hold_id: holdId, expires_at: Math.floor(expiresAt / 1000) });
+  }
+
+  private releaseHold(businessId: string, holdId: string): Response {
+    const hold = this.holds.get(holdId);
+    if (!hold || hold.businessId !== businessId) {
+      return this.error(404, 'HOLD_NOT_FOUND', 'Hold not found');
+    }
+
+    this.holds.delete(holdId);
+    return Response.json({});
+  }
+
+  private reserve(businessId: string, form: URLSearchParams): Response {
+    const holdId = form.get('hold_id') || '';
+    const hold = this.holds.get(holdId);
+
+    if (!hold || hold.businessId !== businessId) {
+      return this.error(404, 'HOLD_NOT_FOUND', 'Hold not found');
+    }
+
+    this.holds.delete(holdId);
+    if (hold.expiresAt! < Date.now()) {
+      return this.error(410, 'HOLD_EXPIRED', 'The hold on this time slot has expired');
+    }
+
+    const reservationId = `RES_${this.sequence}_${Date.now()}`.toUpperCase();
+    this.reservations.set(reservationId, { ...hold, expiresAt: undefined });
+
+    return Response.json({
+      reservation_id: reservationId,
+      confirmation_url: `https://www.yelp.com/reservations/${businessId}/confirmation/${reservationId}`,
+    });
+  }
+
+  private cancel(reservationId: string): Response {
+    if (!this.reservations.delete(reservationId)) {
+      return this.error(404, 'RESERVATION_NOT_FOUND', 'Reservation not found');
+    }
+    return Response.json({});
+  }
+
+  private remainingCovers(businessId: string, date: string, time: string): number {
+    const now = Date.now();
+    let taken = 0;
+
+    this.holds.forEach((hold, holdId) => {
+      if (hold.expiresAt! < now) {
+        this.holds.delete(holdId);
+      } else if (hold.businessId === businessId && hold.date === date && hold.time === time) {
+        taken += hold.covers;
+      }
+    });
+
+    this.reservations.forEach(reservation => {
+      if (reservation.businessId === businessId && reservation.date === date && reservation.time === time) {
+        taken += reservation.covers;
+      }
+    });
+
+    return this.config.coversPerSlot - taken;
+  }
+
+  private error(status: number, code: string, description: string): Response {
+    return Response.json({ error: { code, description } }, { status });
+  }
+}
+
+export class LocalReservationProvider extends YelpReservationProvider {
+  readonly name: string = 'local';
+
+  constructor(readonly server: LocalReservationServer = new LocalReservationServer()) {
+    super({ apiKey: 'local-stub', baseUrl: 'http://reservations.local', transport: server.transport });
+  }
+}
+
+// =============================================================================
+// SINGLETON INSTANCE
+// =============================================================================
+
+let reservationProviderInstance: ReservationProvider | null = null;
+
+export function getReservationProvider(): ReservationProvider {
+  if (!reservationProviderInstance) {
+    const apiKey = process.env.YELP_API_KEY;
+
+    // Yelp Reservations requires partner access, so the local stub is the default
+    reservationProviderInstance = process.env.RESERVATION_PROVIDER === 'yelp' && apiKey
+      ? new YelpReservationProvider({ apiKey })
+      : new LocalReservationProvider();
+  }
+
+  return reservationProviderInstance;
+}
+
+export function setReservationProvider(provider: ReservationProvider): void {
+  reservationProviderInstance = provider;
+}
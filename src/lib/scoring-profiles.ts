@@ -0,0 +1,128 @@
+// Named scoring profiles for restaurant decisions
+// Each profile weights the decision factors differently; requests may override individual weights
+
+import type { AppliedScoringProfile, ScoringFactorKey, ScoringWeights } from './types';
+
+// =============================================================================
+// PROFILES
+// =============================================================================
+
+export interface ScoringProfile {
+  id: string;
+  name: string;
+  description: string;
+  weights: ScoringWeights;
+}
+
+export const SCORING_FACTOR_KEYS: ScoringFactorKey[] = ['rating', 'price', 'distance', 'cuisine', 'popularity'];
+
+export const SCORING_FACTOR_NAMES: Record<ScoringFactorKey, string> = {
+  rating: 'Rating',
+  price: 'Price Match',
+  distance: 'Distance',
+  cuisine: 'Cuisine Match',
+  popularity: 'Popularity'
+};
+
+export const DEFAULT_SCORING_PROFILE = 'balanced';
+
+export const SCORING_PROFILES: Record<string, ScoringProfile> = {
+  balanced: {
+    id: 'balanced',
+    name: 'Balanced',
+    description: 'Even trade-off between quality, price and convenience',
+    weights: { rating: 0.3, price: 0.25, distance: 0.2, cuisine: 0.15, popularity: 0.1 }
+  },
+  date_night: {
+    id: 'date_night',
+    name: 'Date night',
+    description: 'Favours highly rated places serving the cuisine you want; price and distance matter less',
+    weights: { rating: 0.35, price: 0.1, distance: 0.1, cuisine: 0.3, popularity: 0.15 }
+  },
+  quick_lunch: {
+    id: 'quick_lunch',
+    name: 'Quick lunch',
+    description: 'Closest affordable option wins',
+    weights: { rating: 0.15, price: 0.25, distance: 0.45, cuisine: 0.05, popularity: 0.1 }
+  },
+  family: {
+    id: 'family',
+    name: 'Family',
+    description: 'Well-reviewed, budget-friendly places that are proven crowd-pleasers',
+    weights: { rating: 0.25, price: 0.3, distance: 0.15, cuisine: 0.1, popularity: 0.2 }
+  }
+};
+
+// =============================================================================
+// VALIDATION
+// =============================================================================
+
+// Weights within this distance of 1 are used as-is; anything else is rescaled
+const WEIGHT_SUM_TOLERANCE = 0.01;
+
+export interface ScoringProfileResolution {
+  isValid: boolean;
+  errors: string[];
+  profile: AppliedScoringProfile;
+}
+
+export function resolveScoringProfile(
+  profileId?: string,
+  overrides?: Partial<Record<string, unknown>>
+): ScoringProfileResolution {
+  const errors: string[] = [];
+  const id = profileId ?? DEFAULT_SCORING_PROFILE;
+  // Own keys only, so "toString" is an unknown profile rather than an Object.prototype member (Object.hasOwn needs es2022)
+  const profile = Object.prototype.hasOwnProperty.call(SCORING_PROFILES, id) ? SCORING_PROFILES[id] : undefined;
+
+  if (!profile) {
+    errors.push(
+      `Unknown scoring profile "${profileId}". Available profiles: ${Object.keys(SCORING_PROFILES).join(', ')}`
+    );
+  }
+
+  const base = profile ?? SCORING_PROFILES[DEFAULT_SCORING_PROFILE];
+  const weights: ScoringWeights = { ...base.weights };
+  let customized = false;
+
+  if (overrides !== undefined && (typeof overrides !== 'object' || overrides === null || Array.isArray(overrides))) {
+    errors.push('Scoring weights must be an object keyed by factor');
+  } else if (overrides) {
+    Object.entries(overrides).forEach(([key, value]) => {
+      if (!SCORING_FACTOR_KEYS.includes(key as ScoringFactorKey)) {
+        errors.push(`Unknown scoring factor "${key}". Valid factors: ${SCORING_FACTOR_KEYS.join(', ')}`);
+        return;
+      }
+      if (typeof value !== 'number' || !Number.isFinite(value) || value < 0 || value > 1) {
+        errors.push(`Weight for "${key}" must be a number between 0 and 1`);
+        return;
+      }
+      weights[key as ScoringFactorKey] = value;
+      customized = true;
+    });
+  }
+
+  const total = SCORING_FACTOR_KEYS.reduce((sum, key) => sum + weights[key], 0);
+  if (total <= 0) {
+    errors.push('At least one scoring weight must be greater than 0');
+  }
+
+  const normalized = total > 0 && Math.abs(total - 1) > WEIGHT_SUM_TOLERANCE;
+  if (normalized) {
+    SCORING_FACTOR_KEYS.forEach(key => {
+      weights[key] = Math.round((weights[key] / total) * 1000) / 1000;
+    });
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+    profile: {
+      id: base.id,
+      name: base.name,
+      weights,
+      customized,
+      normalized
+    }
+  };
+}
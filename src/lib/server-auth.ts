@@ -0,0 +1,117 @@
+// Server-side Firebase authentication for API routes
+// Verifies the ID token a signed-in client sends as a bearer token and checks it belongs to the
+// user whose data the route reads or writes
+
+import { NextRequest, NextResponse } from 'next/server';
+import { App, getApps, initializeApp } from 'firebase-admin/app';
+import { getAuth } from 'firebase-admin/auth';
+
+// =============================================================================
+// TYPES AND INTERFACES
+// =============================================================================
+
+export interface VerifiedIdToken {
+  uid: string;
+}
+
+export interface IdTokenVerifier {
+  verify(idToken: string): Promise<VerifiedIdToken>;
+}
+
+// =============================================================================
+// FIREBASE ADMIN VERIFIER
+// =============================================================================
+
+function getAdminApp(): App {
+  const existing = getApps()[0];
+  if (existing) return existing;
+
+  // Checking an ID token's signature only needs the project id, not a service account.
+  // Set FIREBASE_AUTH_EMULATOR_HOST to accept tokens minted by the auth emulator.
+  return initializeApp({
+    projectId: process.env.FIREBASE_PROJECT_ID || process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID
+  });
+}
+
+export class FirebaseIdTokenVerifier implements IdTokenVerifier {
+  async verify(idToken: string): Promise<VerifiedIdToken> {
+    const decoded = await getAuth(getAdminApp()).verifyIdToken(idToken);
+    return { uid: decoded.uid };
+  }
+}
+
+// =============================================================================
+// REQUEST AUTHORIZATION
+// =============================================================================
+
+export function getBearerToken(request: NextRequest): string | null {
+  const header = request.headers.get('authorization');
+  const match = header?.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1].trim() : null;
+}
+
+function authError(code: 'UNAUTHENTICATED' | 'FORBIDDEN', message: string) {
+  return NextResponse.json(
+    {
+      success: false,
+      error: {
+        code,
+        message,
+        retryable: false
+      }
+    },
+    { status: code === 'UNAUTHENTICATED' ? 401 : 403 }
+  );
+}
+
+/**
+ * Resolves to the signed-in user when the request carries a valid ID token, or to the 401
+ * response to send back when it does not
+ */
+export async function authenticateUser(request: NextRequest): Promise<VerifiedIdToken | NextResponse> {
+  const idToken = getBearerToken(request);
+  if (!idToken) {
+    return authError('UNAUTHENTICATED', 'Sign in to continue');
+  }
+
+  try {
+    return await getIdTokenVerifier().verify(idToken);
+  } catch (error) {
+    console.warn('ID token verification failed:', error);
+    return authError('UNAUTHENTICATED', 'Your session has expired, please sign in again');
+  }
+}
+
+/**
+ * Resolves to an error response unless the request carries a valid ID token for `userId`;
+ * resolves to null when the route may go ahead.
+ */
+export async function authorizeUser(request: NextRequest, userId: string): Promise<NextResponse | null> {
+  const verified = await authenticateUser(request);
+  if (verified instanceof NextResponse) {
+    return verified;
+  }
+
+  if (verified.uid !== userId) {
+    return authError('FORBIDDEN', 'You can only access your own data');
+  }
+
+  return null;
+}
+
+// =============================================================================
+// SINGLETON INSTANCE
+// =============================================================================
+
+let idTokenVerifierInstance: IdTokenVerifier | null = null;
+
+export function getIdTokenVerifier(): IdTokenVerifier {
+  if (!idTokenVerifierInstance) {
+    idTokenVerifierInstance = new FirebaseIdTokenVerifier();
+  }
+  return idTokenVerifierInstance;
+}
+
+export function setIdTokenVerifier(verifier: IdTokenVerifier): void {
+  idTokenVerifierInstance = verifier;
+}
@@ -119,7 +119,7 @@ export function isValidUserPreferences(preferences: unknown): preferences is Use
 export function isValidBookingStatus(status: unknown): status is BookingStatus {
   return (
     typeof status === 'string' &&
-    ['idle', 'checking_availability', 'booking', 'confirmed', 'failed', 'cancelled'].includes(status)
+    ['idle', 'checking_availability', 'held', 'booking', 'confirmed', 'failed', 'cancelled'].includes(status)
   );
 }
 
@@ -19,6 +19,7 @@ export interface UserPreferences {
   ambiance?: string[]; // Multiple ambiance preferences
   partySize?: number;
   distance?: number; // Max distance willing to travel
+  maxPrice?: PriceRange; // Hard price ceiling; priceRange is only a scoring preference
 }
 
 export type PriceRange = '$' | '$$' | '$$$' | '$$$$';
@@ -179,7 +180,7 @@ export interface TravelContext {
     endDate: Date;
   };
   groupSize?: number;
-  budget?: {
+  budget?: { // Whole trip, for the whole group
     min: number;
     max: number;
     currency: string;
@@ -263,6 +264,7 @@ export interface BookingInfo {
 export type BookingStatus = 
   | 'idle' 
   | 'checking_availability' 
+  | 'held' 
   | 'booking' 
   | 'confirmed' 
   | 'failed' 
@@ -384,14 +386,141 @@ export interface DecisionRequest {
   location: Location;
   businesses: Business[];
   conversationContext?: ConversationContext;
+  scoringProfile?: string;
+  scoringWeights?: Partial<ScoringWeights>;
+  preferredDate?: string; // YYYY-MM-DD, defaults to today when only a time is given
+  preferredTime?: string; // HH:MM; candidates closed at this time are never picked
+  learnedPreferences?: LearnedPreferenceModel;
+  explain?: boolean; // Attach a structured explanation trace to the response
+  groupMembers?: GroupMember[]; // Group mode: score every option for each member
+  groupAggregation?: GroupAggregation;
 }
 
 export interface DecisionResponse {
   selectedBusiness: Business;
   reasoning: string;
   confidence: number;
+  confidenceBreakdown?: ConfidenceBreakdown;
   alternatives?: Business[];
+  alternativeDetails?: DecisionAlternative[]; // Same order as alternatives, with a "why this instead" note
   factors: DecisionFactor[];
+  scoringProfile?: AppliedScoringProfile;
+  eliminated?: EliminatedCandidate[]; // Candidates removed by hard constraints before scoring
+  relaxation?: ConstraintRelaxation; // Set when constraints had to be loosened to find any option
+  explanation?: DecisionExplanation; // Only when the request set explain
+  group?: GroupDecisionSummary; // Only in group mode
+  budgetWarning?: string; // Set when the pick costs more than the trip budget has left
+}
+
+export type GroupAggregation = 'average' | 'least_misery' | 'approval';
+
+export interface GroupMember {
+  id: string;
+  name?: string;
+  preferences: UserPreferences;
+}
+
+export interface MemberSatisfaction {
+  memberId: string;
+  name?: string;
+  score: number; // 0-1 score of the selected option for this member
+  approves: boolean; // Score clears the approval threshold
+}
+
+export interface GroupDecisionSummary {
+  aggregation: GroupAggregation;
+  groupScore: number;
+  members: MemberSatisfaction[];
+}
+
+export interface ExplanationFactor {
+  name: string;
+  rawInput: string | number | null; // The business data the factor was scored from
+  score: number; // Normalised 0-1
+  weight: number;
+  contribution: number; // Points added to (or, for penalties, removed from) the final score
+}
+
+export type CounterfactualChange = DecisionConstraintKey | 'price_range' | 'cuisine' | 'scoring_profile';
+
+export interface DecisionCounterfactual {
+  businessId: string;
+  businessName: string;
+  change: CounterfactualChange;
+  description: string; // e.g. "Would have picked Nobu if you were fine with $$$$"
+  score: number; // The option's score under the changed preferences
+}
+
+export interface DecisionExplanation {
+  score: number; // Final score of the selected option; the sum of factor contributions
+  factors: ExplanationFactor[];
+  runnerUp?: { businessId: string; businessName: string; score: number };
+  counterfactuals: DecisionCounterfactual[];
+}
+
+export type ConfidenceComponentKey = 'score_gap' | 'review_volume' | 'data_completeness' | 'candidate_count';
+
+export interface ConfidenceComponent {
+  key: ConfidenceComponentKey;
+  label: string;
+  value: number; // 0-1, higher means more certain
+  weight: number; // Exponent in the weighted geometric mean
+  detail: string;
+}
+
+export interface ConfidenceBreakdown {
+  components: ConfidenceComponent[];
+  missingFields: string[]; // Fields the selected business lacks, e.g. 'price', 'hours'
+}
+
+export interface DecisionAlternative {
+  business: Business;
+  score: number;
+  similarity: number; // 0-1 similarity to the closest option already shown
+  whyInstead: string;
+}
+
+// Affinities learned from a user's interaction history; values decay towards 0 over time
+export interface LearnedPreferenceModel {
+  userId: string;
+  cuisines: Record<string, number>;
+  prices: Partial<Record<PriceRange, number>>;
+  ambiance: Record<string, number>;
+  evidence: number; // Decayed total event weight; higher means more trustworthy affinities
+  lastEventAt: string | null; // ISO timestamp of the newest interaction applied
+  decayedAt: string; // ISO timestamp the affinities were last decayed to
+}
+
+export type DecisionConstraintKey = 'dietary' | 'distance' | 'closed' | 'party_size' | 'price';
+
+export interface ConstraintViolation {
+  constraint: DecisionConstraintKey;
+  reason: string;
+}
+
+export interface EliminatedCandidate {
+  businessId: string;
+  businessName: string;
+  violations: ConstraintViolation[];
+}
+
+export interface ConstraintRelaxation {
+  constraints: DecisionConstraintKey[];
+  suggestion: string;
+  preferences: UserPreferences; // Preferences with the relaxed constraints applied
+  unlockedCount: number;
+}
+
+export type ScoringFactorKey = 'rating' | 'price' | 'distance' | 'cuisine' | 'popularity';
+
+export type ScoringWeights = Record<ScoringFactorKey, number>;
+
+export interface AppliedScoringProfile {
+  id: string;
+  name: string;
+  weights: ScoringWeights;
+  customized: boolean; // true when scoringWeights overrode the profile
+  normalized: boolean; // true when weights were rescaled to sum to 1
 }
 
 export interface DecisionFactor {
@@ -412,6 +541,33 @@ export interface BookingRequest {
   preferredDate: string;
   userContact: ContactInfo;
   specialRequests?: string;
+  holdToken?: string;
+}
+
+export interface BookingHoldRequest {
+  business: Business;
+  partySize: number;
+  preferredTime: string;
+  preferredDate: string;
+}
+
+export interface BookingHoldInfo {
+  holdToken: string;
+  restaurantId: string;
+  date: string;
+  time: string;
+  partySize: number;
+  status: Extract<BookingStatus, 'held'>;
+  expiresAt: string;
+}
+
+export interface BookingHoldResponse {
+  success: boolean;
+  hold?: BookingHoldInfo;
+  alternativeTimes?: string[];
+  error?: BookingError;
+  requiresPhoneCall?: boolean;
+  phoneNumber?: string;
 }
 
 export interface BookingResponse {
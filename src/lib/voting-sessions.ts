@@ -0,0 +1,400 @@
+// Group voting sessions
+// Friends rank the shortlist from a decision; closing the vote turns the tally into the final pick
+
+import { randomUUID } from 'crypto';
+import path from 'path';
+import type { ApiResponse, Business, DecisionResponse } from './types';
+import { VOTING_CONFIG } from './constants';
+import { JsonFileStore } from './json-file-store';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type VotingSessionStatus = 'open' | 'closed' | 'expired';
+
+export interface VotingBallot {
+  participantId: string;
+  participantToken: string; // Issued with the first ballot; needed to replace it
+  name?: string;
+  ranking: string[]; // Business ids, most preferred first; unranked options score nothing
+  submittedAt: string;
+}
+
+export interface VotingTallyEntry {
+  businessId: string;
+  businessName: string;
+  points: number;
+  firstChoices: number;
+}
+
+export interface VotingTally {
+  method: 'borda';
+  entries: VotingTallyEntry[]; // Winner first
+  ballotCount: number;
+}
+
+export interface VotingSession {
+  sessionId: string;
+  title?: string;
+  creatorToken: string; // Given only to whoever created the session; needed to close it
+  status: VotingSessionStatus;
+  options: Business[]; // The engine's pick first, then its alternatives
+  decision: DecisionResponse; // The decision the shortlist came from
+  ballots: VotingBallot[];
+  tally?: VotingTally;
+  finalDecision?: DecisionResponse; // Set once the vote closes with at least one ballot
+  createdAt: string;
+  expiresAt: string;
+  closedAt?: string;
+}
+
+// What anyone with the join link sees: no tokens and no participant ids
+export type PublicVotingBallot = Pick<VotingBallot, 'name' | 'ranking' | 'submittedAt'>;
+
+export interface PublicVotingSession extends Omit<VotingSession, 'creatorToken' | 'ballots'> {
+  ballots: PublicVotingBallot[];
+}
+
+export interface CreateVotingSessionOptions {
+  title?: string;
+  ttlMinutes?: number;
+}
+
+export interface VotingSessionStore {
+  get(sessionId: string): Promise<VotingSession | null>;
+  save(session: VotingSession): Promise<void>;
+}
+
+// =============================================================================
+// TALLYING
+// =============================================================================
+
+/**
+ * Borda count: with n options, a first choice earns n-1 points, a second n-2 and so on.
+ * Ties go to more first choices, then to the engine's original order.
+ */
+export function tallyVotes(options: Business[], ballots: VotingBallot[]): VotingTally {
+  const entries = options.map(business => ({
+    businessId: business.id,
+    businessName: business.name,
+    points: 0,
+    firstChoices: 0
+  }));
+  const byId = new Map(entries.map(entry => [entry.businessId, entry]));
+
+  ballots.forEach(ballot => {
+    ballot.ranking.forEach((businessId, index) => {
+      const entry = byId.get(businessId);
+      if (!entry) return;
+      entry.points += options.length - 1 - index;
+      if (index === 0) entry.firstChoices += 1;
+    });
+  });
+
+  const order = new Map(options.map((business, index) => [business.id, index]));
+  entries.sort((a, b) =>
+    b.points - a.points ||
+    b.firstChoices - a.firstChoices ||
+    (order.get(a.businessId) ?? 0) - (order.get(b.businessId) ?? 0)
+  );
+
+  return { method: 'borda', entries, ballotCount: ballots.length };
+}
+
+function buildFinalDecision(session: VotingSession, tally: VotingTally): DecisionResponse {
+  const byId = new Map(session.options.map(business => [business.id, business]));
+  const [winner, ...rest] = tally.entries.map(entry => byId.get(entry.businessId) as Business);
+  const top = tally.entries[0];
+  const ballots = `${tally.ballotCount} ballot${tally.ballotCount === 1 ? '' : 's'}`;
+
+  return {
+    ...session.decision,
+    selectedBusiness: winner,
+    reasoning: winner.id === session.decision.selectedBusiness.id
+      ? `Your group agreed with my pick: ${winner.name} won the vote with ${top.points} points from ${ballots}.`
+      : `Your group voted for ${winner.name} with ${top.points} points from ${ballots}, over my original pick of ${session.decision.selectedBusiness.name}.`,
+    alternatives: rest,
+    // The engine's per-alternative notes no longer line up with the voted order
+    alternativeDetails: undefined
+  };
+}
+
+function closeWithTally(session: VotingSession, status: Exclude<VotingSessionStatus, 'open'>): VotingSession {
+  const closed: VotingSession = { ...session, status, closedAt: new Date().toISOString() };
+  if (session.ballots.length === 0) {
+    return closed;
+  }
+
+  const tally = tallyVotes(session.options, session.ballots);
+  return { ...closed, tally, finalDecision: buildFinalDecision(session, tally) };
+}
+
+export function toPublicVotingSession(session: VotingSession): PublicVotingSession {
+  const { creatorToken: _creatorToken, ballots, ...rest } = session;
+  return {
+    ...rest,
+    ballots: ballots.map(({ name, ranking, submittedAt }) => ({ name, ranking, submittedAt }))
+  };
+}
+
+// =============================================================================
+// VALIDATION
+// =============================================================================
+
+export function validateBallot(
+  session: VotingSession,
+  participantId: unknown,
+  ranking: unknown
+): { isValid: boolean; errors: string[] } {
+  const errors: string[] = [];
+
+  if (typeof participantId !== 'string' || participantId.trim() === '') {
+    errors.push('participantId must be a non-empty string');
+  }
+
+  if (!Array.isArray(ranking) || ranking.length === 0) {
+    errors.push('ranking must be a non-empty array of business ids');
+  } else {
+    const optionIds = new Set(session.options.map(business => business.id));
+    const unknown = ranking.filter(id => typeof id !== 'string' || !optionIds.has(id));
+    if (unknown.length > 0) {
+      errors.push(`ranking contains options not in this session: ${unknown.join(', ')}`);
+    }
+    if (new Set(ranking).size !== ranking.length) {
+      errors.push('ranking must not list an option more than once');
+    }
+  }
+
+  return { isValid: errors.length === 0, errors };
+}
+
+// =============================================================================
+// IN-MEMORY STORE
+// =============================================================================
+
+export class InMemoryVotingSessionStore implements VotingSessionStore {
+  private sessions = new Map<string, VotingSession>();
+
+  async get(sessionId: string): Promise<VotingSession | null> {
+    return this.sessions.get(sessionId) ?? null;
+  }
+
+  async save(session: VotingSession): Promise<void> {
+    this.sessions.set(session.sessionId, session);
+  }
+
+  clear(): void {
+    this.sessions.clear();
+  }
+}
+
+// =============================================================================
+// FILE-BACKED STORE
+// =============================================================================
+
+export class FileVotingSessionStore implements VotingSessionStore {
+  private readonly file: JsonFileStore<VotingSession>;
+
+  constructor(filePath: string) {
+    this.file = new JsonFileStore(filePath, session => session.sessionId, 'voting session store');
+  }
+
+  get(sessionId: string): Promise<VotingSession | null> {
+    return this.file.get(sessionId);
+  }
+
+  save(session: VotingSession): Promise<void> {
+    return this.file.set(session);
+  }
+}
+
+// =============================================================================
+// SINGLETON INSTANCE
+// =============================================================================
+
+let votingSessionStoreInstance: VotingSessionStore | null = null;
+
+export function getVotingSessionStore(): VotingSessionStore {
+  if (!votingSessionStoreInstance) {
+    const filePath = process.env.VOTING_SESSION_STORE_PATH || path.join(process.cwd(), '.data', 'voting-sessions.json');
+    votingSessionStoreInstance = new FileVotingSessionStore(filePath);
+  }
+  return votingSessionStoreInstance;
+}
+
+export function setVotingSessionStore(store: VotingSessionStore): void {
+  votingSessionStoreInstance = store;
+}
+
+// =============================================================================
+// SESSION LIFECYCLE
+// =============================================================================
+
+/**
+ * Open a vote over a decision's pick and alternatives
+ */
+export async function createVotingSession(
+  decision: DecisionResponse,
+  options: CreateVotingSessionOptions = {}
+): Promise<VotingSession> {
+  const seen = new Set<string>();
+  const shortlist = [decision.selectedBusiness, ...(decision.alternatives || [])]
+    .filter(business => !seen.has(business.id) && !!seen.add(business.id))
+    .slice(0, VOTING_CONFIG.MAX_OPTIONS);
+
+  const ttlMinutes = Math.min(options.ttlMinutes ?? VOTING_CONFIG.DEFAULT_TTL_MINUTES, VOTING_CONFIG.MAX_TTL_MINUTES);
+  const now = Date.now();
+
+  const session: VotingSession = {
+    sessionId: randomUUID(),
+    title: options.title,
+    creatorToken: randomUUID(),
+    status: 'open',
+    options: shortlist,
+    decision,
+    ballots: [],
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + ttlMinutes * 60 * 1000).toISOString()
+  };
+
+  await getVotingSessionStore().save(session);
+  return session;
+}
+
+// Each session's read-modify-write updates run one at a time, so concurrent ballots can't overwrite each other
+const sessionUpdates = new Map<string, Promise<unknown>>();
+
+function withSessionLock<T>(sessionId: string, update: () => Promise<T>): Promise<T> {
+  const next = (sessionUpdates.get(sessionId) ?? Promise.resolve())
+    .catch(() => undefined)
+    .then(update);
+  sessionUpdates.set(sessionId, next);
+
+  const release = () => {
+    if (sessionUpdates.get(sessionId) === next) sessionUpdates.delete(sessionId);
+  };
+  next.then(release, release);
+  return next;
+}
+
+/**
+ * Load a session, closing it with whatever ballots are in once it has expired
+ */
+export function getVotingSession(sessionId: string): Promise<VotingSession | null> {
+  return withSessionLock(sessionId, () => loadVotingSession(sessionId));
+}
+
+async function loadVotingSession(sessionId: string): Promise<VotingSession | null> {
+  const store = getVotingSessionStore();
+  const session = await store.get(sessionId);
+  if (!session) {
+    return null;
+  }
+
+  if (session.status === 'open' && new Date(session.expiresAt).getTime() <= Date.now()) {
+    const expired = closeWithTally(session, 'expired');
+    await store.save(expired);
+    console.log(`Voting session ${sessionId} expired with ${session.ballots.length} ballots`);
+    return expired;
+  }
+
+  return session;
+}
+
+/**
+ * Record a participant's ranking, or replace it when they present the token issued with their first ballot
+ */
+export function castVote(
+  sessionId: string,
+  ballot: Omit<VotingBallot, 'participantToken' | 'submittedAt'>,
+  participantToken?: string
+): Promise<ApiResponse<{ session: VotingSession; participantToken: string }>> {
+  return withSessionLock(sessionId, () => recordVote(sessionId, ballot, participantToken));
+}
+
+async function recordVote(
+  sessionId: string,
+  ballot: Omit<VotingBallot, 'participantToken' | 'submittedAt'>,
+  participantToken?: string
+): Promise<ApiResponse<{ session: VotingSession; participantToken: string }>> {
+  const session = await loadVotingSession(sessionId);
+  if (!session) {
+    return { success: false, error: { code: 'SESSION_NOT_FOUND', message: 'Voting session not found' } };
+  }
+
+  if (session.status !== 'open') {
+    return {
+      success: false,
+      error: { code: 'SESSION_CLOSED', message: `Voting session is ${session.status}` }
+    };
+  }
+
+  const previous = session.ballots.find(existing => existing.participantId === ballot.participantId);
+  if (previous && previous.participantToken !== participantToken) {
+    return {
+      success: false,
+      error: { code: 'FORBIDDEN', message: 'This participant has already voted; send their participantToken to change the ballot' }
+    };
+  }
+  if (!previous && session.ballots.length >= VOTING_CONFIG.MAX_PARTICIPANTS) {
+    return {
+      success: false,
+      error: { code: 'SESSION_FULL', message: `Voting sessions are limited to ${VOTING_CONFIG.MAX_PARTICIPANTS} participants` }
+    };
+  }
+
+  const token = previous?.participantToken ?? randomUUID();
+  const updated: VotingSession = {
+    ...session,
+    ballots: [
+      ...session.ballots.filter(existing => existing !== previous),
+      { ...ballot, participantToken: token, submittedAt: new Date().toISOString() }
+    ]
+  };
+
+  await getVotingSessionStore().save(updated);
+  return { success: true, data: { session: updated, participantToken: token } };
+}
+
+/**
+ * End the vote and turn the tally into the final decision; only the holder of the creator token may close it
+ */
+export function closeVotingSession(
+  sessionId: string,
+  creatorToken?: string
+): Promise<ApiResponse<VotingSession>> {
+  return withSessionLock(sessionId, () => closeSession(sessionId, creatorToken));
+}
+
+async function closeSession(sessionId: string, creatorToken?: string): Promise<ApiResponse<VotingSession>> {
+  const session = await loadVotingSession(sessionId);
+  if (!session) {
+    return { success: false, error: { code: 'SESSION_NOT_FOUND', message: 'Voting session not found' } };
+  }
+
+  if (session.status !== 'open') {
+    return {
+      success: false,
+      error: { code: 'SESSION_CLOSED', message: `Voting session is already ${session.status}` }
+    };
+  }
+
+  if (!creatorToken || session.creatorToken !== creatorToken) {
+    return {
+      success: false,
+      error: { code: 'FORBIDDEN', message: 'Only the session creator can close the vote' }
+    };
+  }
+
+  const closed = closeWithTally(session, 'closed');
+  await getVotingSessionStore().save(closed);
+  return { success: true, data: closed };
+}
+
+/**
+ * Page participants open to see the shortlist and vote
+ */
+export function getSessionJoinUrl(sessionId: string, origin: string): string {
+  return `${process.env.NEXT_PUBLIC_APP_URL || origin}/sessions/${encodeURIComponent(sessionId)}`;
+}
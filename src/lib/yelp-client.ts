@@ -8,6 +8,7 @@ import type {
   ApiResponse 
 } from './types';
 import { YELP_API_CONFIG, ERROR_MESSAGES } from './constants';
+import { getReservationProvider } from './reservation-provider';
 
 // =============================================================================
 // TYPES AND INTERFACES
@@ -462,38 +463,50 @@ export class YelpAPIClient {
   // RESERVATION METHODS
   // =============================================================================
 
+  // Reservations go through the configured ReservationProvider (Yelp Reservations or the local stub)
+
   async checkReservationAvailability(params: YelpReservationParams): Promise<ApiResponse<{
     available_times: string[];
     booking_url?: string;
   }>> {
-    // This would integrate with Yelp's reservation system
-    // For now, return a mock response
-    return {
-      success: true,
-      data: {
-        available_times: ['18:00', '18:30', '19:00', '19:30', '20:00'],
-        booking_url: `https://www.yelp.com/reservations/${params.businessId}`,
-      },
-    };
+    return getReservationProvider().checkAvailability(params);
   }
 
   async makeReservation(params: YelpReservationParams & {
     customerName: string;
     customerPhone: string;
     customerEmail: string;
+    specialRequests?: string;
   }): Promise<ApiResponse<{
     confirmation_id: string;
     status: 'confirmed' | 'pending';
   }>> {
-    // This would integrate with Yelp's reservation system
-    // For now, return a mock response
-    return {
-      success: true,
-      data: {
-        confirmation_id: `RES_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-        status: 'confirmed' as const,
-      },
-    };
+    const provider = getReservationProvider();
+    const { customerName, customerPhone, customerEmail, specialRequests, ...slot } = params;
+
+    const hold = await provider.holdSlot(slot);
+    if (!hold.success) {
+      return hold;
+    }
+
+    const reservation = await provider.makeReservation({
+      businessId: slot.businessId,
+      holdId: hold.data.hold_id,
+      slot,
+      customer: { name: customerName, phone: customerPhone, email: customerEmail },
+      notes: specialRequests,
+    });
+
+    // Don't leave the slot held until it expires when the reservation itself failed
+    if (!reservation.success) {
+      await provider.releaseHold(slot.businessId, hold.data.hold_id);
+    }
+
+    return reservation;
+  }
+
+  async cancelReservation(confirmationId: string): Promise<ApiResponse<{ cancelled: boolean }>> {
+    return getReservationProvider().cancelReservation(confirmationId);
   }
 
   // =============================================================================